@@ -2,38 +2,146 @@ import crypto from "crypto";
 import { Socket } from "net";
 import { EventEmitter } from "events";
 import Packet from "../protocol/Packet";
+import Cipher from "../protocol/smb2/Cipher";
+import Smb2Packet from "../protocol/smb2/Packet";
 import Request from "../protocol/smb2/Request";
 import Response from "../protocol/smb2/Response";
 import Header from "../protocol/smb2/Header";
+import Dialect from "../protocol/smb2/Dialect";
+import { generateGuid } from "../protocol/util";
+import Capability from "../protocol/smb2/Capability";
+import SecurityMode from "../protocol/smb2/SecurityMode";
+import ServerInfo from "../protocol/models/ServerInfo";
 import StatusCode from "../protocol/smb2/StatusCode";
+import HeaderFlag from "../protocol/smb2/HeaderFlag";
+import * as protocolIds from "../protocol/protocolIds";
+import * as signingUtil from "../protocol/smb2/signingUtil";
+import * as encryptionUtil from "../protocol/smb2/encryptionUtil";
+import * as spnegoUtil from "../protocol/spnego/util";
+import SigningAlgorithm from "../protocol/smb2/SigningAlgorithm";
+import {
+  HashAlgorithm,
+  NegotiateContexts,
+  serializeNegotiateContextList,
+  parseNegotiateContextList,
+  getRequestNegotiateContextListOffset,
+  getResponseNegotiateContextListOffset
+} from "../protocol/smb2/packets/Negotiate";
 import Smb2PacketType from "../protocol/smb2/PacketType";
 import Session, { AuthenticateOptions } from "./Session";
+import ConnectionError from "./ConnectionError";
 import * as structureUtil from "../protocol/structureUtil";
 
+export interface RequestOptions {
+  /**
+   * Cancels the request on the server and rejects it once aborted
+   */
+  signal?: AbortSignal;
+  /**
+   * Called once the server went async, while the request stays pending until the final response
+   */
+  onInterimResponse?: (response: Response) => void;
+}
+
+export interface CompoundMessage {
+  header?: Header;
+  body?: any;
+}
+
+export interface ReconnectOptions {
+  /**
+   * Attempts before giving up, unlimited by default
+   */
+  maxAttempts?: number;
+  /**
+   * Milliseconds before the first attempt, doubled after every failed attempt
+   */
+  initialDelay?: number;
+  maxDelay?: number;
+}
+
 export interface Options {
   port?: number;
   connectTimeout?: number;
   requestTimeout?: number;
+  requireSigning?: boolean;
+  /**
+   * Connects again when the connection drops, authenticating the sessions, connecting the trees and resuming the watches
+   */
+  reconnect?: boolean | ReconnectOptions;
 }
 
 interface Client {
-  on(event: "error", callback: (error: Error) => void): this;
+  on(event: "error" | "reconnectFailed", callback: (error: Error) => void): this;
   on(event: "changeNotify", callback: (response: Response) => void): this;
+  on(event: "disconnect" | "reconnect", callback: (client: Client) => void): this;
 
-  once(event: "error", callback: (error: Error) => void): this;
+  once(event: "error" | "reconnectFailed", callback: (error: Error) => void): this;
   once(event: "changeNotify", callback: (response: Response) => void): this;
+  once(event: "disconnect" | "reconnect", callback: (client: Client) => void): this;
 }
 
+const createAbortError = (request: Request) => {
+  const err = new Error(`request_aborted: ${structureUtil.parseEnumValue(Smb2PacketType, request.header.type)}(${request.header.messageId})`);
+  err.name = "AbortError";
+  return err;
+};
+
+// [MS-SMB2] 3.3.4.2: servers answer operations that take long with an unsigned interim response carrying an async id
+const isInterimResponse = (response: Response) => {
+  return (
+    response.header.status === StatusCode.Pending &&
+    (response.header.flags & HeaderFlag.Async) !== 0
+  );
+};
+
+// [MS-SMB2] 3.2.5.19.1: servers break oplocks with notifications carrying the message id 0xffffffffffffffff, which the header parses as signed
+const oplockBreakNotificationMessageId = -1n;
+
+const defaultReconnectInitialDelay = 1000;
+const defaultReconnectMaxDelay = 30 * 1000;
+
+const defaultCreditRequest = 126;
+const creditPayloadSize = 0x00010000;
+
+const getPayloadSize = (header: Header, body: any) => {
+  switch (header.type) {
+    case Smb2PacketType.Read:
+      return Number(body.length || 0);
+    case Smb2PacketType.Write:
+      return Buffer.isBuffer(body.buffer) ? body.buffer.length : 0;
+    case Smb2PacketType.QueryDirectory:
+    case Smb2PacketType.ChangeNotify:
+      return typeof body.outputBufferLength === "number" ? body.outputBufferLength : creditPayloadSize;
+    default:
+      return 0;
+  }
+};
+
+const getCreditCharge = (header: Header, body: any) => {
+  const payloadSize = getPayloadSize(header, body);
+  if (payloadSize === 0) return 1;
+  return Math.floor((payloadSize - 1) / creditPayloadSize) + 1;
+};
+
 class Client extends EventEmitter {
   _id = crypto.randomBytes(4).toString("hex");
+  guid = generateGuid();
   socket: Socket;
   nextMessageId: bigint = 0n;
 
   responseRestChunk: Buffer;
   responseMap = new Map<bigint, Response>();
   responseCallbackMap = new Map<bigint, (response: Response) => void>();
+  asyncIdMap = new Map<bigint, string>();
+  private canceledMessageIds = new Set<bigint>();
+  private connectionErrorCallbackMap = new Map<bigint, (err?: Error) => void>();
+  // files holding an oplock by file id, which outlive disconnects to keep reclaimed durable handles
+  oplockBreakCallbackMap = new Map<string, (response: Response) => void>();
 
   connected: boolean = false;
+  reconnecting: boolean = false;
+  private reconnectTimeoutId: NodeJS.Timeout;
 
   port: number = 445;
 
@@ -43,6 +151,16 @@ class Client extends EventEmitter {
   requestTimeout: number = 5 * 1000;
   requestTimeoutIdMap = new Map<bigint, NodeJS.Timeout>();
 
+  multiCreditSupport: boolean = false;
+  creditLimit: bigint = 1n;
+  private creditWaiters: { messageIdLimit: bigint; resolve: () => void; }[] = [];
+
+  requireSigning: boolean = false;
+
+  serverInfo: ServerInfo;
+  preauthIntegrityHashValue: Buffer;
+  private negotiatePromise: Promise<ServerInfo>;
+
   sessions: Session[] = [];
 
   constructor(
@@ -54,6 +172,7 @@ class Client extends EventEmitter {
     if (typeof this.options.port === "number") this.port = this.options.port;
     if (typeof this.options.connectTimeout === "number") this.connectTimeout = this.options.connectTimeout;
     if (typeof this.options.requestTimeout === "number") this.requestTimeout = this.options.requestTimeout;
+    if (typeof this.options.requireSigning === "boolean") this.requireSigning = this.options.requireSigning;
   }
 
   async connect() {
@@ -61,6 +180,7 @@ class Client extends EventEmitter {
 
     this.socket = new Socket({ allowHalfOpen: true })
       .addListener("data", this.onData)
+      .addListener("end", this.onEnd)
       .addListener("error", this.onError)
       .addListener("close", this.onClose);
     this.socket.setTimeout(0);
@@ -85,6 +205,12 @@ class Client extends EventEmitter {
     try {
       await connectPromise;
       clearTimeout(this.connectTimeoutId);
+      this.nextMessageId = 0n;
+      this.creditLimit = 1n;
+      this.multiCreditSupport = false;
+      delete this.serverInfo;
+      delete this.negotiatePromise;
+      delete this.preauthIntegrityHashValue;
       this.connected = true;
     } catch (err) {
       this.destroySocket();
@@ -92,12 +218,178 @@ class Client extends EventEmitter {
     }
   }
 
+  async negotiate() {
+    if (!this.connected) await this.connect();
+
+    if (!this.negotiatePromise) {
+      this.negotiatePromise = this.requestNegotiate();
+      this.negotiatePromise.catch(() => delete this.negotiatePromise);
+    }
+
+    return await this.negotiatePromise;
+  }
+
+  private async requestNegotiate() {
+    const dialects = [
+      Dialect.Smb202,
+      Dialect.Smb210,
+      Dialect.Smb300,
+      Dialect.Smb302,
+      Dialect.Smb311
+    ];
+    const negotiateContexts: NegotiateContexts = {
+      preauthIntegrityCapabilities: {
+        hashAlgorithms: [HashAlgorithm.Sha512],
+        salt: crypto.randomBytes(32)
+      },
+      signingCapabilities: {
+        signingAlgorithms: [
+          SigningAlgorithm.AesGmac,
+          SigningAlgorithm.AesCmac,
+          SigningAlgorithm.HmacSha256
+        ]
+      },
+      encryptionCapabilities: {
+        ciphers: [
+          Cipher.Aes128Gcm,
+          Cipher.Aes128Ccm,
+          Cipher.Aes256Gcm,
+          Cipher.Aes256Ccm
+        ]
+      }
+    };
+
+    const request = this.createRequest({
+      type: Smb2PacketType.Negotiate
+    }, {
+      dialects,
+      securityMode: this.securityMode,
+      capabilities: this.capabilities,
+      clientGuid: this.guid,
+      ...serializeNegotiateContextList(getRequestNegotiateContextListOffset(dialects.length), negotiateContexts)
+    });
+    const requestMessage = request.serialize().slice(4);
+    const response = await this.send(request);
+
+    const dialect = response.body.dialectRevision as Dialect;
+    const securityMode = response.body.securityMode as SecurityMode;
+    const capabilities = response.body.capabilities as Capability;
+    const securityBuffer = response.body.buffer as Buffer;
+
+    let responseNegotiateContexts: NegotiateContexts = {};
+    let signingAlgorithm = dialect >= Dialect.Smb300 ?
+      SigningAlgorithm.AesCmac :
+      SigningAlgorithm.HmacSha256;
+    let cipher = dialect >= Dialect.Smb300 && (capabilities & Capability.Encryption) !== 0 ?
+      Cipher.Aes128Ccm :
+      undefined;
+    if (dialect === Dialect.Smb311) {
+      responseNegotiateContexts = parseNegotiateContextList(
+        response.body.negotiateContextList as Buffer,
+        getResponseNegotiateContextListOffset(securityBuffer.length),
+        response.body.negotiateContextOffset,
+        response.body.negotiateContextCount
+      );
+
+      const preauthIntegrityCapabilities = responseNegotiateContexts.preauthIntegrityCapabilities;
+      if (
+        !preauthIntegrityCapabilities ||
+        !preauthIntegrityCapabilities.hashAlgorithms.includes(HashAlgorithm.Sha512)
+      ) throw new Error("preauth_integrity_hash_algorithm_not_supported");
+
+      const signingCapabilities = responseNegotiateContexts.signingCapabilities;
+      if (signingCapabilities && signingCapabilities.signingAlgorithms.length > 0) {
+        signingAlgorithm = signingCapabilities.signingAlgorithms[0];
+      }
+
+      // the server has no cipher in common with the client when it answers with Cipher.None
+      const encryptionCapabilities = responseNegotiateContexts.encryptionCapabilities;
+      cipher = encryptionCapabilities && encryptionCapabilities.ciphers[0] !== Cipher.None ?
+        encryptionCapabilities.ciphers[0] :
+        undefined;
+
+      this.preauthIntegrityHashValue = [requestMessage, response.messageBuffer].reduce(
+        signingUtil.updatePreauthIntegrityHashValue,
+        Buffer.alloc(signingUtil.preauthIntegrityHashValueSize)
+      );
+    }
+
+    const serverInfo: ServerInfo = {
+      dialect,
+      dialectName: structureUtil.parseEnumValue(Dialect, dialect),
+      serverGuid: (response.body.serverGuid as Buffer).toString("hex"),
+      securityMode,
+      signingEnabled: (securityMode & SecurityMode.SigningEnabled) !== 0,
+      signingRequired: (securityMode & SecurityMode.SigningRequired) !== 0,
+      capabilities,
+      capabilityNames: structureUtil.parseEnumValues(Capability, capabilities),
+      maxTransactSize: response.body.maxTransactSize,
+      maxReadSize: response.body.maxReadSize,
+      maxWriteSize: response.body.maxWriteSize,
+      systemTime: structureUtil.parseDate(response.body.systemTime as Buffer),
+      serverStartTime: structureUtil.parseDate(response.body.serverStartTime as Buffer),
+      securityBuffer,
+      // servers that do not send a SPNEGO hint expect raw NTLMSSP tokens
+      mechanismTypes: spnegoUtil.isNegTokenInit(securityBuffer) ?
+        spnegoUtil.decodeNegTokenInit(securityBuffer).mechTypes :
+        [],
+      negotiateContexts: responseNegotiateContexts,
+      signingAlgorithm,
+      encryptionSupported: typeof cipher === "number",
+      cipher
+    };
+
+    this.multiCreditSupport =
+      dialect !== Dialect.Smb202 &&
+      (capabilities & Capability.MultiCreditSupport) !== 0;
+    this.serverInfo = serverInfo;
+
+    return serverInfo;
+  }
+
+  get securityMode() {
+    return this.requireSigning ?
+      SecurityMode.SigningEnabled | SecurityMode.SigningRequired :
+      SecurityMode.SigningEnabled;
+  }
+
+  get capabilities() {
+    return Capability.DistributedFileSystem | Capability.MultiCreditSupport | Capability.Encryption;
+  }
+
+  get maxReadSize() {
+    return this.getMaxPayloadSize(this.serverInfo?.maxReadSize);
+  }
+
+  get maxWriteSize() {
+    return this.getMaxPayloadSize(this.serverInfo?.maxWriteSize);
+  }
+
+  get maxTransactSize() {
+    return this.getMaxPayloadSize(this.serverInfo?.maxTransactSize);
+  }
+
+  private getMaxPayloadSize(negotiatedSize: number) {
+    if (!negotiatedSize) return creditPayloadSize;
+    // without multi-credit support every request is limited to a single credit
+    if (!this.multiCreditSupport) return Math.min(negotiatedSize, creditPayloadSize);
+    return negotiatedSize;
+  }
+
   createRequest(header: Header = {}, body: any = {}) {
-    const messageId = this.nextMessageId++;
+    const creditCharge = this.multiCreditSupport ?
+      getCreditCharge(header, body) :
+      0;
+
+    // a request consumes one message id per credit it is charged
+    const messageId = this.nextMessageId;
+    this.nextMessageId += BigInt(Math.max(creditCharge, 1));
 
     return new Request(
       {
         messageId,
+        creditCharge,
+        credit: Math.max(creditCharge, defaultCreditRequest),
         clientId: this._id,
         ...header
       },
@@ -105,36 +397,104 @@ class Client extends EventEmitter {
     );
   }
 
-  async request(header?: Header, body?: any) {
+  async request(header?: Header, body?: any, options?: RequestOptions) {
     const request = this.createRequest(header, body);
-    return await this.send(request);
+    return await this.send(request, options);
+  }
+
+  /**
+   * Sends the messages as one compound, where related messages after the first one set the chained flag and use the related file id.
+   */
+  async requestCompound(messages: CompoundMessage[], options?: RequestOptions) {
+    const requests = messages.map(message => this.createRequest(message.header, message.body));
+    return await this.sendCompound(requests, options);
   }
 
-  async send(request: Request) {
-    if (!this.connected) throw new Error("not_connected");
+  private write(requests: Request[]) {
+    const session = this.getSession(requests[0].header.sessionId);
+    const encrypted = !!session && session.shouldEncrypt(requests[0]);
+    // encrypted messages are protected by the transform header instead of a signature
+    const signed = !encrypted && !!session && session.shouldSign(requests[0]);
+    if (signed) {
+      for (const request of requests) request.header.flags |= HeaderFlag.Signed;
+    }
+
+    // each message of a compound is signed on its own, including its padding
+    const messageBuffers = Smb2Packet.serializeCompound(requests);
+    if (signed) {
+      for (const messageBuffer of messageBuffers) signingUtil.sign(messageBuffer, session.signingKey, session.signingAlgorithm);
+    }
+    let buffer = Buffer.concat(messageBuffers);
+    if (encrypted) {
+      buffer = encryptionUtil.encrypt(buffer, session._id, session.encryptionKey, session.cipher);
+      for (const request of requests) request.encrypted = true;
+    }
+    this.socket.write(Packet.serializeChunk(buffer));
+
+    return encrypted;
+  }
+
+  async send(request: Request, options: RequestOptions = {}) {
+    const [response] = await this.sendCompound([request], options);
+    return response;
+  }
 
-    const buffer = request.serialize();
-    this.socket.write(buffer);
+  /**
+   * Sends the requests in a single message and resolves with their responses, or rejects with the first failed one.
+   */
+  async sendCompound(requests: Request[], options: RequestOptions = {}) {
+    if (!this.connected) throw new ConnectionError("not_connected");
+    const signal = options.signal;
+    if (signal && signal.aborted) throw createAbortError(requests[0]);
 
+    await this.waitForCredits(requests[requests.length - 1]);
+    if (!this.connected) throw new ConnectionError("not_connected");
+    if (signal && signal.aborted) throw createAbortError(requests[0]);
+
+    const encrypted = this.write(requests);
+
+    return await Promise.all(requests.map(request => this.waitForResponse(request, encrypted, options)));
+  }
+
+  private async waitForResponse(request: Request, encrypted: boolean, options: RequestOptions) {
+    const signal = options.signal;
     const messageId = request.header.messageId;
+    let onAbort: () => void;
     const sendPromise = new Promise<Response>((resolve, reject) => {
-      const requestTimeoutId = setTimeout(
-        () => {
-          const err = new Error(`request_timeout: ${structureUtil.parseEnumValue(Smb2PacketType, request.header.type)}(${messageId})`);
-          reject(err);
-        },
-        this.requestTimeout
-      );
-
-      this.requestTimeoutIdMap.set(messageId, requestTimeoutId);
+      const startRequestTimeout = () => {
+        clearTimeout(this.requestTimeoutIdMap.get(messageId));
+        const requestTimeoutId = setTimeout(
+          () => {
+            const err = new Error(`request_timeout: ${structureUtil.parseEnumValue(Smb2PacketType, request.header.type)}(${messageId})`);
+            reject(err);
+          },
+          this.requestTimeout
+        );
+
+        this.requestTimeoutIdMap.set(messageId, requestTimeoutId);
+      };
+      startRequestTimeout();
 
       const finishRequest = (response: Response) => {
         response.request = request;
 
-        if (
+        if (isInterimResponse(response)) {
+          // change notifications only complete once something changed, however long that takes
+          if (request.header.type === Smb2PacketType.ChangeNotify) {
+            clearTimeout(this.requestTimeoutIdMap.get(messageId));
+            this.requestTimeoutIdMap.delete(messageId);
+          } else {
+            startRequestTimeout();
+          }
+          if (options.onInterimResponse) options.onInterimResponse(response);
+        } else if (!this.verifyResponse(response)) {
+          reject(new Error(`signature_verification_failed: ${structureUtil.parseEnumValue(Smb2PacketType, request.header.type)}(${messageId})`));
+        } else if (encrypted && !response.encrypted) {
+          reject(new Error(`response_not_encrypted: ${structureUtil.parseEnumValue(Smb2PacketType, request.header.type)}(${messageId})`));
+        } else if (
           response.header.status !== StatusCode.Success &&
-          response.header.status !== StatusCode.Pending &&
           response.header.status !== StatusCode.MoreProcessingRequired &&
+          response.header.status !== StatusCode.NotifyEnumDir &&
           response.header.status !== StatusCode.FileClosed
         ) {
           reject(response);
@@ -149,16 +509,62 @@ class Client extends EventEmitter {
       } else if (!this.responseCallbackMap.has(messageId)) {
         this.responseCallbackMap.set(messageId, finishRequest);
       }
+
+      if (signal) {
+        onAbort = () => {
+          this.cancel(request);
+          reject(createAbortError(request));
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+      }
+
+      this.connectionErrorCallbackMap.set(messageId, err => {
+        reject(err || new ConnectionError(`connection_closed: ${structureUtil.parseEnumValue(Smb2PacketType, request.header.type)}(${messageId})`));
+      });
     });
 
-    const response = await sendPromise;
-    if (this.requestTimeoutIdMap.has(messageId)) {
-      const requestTimeoutId = this.requestTimeoutIdMap.get(messageId);
-      clearTimeout(requestTimeoutId);
-      this.requestTimeoutIdMap.delete(messageId);
+    try {
+      return await sendPromise;
+    } finally {
+      this.connectionErrorCallbackMap.delete(messageId);
+      if (signal) signal.removeEventListener("abort", onAbort);
+      if (this.requestTimeoutIdMap.has(messageId)) {
+        const requestTimeoutId = this.requestTimeoutIdMap.get(messageId);
+        clearTimeout(requestTimeoutId);
+        this.requestTimeoutIdMap.delete(messageId);
+      }
     }
+  }
 
-    return response;
+  /**
+   * Asks the server to cancel the request, whose response is discarded from now on.
+   */
+  cancel(request: Request) {
+    const messageId = request.header.messageId;
+    this.responseCallbackMap.delete(messageId);
+    this.responseMap.delete(messageId);
+    clearTimeout(this.requestTimeoutIdMap.get(messageId));
+    this.requestTimeoutIdMap.delete(messageId);
+    this.canceledMessageIds.add(messageId);
+    if (!this.connected) return;
+
+    // [MS-SMB2] 3.2.4.24: the cancel request reuses the message id, and the async id once the server went async
+    const asyncId = this.asyncIdMap.get(messageId);
+    const cancelRequest = new Request(
+      {
+        type: Smb2PacketType.Cancel,
+        messageId,
+        creditCharge: 0,
+        credit: 0,
+        flags: typeof asyncId === "string" ? HeaderFlag.Async : 0,
+        asyncId,
+        clientId: this._id,
+        treeId: request.header.treeId,
+        sessionId: request.header.sessionId
+      },
+      {}
+    );
+    this.write([cancelRequest]);
   }
 
   onData = (buffer: Buffer) => {
@@ -174,24 +580,71 @@ class Client extends EventEmitter {
     this.responseRestChunk = restChunk;
 
     for (const chunk of chunks) {
-      const response = Response.parse(chunk);
-      this.onResponse(response);
+      const encrypted = Packet.parseProtocolId(chunk) === protocolIds.smb2Transform;
+      let responses: Response[];
+      try {
+        const buffer = encrypted ? this.decrypt(chunk) : chunk;
+        // compound responses carry one message per request
+        responses = Smb2Packet.splitCompound(buffer).map(messageBuffer => {
+          const response = Response.parse(messageBuffer);
+          response.encrypted = encrypted;
+          return response;
+        });
+      } catch (err) {
+        // the responses that follow a message the client can't read can't be trusted either
+        this.failConnection(err);
+        return;
+      }
+      for (const response of responses) this.onResponse(response);
     }
   }
 
+  private decrypt(chunk: Buffer) {
+    const transformHeader = encryptionUtil.parseTransformHeader(chunk);
+    const session = this.getSession(transformHeader.sessionId);
+    if (!session || !session.decryptionKey) throw new Error(`decryption_key_not_found: ${transformHeader.sessionId}`);
+
+    return encryptionUtil.decrypt(chunk, session.decryptionKey, session.cipher);
+  }
+
   onResponse(response: Response) {
+    this.grantCredits(response.header.credit);
+
+    const messageId = response.header.messageId;
+    const interim = isInterimResponse(response);
+    if (interim) {
+      this.asyncIdMap.set(messageId, response.header.asyncId);
+    } else {
+      this.asyncIdMap.delete(messageId);
+    }
+    if (this.canceledMessageIds.has(messageId)) {
+      if (!interim) this.canceledMessageIds.delete(messageId);
+      return;
+    }
+
+    if (messageId === oplockBreakNotificationMessageId) {
+      const oplockBreakCallback = this.oplockBreakCallbackMap.get(response.body.fileId);
+      if (
+        oplockBreakCallback &&
+        response.header.type === Smb2PacketType.OplockBreak &&
+        this.verifyResponse(response)
+      ) oplockBreakCallback(response);
+      return;
+    }
+
     if (
       response.header.type === Smb2PacketType.ChangeNotify &&
-      response.header.status === StatusCode.Success
+      (response.header.status === StatusCode.Success || response.header.status === StatusCode.NotifyEnumDir) &&
+      this.verifyResponse(response)
     ) {
       this.emit("changeNotify", response);
     }
 
-    const messageId = response.header.messageId;
+    // the request stays pending until the final response
     if (this.responseCallbackMap.has(messageId)) {
       this.responseCallbackMap.get(messageId)(response);
-      this.responseCallbackMap.delete(messageId);
-    } else {
+      if (!interim) this.responseCallbackMap.delete(messageId);
+    } else if (!interim) {
       this.responseMap.set(messageId, response);
     }
   }
@@ -200,8 +653,135 @@ class Client extends EventEmitter {
     console.error(err);
   }
 
+  // the half open socket would otherwise stay writable after the server closed the connection
+  onEnd = () => {
+    this.socket.destroy();
+  }
+
   onClose = (hadError: boolean) => {
+    this.failConnection();
+  }
+
+  /**
+   * Closes the connection and rejects the requests waiting for their responses with the error, or with a ConnectionError without one.
+   */
+  private failConnection(err?: Error) {
     this.connected = false;
+    this.destroySocket();
+    this.rejectPendingRequests(err);
+    // a dropped reconnect attempt fails and is followed by the next one
+    if (this.reconnecting) return;
+
+    this.emit("disconnect", this);
+    if (this.options.reconnect) this.reconnect();
+  }
+
+  private rejectPendingRequests(err?: Error) {
+    const connectionErrorCallbacks = [...this.connectionErrorCallbackMap.values()];
+    for (const requestTimeoutId of this.requestTimeoutIdMap.values()) clearTimeout(requestTimeoutId);
+    this.requestTimeoutIdMap.clear();
+    this.connectionErrorCallbackMap.clear();
+    this.responseCallbackMap.clear();
+    this.responseMap.clear();
+    this.asyncIdMap.clear();
+    this.canceledMessageIds.clear();
+
+    for (const connectionErrorCallback of connectionErrorCallbacks) connectionErrorCallback(err);
+  }
+
+  private async reconnect() {
+    const reconnectOptions = typeof this.options.reconnect === "object" ? this.options.reconnect : {};
+    const maxAttempts = typeof reconnectOptions.maxAttempts === "number" ? reconnectOptions.maxAttempts : Infinity;
+    const initialDelay = typeof reconnectOptions.initialDelay === "number" ? reconnectOptions.initialDelay : defaultReconnectInitialDelay;
+    const maxDelay = typeof reconnectOptions.maxDelay === "number" ? reconnectOptions.maxDelay : defaultReconnectMaxDelay;
+
+    this.reconnecting = true;
+    let reconnectError: Error;
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      await new Promise(resolve => {
+        this.reconnectTimeoutId = setTimeout(resolve, Math.min(initialDelay * 2 ** attempt, maxDelay));
+      });
+      if (!this.reconnecting) return;
+
+      try {
+        await this.connect();
+        // the sessions, trees and open files of the closed connection are gone on the server
+        for (const session of [...this.sessions]) await session.reestablish();
+        if (!this.reconnecting) return;
+
+        this.reconnecting = false;
+        this.emit("reconnect", this);
+        return;
+      } catch (err) {
+        reconnectError = err;
+        if (!this.reconnecting) return;
+        if (this.socket) this.destroySocket();
+        this.connected = false;
+      }
+    }
+
+    this.reconnecting = false;
+    this.emit("reconnectFailed", reconnectError);
+  }
+
+  getSession(sessionId: string) {
+    if (!sessionId) return;
+    return this.sessions.find(session => session._id === sessionId);
+  }
+
+  private verifyResponse(response: Response) {
+    if (response.encrypted) return true;
+
+    const session = this.getSession(response.header.sessionId);
+    if (!session || !session.signingKey) return true;
+
+    if ((response.header.flags & HeaderFlag.Signed) === 0) {
+      // interim responses are never signed and the final session setup response is checked by the session
+      return (
+        !session.signingRequired ||
+        response.header.status === StatusCode.Pending ||
+        response.header.type === Smb2PacketType.SessionSetup
+      );
+    }
+
+    return signingUtil.verify(response.messageBuffer, session.signingKey, session.signingAlgorithm);
+  }
+
+  // credits only come back with responses, which may never arrive when nothing else is in flight
+  private async waitForCredits(request: Request) {
+    const messageIdLimit = request.header.messageId + BigInt(Math.max(request.header.creditCharge, 1));
+    if (messageIdLimit <= this.creditLimit) return;
+
+    await new Promise<void>((resolve, reject) => {
+      let timeoutId: NodeJS.Timeout;
+      const creditWaiter = {
+        messageIdLimit,
+        resolve: () => {
+          clearTimeout(timeoutId);
+          resolve();
+        }
+      };
+      timeoutId = setTimeout(
+        () => {
+          this.creditWaiters.splice(this.creditWaiters.indexOf(creditWaiter), 1);
+          reject(new Error(`credit_timeout: ${structureUtil.parseEnumValue(Smb2PacketType, request.header.type)}(${request.header.messageId})`));
+        },
+        this.requestTimeout
+      );
+      this.creditWaiters.push(creditWaiter);
+    });
+  }
+
+  private grantCredits(credits: number) {
+    if (!credits) return;
+    this.creditLimit += BigInt(credits);
+
+    const creditWaiters = this.creditWaiters;
+    this.creditWaiters = [];
+    for (const creditWaiter of creditWaiters) {
+      if (creditWaiter.messageIdLimit <= this.creditLimit) creditWaiter.resolve();
+      else this.creditWaiters.push(creditWaiter);
+    }
   }
 
   async echo() {
@@ -215,35 +795,59 @@ class Client extends EventEmitter {
 
     const session = new Session(this);
     this.registerSession(session);
-    await session.authenticate(options);
+    try {
+      await session.authenticate(options);
+    } catch (err) {
+      this.unregisterSession(session);
+      throw err;
+    }
     return session;
   }
 
   private destroySocket() {
     this.socket
       .removeListener("data", this.onData)
+      .removeListener("end", this.onEnd)
       .removeListener("error", this.onError)
       .removeListener("close", this.onClose);
     this.socket.end();
     this.socket.destroy();
 
     delete this.socket;
+
+    this.releaseCreditWaiters();
+  }
+
+  private releaseCreditWaiters() {
+    const creditWaiters = this.creditWaiters;
+    this.creditWaiters = [];
+    for (const creditWaiter of creditWaiters) creditWaiter.resolve();
   }
 
   private registerSession(session: Session) {
-    session
-      .once("authenticate", () => this.sessions.push(session))
-      .once("logoff", () => this.sessions.splice(this.sessions.indexOf(session), 1));
+    // sessions are looked up by id while authenticating to verify signed responses
+    this.sessions.push(session);
+    session.once("logoff", () => this.unregisterSession(session));
+  }
+
+  private unregisterSession(session: Session) {
+    const index = this.sessions.indexOf(session);
+    if (index !== -1) this.sessions.splice(index, 1);
   }
 
   async close() {
+    this.reconnecting = false;
+    clearTimeout(this.reconnectTimeoutId);
     if (!this.connected) return;
 
-    await Promise.all(this.sessions.map(x => x.logoff()));
-
-    this.destroySocket();
-
-    this.connected = false;
+    try {
+      await Promise.all(this.sessions.map(x => x.logoff()));
+    } finally {
+      this.destroySocket();
+      this.connected = false;
+      // requests still waiting, like pending watches, would never settle otherwise
+      this.rejectPendingRequests();
+    }
   }
 }
 
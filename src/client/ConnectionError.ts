@@ -0,0 +1,8 @@
+/**
+ * Rejects the requests in flight when the connection closes, and the requests sent while it is closed.
+ */
+class ConnectionError extends Error {
+  name = "ConnectionError";
+}
+
+export default ConnectionError;
@@ -1,4 +1,13 @@
 import Tree from "./Tree";
+import type { RequestOptions } from "./Client";
+import ConnectionError from "./ConnectionError";
+import {
+  DurableHandle,
+  DurableHandleOptions,
+  createDurableHandleRequest,
+  createDurableHandleReconnect,
+  getGrantedDurableHandle
+} from "./durableHandleUtil";
 import { EventEmitter } from "events";
 import * as util from "../protocol/util";
 import Response from "../protocol/smb2/Response";
@@ -7,33 +16,88 @@ import PacketType from "../protocol/smb2/PacketType";
 import FileAttribute from "../protocol/smb2/FileAttribute";
 import ShareAccessType from "../protocol/smb2/ShareAccessType";
 import DirectoryAccess from "../protocol/smb2/DirectoryAccess";
-import { CreateOptions } from "../protocol/smb2/packets/Create";
+import {
+  CreateOptions,
+  CreateContext,
+  CreateContextRequest,
+  CreateContextResponse,
+  parseCreateContextResponse,
+  serializeCreateContextRequest,
+  serializeNameAndCreateContexts
+} from "../protocol/smb2/packets/Create";
 import * as structureUtil from "../protocol/structureUtil";
-import DirectoryEntry from "../protocol/models/DirectoryEntry";
-import { InfoType, FileInfoClass } from "../protocol/smb2/packets/SetInfo";
+import {
+  InfoType,
+  FileInfoClass,
+  FileTime,
+  BasicInformation,
+  serializeBasicInformation,
+  serializeRenameInformation
+} from "../protocol/smb2/packets/SetInfo";
 import CreateDispositionType from "../protocol/smb2/CreateDispositionType";
-import { Flags as ChangeNotifyFlags } from "../protocol/smb2/packets/ChangeNotify";
-
-interface OpenOptions {
+import { Flags as ChangeNotifyFlags, CompletionFilter } from "../protocol/smb2/packets/ChangeNotify";
+import {
+  Flags as QueryDirectoryFlags,
+  DirectoryInformationMap,
+  DirectoryInformationClass,
+  parseDirectoryInformationList
+} from "../protocol/smb2/packets/QueryDirectory";
+
+interface OpenOptions extends RequestOptions {
   desiredAccess?: DirectoryAccess;
   createDisposition?: CreateDispositionType;
   createOptions?: CreateOptions;
+  /**
+   * Requests a durable handle, which the directory reclaims when the client reconnects and the server granted it
+   */
+  durable?: boolean | DurableHandleOptions;
+  createContexts?: CreateContextRequest[];
+}
+
+export interface QueryOptions<C extends DirectoryInformationClass = DirectoryInformationClass> extends RequestOptions {
+  flags?: QueryDirectoryFlags;
+  fileIndex?: number;
+  /**
+   * Name or wildcard pattern matched by the server, including the DOS wildcards <, > and "
+   */
+  pattern?: string;
+  fileInformationClass?: C;
+}
+
+export interface IterateOptions<C extends DirectoryInformationClass = DirectoryInformationClass> extends RequestOptions {
+  /**
+   * Resumes the enumeration at the entry with this index
+   */
+  fileIndex?: number;
+  /**
+   * Requests a single entry per QueryDirectory
+   */
+  singleEntry?: boolean;
+  pattern?: string;
+  fileInformationClass?: C;
 }
 
 interface Directory {
   on(event: "open" | "close", callback: (directory: Directory) => void): this;
   on(event: "change", callback: (response: Response) => void): this;
+  on(event: "error", callback: (error: Error) => void): this;
 
   once(event: "open" | "close", callback: (directory: Directory) => void): this;
   once(event: "change", callback: (response: Response) => void): this;
+  once(event: "error", callback: (error: Error) => void): this;
 }
 
 class Directory extends EventEmitter {
   public _id: string;
+  public path: string;
   public isOpen: boolean = false;
   public watching: boolean = false;
-  private watchingMessageIds: bigint[] = [];
+  public durableHandle: DurableHandle;
+  public createContextResponse: CreateContextResponse;
+  private watchAbortControllers: AbortController[] = [];
   private watchRecursive: boolean;
+  private watchCompletionFilter: CompletionFilter;
+  private openOptions: OpenOptions;
 
   constructor(
     private tree: Tree
@@ -44,9 +108,66 @@ class Directory extends EventEmitter {
   async open(path: string, options: OpenOptions = {}) {
     if (this.isOpen) return;
 
-    const buffer = Buffer.from(util.toWindowsFilePath(path), "ucs2");
+    const durableHandleRequest = options.durable ?
+      createDurableHandleRequest(this.tree.session.client.serverInfo, options.durable) :
+      undefined;
+    const response = await this.requestOpen(
+      path,
+      options,
+      durableHandleRequest ? [durableHandleRequest.createContext] : []
+    );
+
+    this.durableHandle = durableHandleRequest ?
+      getGrantedDurableHandle(durableHandleRequest.durableHandle, this.createContextResponse.createContexts) :
+      undefined;
+    this.path = path;
+    // reopening must not create the directory again
+    this.openOptions = {
+      desiredAccess: options.desiredAccess,
+      createOptions: options.createOptions,
+      durable: options.durable,
+      createContexts: options.createContexts
+    };
+    this.isOpen = true;
+
+    this.emit("open", this);
+  }
+
+  /**
+   * Reclaims the durable handle or opens the directory again after a reconnect, which lost the pending ChangeNotify, and resumes watching it.
+   */
+  async reopen() {
+    const watching = this.watching;
+    this.watching = false;
+    this.watchAbortControllers = [];
+
+    let reclaimed = false;
+    if (this.durableHandle) {
+      try {
+        await this.requestOpen(this.path, this.openOptions, [createDurableHandleReconnect(this._id, this.durableHandle)]);
+        reclaimed = true;
+      } catch (err) {
+        if (err instanceof ConnectionError) throw err;
+        this.durableHandle = undefined;
+      }
+    }
+    if (!reclaimed) {
+      this.isOpen = false;
+      await this.open(this.path, this.openOptions);
+    }
+
+    if (watching) await this.watch(this.watchRecursive, this.watchCompletionFilter);
+  }
+
+  private async requestOpen(path: string, options: OpenOptions, createContexts: CreateContext[]) {
     const response = await this.tree.request({ type: PacketType.Create }, {
-      buffer,
+      ...serializeNameAndCreateContexts(
+        util.toWindowsFilePath(path),
+        [
+          ...(options.createContexts || []).map(serializeCreateContextRequest),
+          ...createContexts
+        ]
+      ),
       desiredAccess: typeof options.desiredAccess === "number" ?
         options.desiredAccess :
         (
@@ -64,15 +185,13 @@ class Directory extends EventEmitter {
         CreateDispositionType.Open,
       createOptions: typeof options.createOptions === "number" ?
         options.createOptions :
-        CreateOptions.None,
-      nameOffset: 0x0078,
-      createContextsOffset: 0x007a + buffer.length
-    });
+        CreateOptions.None
+    }, { signal: options.signal });
 
     this._id = response.body.fileId as string;
-    this.isOpen = true;
+    this.createContextResponse = parseCreateContextResponse(response.body.buffer as Buffer);
 
-    this.emit("open", this);
+    return response;
   }
 
   async create(path: string) {
@@ -82,56 +201,91 @@ class Directory extends EventEmitter {
     });
   }
 
-  async watch(recursive: boolean = true) {
+  async watch(recursive: boolean = true, completionFilter?: CompletionFilter) {
     if (this.watching) return;
     this.watching = true;
     this.watchRecursive = recursive;
+    this.watchCompletionFilter = completionFilter;
 
     await this.requestWatch();
-
-    this.tree.session.client.addListener("changeNotify", this.onChangeNotify);
   }
 
   async unwatch() {
     if (!this.watching) return;
     this.watching = false;
 
-    this.tree.session.client.removeListener("changeNotify", this.onChangeNotify);
+    // the server only completes a pending ChangeNotify on close, which would leave its callback behind
+    for (const abortController of this.watchAbortControllers) abortController.abort();
+    this.watchAbortControllers = [];
 
     await this.close();
   }
 
-  private onChangeNotify = async (response: Response) => {
-    const messageId = response.header.messageId;
-    const messageIdIndex = this.watchingMessageIds.indexOf(messageId);
-
-    if (messageIdIndex !== -1) {
-      this.watchingMessageIds.splice(messageIdIndex, 1);
-      this.emit("change", response);
+  /**
+   * Resolves once the server accepted the ChangeNotify, which stays pending until something changed and is then sent again.
+   */
+  private requestWatch() {
+    const abortController = new AbortController();
+    this.watchAbortControllers.push(abortController);
+
+    return new Promise<void>((resolve, reject) => {
+      let accepted = false;
+      const accept = () => {
+        accepted = true;
+        resolve();
+      };
+
+      this.tree.request(
+        { type: PacketType.ChangeNotify },
+        {
+          flags: this.watchRecursive ?
+            ChangeNotifyFlags.WatchTreeRecursively :
+            ChangeNotifyFlags.None,
+          fileId: this._id,
+          completionFilter: this.watchCompletionFilter
+        },
+        {
+          signal: abortController.signal,
+          onInterimResponse: accept
+        }
+      ).then(
+        response => {
+          accept();
+          if (!this.removeWatchAbortController(abortController)) return;
+          this.emit("change", response);
+
+          if (this.watching) this.requestWatch().catch(err => this.emitError(err));
+        },
+        err => {
+          // unwatching aborted the request
+          if (!this.removeWatchAbortController(abortController)) return accept();
+          // the server canceled the ChangeNotify, which ends the watch rather than failing it
+          if (err.header && err.header.status === StatusCode.Cancelled) return accept();
+          // the watch is resumed once the client reconnected
+          if (err instanceof ConnectionError && this.tree.session.client.reconnecting) return accept();
+
+          // failed requests are rejected with the response
+          const error = err.header ?
+            new Error(`ChangeNotify: ${structureUtil.parseEnumValue(StatusCode, err.header.status)} (${err.header.status})`) :
+            err;
+          if (accepted) this.emitError(error);
+          else reject(error);
+        }
+      );
+    });
+  }
 
-      await this.requestWatch();
-    }
-  };
-
-  private async requestWatch() {
-    const request = this.tree.createRequest(
-      { type: PacketType.ChangeNotify },
-      {
-        flags: this.watchRecursive ?
-          ChangeNotifyFlags.WatchTreeRecursively :
-          ChangeNotifyFlags.None,
-        fileId: this._id
-      }
-    );
-    this.watchingMessageIds.push(request.header.messageId);
+  // an error event without listeners would throw, and callers of Tree.watchDirectory never listen for errors
+  private emitError(err: Error) {
+    if (this.listenerCount("error") > 0) this.emit("error", err);
+  }
 
-    const response = await this.tree.session.client.send(request);
-    if (
-      response.header.status !== StatusCode.Success &&
-      response.header.status !== StatusCode.Pending
-    ) throw new Error(`ChangeNotify: ${structureUtil.parseEnumValue(StatusCode, response.header.status)} (${response.header.status})`);
+  private removeWatchAbortController(abortController: AbortController) {
+    const abortControllerIndex = this.watchAbortControllers.indexOf(abortController);
+    if (abortControllerIndex === -1) return false;
 
-    return response;
+    this.watchAbortControllers.splice(abortControllerIndex, 1);
+    return true;
   }
 
   async flush() {
@@ -142,19 +296,63 @@ class Directory extends EventEmitter {
     });
   }
 
-  async read() {
-    const response = await this.tree.request({ type: PacketType.QueryDirectory }, {
-      fileId: this._id,
-      buffer: Buffer.from("*", "ucs2")
-    });
+  /**
+   * Sends a single QueryDirectory, returning no entries once the server has no more files.
+   */
+  async query<C extends DirectoryInformationClass = FileInfoClass.IdBothDirectoryInformation>(options: QueryOptions<C> = {}) {
+    const fileInformationClass = (options.fileInformationClass || FileInfoClass.IdBothDirectoryInformation) as C;
+    try {
+      const response = await this.tree.request({ type: PacketType.QueryDirectory }, {
+        fileId: this._id,
+        fileInformationClass,
+        flags: options.flags || QueryDirectoryFlags.None,
+        fileIndex: options.fileIndex || 0,
+        buffer: Buffer.from(options.pattern || "*", "ucs2")
+      }, { signal: options.signal });
+      return parseDirectoryInformationList(response.body.buffer as Buffer, fileInformationClass);
+    } catch (err) {
+      // the first query reports patterns without matches as no such file
+      if (
+        err.header &&
+        (err.header.status === StatusCode.NoMoreFiles || err.header.status === StatusCode.NoSuchFile)
+      ) return [];
+      throw err;
+    }
+  }
 
-    let entries: DirectoryEntry[] = [];
-    if (response.data) {
-      entries = response.data.filter(x => x.filename !== "." && x.filename !== "..")
-    } else {
-      console.warn("response without data", response);
+  /**
+   * Enumerates the directory one QueryDirectory response at a time.
+   */
+  async *iterate<C extends DirectoryInformationClass = FileInfoClass.IdBothDirectoryInformation>(options: IterateOptions<C> = {}) {
+    const singleEntryFlag = options.singleEntry ?
+      QueryDirectoryFlags.ReturnSingleEntry :
+      QueryDirectoryFlags.None;
+    let flags = typeof options.fileIndex === "number" ?
+      QueryDirectoryFlags.IndexSpecified :
+      QueryDirectoryFlags.RestartScans;
+    let fileIndex = options.fileIndex || 0;
+
+    while (true) {
+      const entries = await this.query<C>({
+        flags: flags | singleEntryFlag,
+        fileIndex,
+        pattern: options.pattern,
+        fileInformationClass: options.fileInformationClass,
+        signal: options.signal
+      });
+      if (entries.length === 0) return;
+
+      for (const entry of entries) {
+        if (entry.filename !== "." && entry.filename !== "..") yield entry;
+      }
+      flags = QueryDirectoryFlags.None;
+      fileIndex = 0;
     }
+  }
 
+  async read<C extends DirectoryInformationClass = FileInfoClass.IdBothDirectoryInformation>(options: IterateOptions<C> = {}) {
+    const entries: DirectoryInformationMap[C][] = [];
+    for await (const entry of this.iterate<C>(options)) entries.push(entry);
     return entries;
   }
 
@@ -181,16 +379,20 @@ class Directory extends EventEmitter {
     await this.setInfo(FileInfoClass.DispositionInformation, buffer);
   }
 
-  async rename(newPath: string) {
-    const newPathUCS2 = Buffer.from(newPath, "ucs2");
-    const buffer = Buffer.alloc(1 + 7 + 8 + 4 + newPathUCS2.length);
+  async rename(newPath: string, replaceIfExists: boolean = true) {
+    await this.setInfo(FileInfoClass.RenameInformation, serializeRenameInformation(newPath, replaceIfExists));
+  }
 
-    buffer.fill(0x00);
-    buffer.writeUInt8(1, 0);
-    buffer.writeUInt32LE(newPathUCS2.length, 16);
-    buffer.fill(newPathUCS2, 20);
+  async utimes(lastAccessTime?: FileTime, lastWriteTime?: FileTime) {
+    await this.setBasicInformation({ lastAccessTime, lastWriteTime });
+  }
+
+  async setAttributes(fileAttributes: FileAttribute) {
+    await this.setBasicInformation({ fileAttributes: fileAttributes | FileAttribute.Directory });
+  }
 
-    await this.setInfo(FileInfoClass.RenameInformation, buffer);
+  async setBasicInformation(basicInformation: BasicInformation) {
+    await this.setInfo(FileInfoClass.BasicInformation, serializeBasicInformation(basicInformation));
   }
 
   async setInfo(fileInfoClass: number, buffer: Buffer) {
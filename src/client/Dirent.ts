@@ -0,0 +1,31 @@
+import DirectoryEntry from "../protocol/models/DirectoryEntry";
+
+/**
+ * Entry of a directory listing, shaped like fs.Dirent.
+ */
+class Dirent {
+  name: string;
+  private directory: boolean;
+  private symbolicLink: boolean;
+
+  constructor(entry: DirectoryEntry) {
+    // listed names are relative paths like ./name
+    this.name = entry.filename.replace(/^\.\//, "");
+    this.directory = entry.type === "Directory";
+    this.symbolicLink = entry.fileAttributes.includes("ReparsePoint");
+  }
+
+  isFile() {
+    return !this.directory;
+  }
+
+  isDirectory() {
+    return this.directory;
+  }
+
+  isSymbolicLink() {
+    return this.symbolicLink;
+  }
+}
+
+export default Dirent;
@@ -1,26 +1,91 @@
 import { EventEmitter } from "events";
 import type Tree from "./Tree";
+import type { RequestOptions } from "./Client";
+import ConnectionError from "./ConnectionError";
+import {
+  DurableHandle,
+  DurableHandleOptions,
+  createDurableHandleRequest,
+  createDurableHandleReconnect,
+  getGrantedDurableHandle
+} from "./durableHandleUtil";
 import * as util from "../protocol/util";
+import Response from "../protocol/smb2/Response";
 import StatusCode from "../protocol/smb2/StatusCode";
 import PacketType from "../protocol/smb2/PacketType";
 import FileAttribute from "../protocol/smb2/FileAttribute";
+import OplockLevel from "../protocol/smb2/OplockLevel";
 import ShareAccessType from "../protocol/smb2/ShareAccessType";
-import { CreateOptions } from "../protocol/smb2/packets/Create";
+import {
+  CreateOptions,
+  CreateContext,
+  CreateContextRequest,
+  CreateContextResponse,
+  parseCreateContextResponse,
+  serializeCreateContextRequest,
+  serializeNameAndCreateContexts
+} from "../protocol/smb2/packets/Create";
 import CreateDispositionType from "../protocol/smb2/CreateDispositionType";
 import FilePipePrinterAccess from "../protocol/smb2/FilePipePrinterAccess";
-import { FileInfoClass, InfoType } from "../protocol/smb2/packets/SetInfo";
+import {
+  FileInfoClass,
+  InfoType,
+  FileTime,
+  BasicInformation,
+  serializeBasicInformation,
+  serializeRenameInformation
+} from "../protocol/smb2/packets/SetInfo";
+import * as queryInfo from "../protocol/smb2/packets/QueryInfo";
+import Stats from "./Stats";
 import { Readable } from "stream";
 import { FileWriteStream } from "./stream/FileWriteStream";
 
-const maxReadChunkLength = 0x00010000;
-const maxWriteChunkLength = 0x00010000 - 0x71;
-
-interface OpenOptions {
+export interface OpenOptions extends RequestOptions {
   desiredAccess?: FilePipePrinterAccess;
+  shareAccess?: ShareAccessType;
   createDisposition?: CreateDispositionType;
   createOptions?: CreateOptions;
+  /**
+   * Requests a durable handle with a batch oplock, which the file reclaims when the client reconnects
+   */
+  durable?: boolean | DurableHandleOptions;
+  createContexts?: CreateContextRequest[];
 }
 
+export const getOpenRequestBody = (path: string, options: OpenOptions = {}, createContexts: CreateContext[] = []) => {
+  return {
+    ...serializeNameAndCreateContexts(
+      util.toWindowsFilePath(path),
+      [
+        ...(options.createContexts || []).map(serializeCreateContextRequest),
+        ...createContexts
+      ]
+    ),
+    // servers only keep handles with a batch oplock durable
+    requestedOplockLevel: options.durable ? OplockLevel.Batch : OplockLevel.None,
+    desiredAccess: typeof options.desiredAccess === "number" ?
+      options.desiredAccess :
+      FilePipePrinterAccess.ReadData,
+    fileAttributes: FileAttribute.Normal,
+    shareAccess: typeof options.shareAccess === "number" ?
+      options.shareAccess :
+      (
+        ShareAccessType.Read |
+        ShareAccessType.Write |
+        ShareAccessType.Delete
+      ),
+    createDisposition: typeof options.createDisposition === "number" ?
+      options.createDisposition :
+      CreateDispositionType.Open,
+    createOptions: typeof options.createOptions === "number" ?
+      options.createOptions :
+      CreateOptions.None
+  };
+};
+
+// [MS-SMB2] 2.2.21: writes to this offset go to the end of files opened with append access only
+export const appendPosition = 0xffffffffffffffffn;
+
 interface File {
   on(event: "open" | "close", callback: (file: File) => void): this;
 
@@ -28,9 +93,15 @@ interface File {
 }
 
 class File extends EventEmitter {
-  _id: Buffer;
+  _id: string;
+  path: string;
   isOpen: boolean;
   fileSize: bigint;
+  fileAttributes: FileAttribute;
+  oplockLevel: OplockLevel = OplockLevel.None;
+  durableHandle: DurableHandle;
+  createContextResponse: CreateContextResponse;
+  private openOptions: OpenOptions;
 
   constructor(
     private tree: Tree
@@ -38,37 +109,98 @@ class File extends EventEmitter {
     super();
   }
 
+  private get maxReadChunkLength() {
+    return this.tree.session.client.maxReadSize;
+  }
+
+  private get maxWriteChunkLength() {
+    return this.tree.session.client.maxWriteSize;
+  }
+
   async open(path: string, options: OpenOptions = {}) {
     if (this.isOpen) return;
 
-    const buffer = Buffer.from(util.toWindowsFilePath(path), "ucs2");
-    const response = await this.tree.request({ type: PacketType.Create }, {
-      buffer,
-      desiredAccess: typeof options.desiredAccess === "number" ?
-        options.desiredAccess :
-        FilePipePrinterAccess.ReadData,
-      fileAttributes: FileAttribute.Normal,
-      shareAccess:
-        ShareAccessType.Read |
-        ShareAccessType.Write |
-        ShareAccessType.Delete,
-      createDisposition: typeof options.createDisposition === "number" ?
-        options.createDisposition :
-        CreateDispositionType.Open,
-      createOptions: typeof options.createDisposition === "number" ?
-        options.createDisposition :
-        CreateOptions.None,
-      nameOffset: 0x0078,
-      createContextsOffset: 0x007a + buffer.length
-    });
-
-    this._id = response.body.fileId as Buffer;
-    this.fileSize = response.body.endOfFile as bigint;
+    const durableHandleRequest = options.durable ?
+      createDurableHandleRequest(this.tree.session.client.serverInfo, options.durable) :
+      undefined;
+    const response = await this.requestOpen(
+      path,
+      options,
+      durableHandleRequest ? [durableHandleRequest.createContext] : []
+    );
+
+    this.durableHandle = durableHandleRequest ?
+      getGrantedDurableHandle(durableHandleRequest.durableHandle, this.createContextResponse.createContexts) :
+      undefined;
+    this.path = path;
+    // reclaiming must not create or overwrite the file again
+    this.openOptions = {
+      desiredAccess: options.desiredAccess,
+      shareAccess: options.shareAccess,
+      createOptions: options.createOptions,
+      durable: options.durable
+    };
     this.isOpen = true;
 
     this.emit("open", this);
   }
 
+  /**
+   * Reclaims the durable handle after a reconnect, closing the file when the server didn't keep it.
+   */
+  async reopen() {
+    try {
+      await this.requestOpen(this.path, this.openOptions, [createDurableHandleReconnect(this._id, this.durableHandle)]);
+    } catch (err) {
+      if (err instanceof ConnectionError) throw err;
+
+      this.isOpen = false;
+      this.durableHandle = undefined;
+      this.setOplockLevel(OplockLevel.None);
+      this.emit("close", this);
+    }
+  }
+
+  private async requestOpen(path: string, options: OpenOptions, createContexts: CreateContext[]) {
+    const response = await this.tree.request(
+      { type: PacketType.Create },
+      getOpenRequestBody(path, options, createContexts),
+      { signal: options.signal }
+    );
+
+    this._id = response.body.fileId as string;
+    this.fileSize = response.body.endOfFile as bigint;
+    this.fileAttributes = response.body.fileAttributes as FileAttribute;
+    this.createContextResponse = parseCreateContextResponse(response.body.buffer as Buffer);
+    this.setOplockLevel(response.body.oplockLevel as OplockLevel);
+
+    return response;
+  }
+
+  private setOplockLevel(oplockLevel: OplockLevel) {
+    this.oplockLevel = oplockLevel;
+
+    const client = this.tree.session.client;
+    if (oplockLevel !== OplockLevel.None) client.oplockBreakCallbackMap.set(this._id, this.onOplockBreak);
+    else if (client.oplockBreakCallbackMap.get(this._id) === this.onOplockBreak) client.oplockBreakCallbackMap.delete(this._id);
+  }
+
+  // [MS-SMB2] 3.2.5.19.1: the server holds back the open that broke the oplock until the break is acknowledged
+  private onOplockBreak = (response: Response) => {
+    const oplockLevel = response.body.oplockLevel as OplockLevel;
+    this.setOplockLevel(oplockLevel);
+    // handles without a batch oplock stop being durable, unless they are persistent
+    if (
+      oplockLevel !== OplockLevel.Batch &&
+      this.durableHandle &&
+      !this.durableHandle.persistent
+    ) this.durableHandle = undefined;
+
+    // the server breaks the oplock by itself once its break timeout passes, so failed acknowledgments are left alone
+    this.tree.request({ type: PacketType.OplockBreak }, { oplockLevel, fileId: this._id })
+      .catch(() => undefined);
+  };
+
   async create(path: string) {
     await this.open(path, {
       desiredAccess: FilePipePrinterAccess.WriteData,
@@ -83,17 +215,9 @@ class File extends EventEmitter {
     await this.setInfo(FileInfoClass.DispositionInformation, buffer);
   }
 
-  async rename(newPath: string) {
-    const newPathUCS2 = Buffer.from(util.toWindowsFilePath(newPath), "ucs2");
-    const buffer = Buffer.alloc(20 + newPathUCS2.length);
-    buffer.writeUInt8(0, 0);  // 0 = don't replace if exists
-    buffer.fill(0, 1, 8);
-    buffer.writeBigUInt64LE(BigInt(0), 8);
-    buffer.writeUInt32LE(newPathUCS2.length, 16);
-    // Use Buffer.copy instead of Uint8Array
-    newPathUCS2.copy(buffer, 20);
-    await this.setInfo(FileInfoClass.RenameInformation, buffer);
-}
+  async rename(newPath: string, replaceIfExists: boolean = false) {
+    await this.setInfo(FileInfoClass.RenameInformation, serializeRenameInformation(newPath, replaceIfExists));
+  }
 
   async setSize(size: bigint) {
     const buffer = Buffer.alloc(8);
@@ -102,6 +226,23 @@ class File extends EventEmitter {
     await this.setInfo(FileInfoClass.EndOfFileInformation, buffer);
   }
 
+  async utimes(lastAccessTime?: FileTime, lastWriteTime?: FileTime) {
+    await this.setBasicInformation({ lastAccessTime, lastWriteTime });
+  }
+
+  async setAttributes(fileAttributes: FileAttribute) {
+    // directories keep their directory attribute, files need Normal to clear all attributes
+    const newFileAttributes = (this.fileAttributes & FileAttribute.Directory) !== 0 ?
+      fileAttributes | FileAttribute.Directory :
+      fileAttributes;
+    await this.setBasicInformation({ fileAttributes: newFileAttributes || FileAttribute.Normal });
+    this.fileAttributes = newFileAttributes;
+  }
+
+  async setBasicInformation(basicInformation: BasicInformation) {
+    await this.setInfo(FileInfoClass.BasicInformation, serializeBasicInformation(basicInformation));
+  }
+
   async setInfo(fileInfoClass: number, buffer: Buffer) {
     await this.tree.request({ type: PacketType.SetInfo }, {
       infoType: InfoType.File,
@@ -111,21 +252,50 @@ class File extends EventEmitter {
     });
   }
 
-  private async writeChunk(offset: number, chunk: Buffer) {
+  async queryInfo(fileInfoClass: number, infoType: InfoType = InfoType.File, options: RequestOptions = {}) {
+    const response = await this.tree.request({ type: PacketType.QueryInfo }, {
+      infoType,
+      fileId: this._id,
+      fileInfoClass
+    }, options);
+
+    return response.body.buffer as Buffer;
+  }
+
+  async stat(options: RequestOptions = {}) {
+    const buffer = await this.queryInfo(FileInfoClass.AllInformation, InfoType.File, options);
+    return new Stats(queryInfo.parseAllInformation(buffer));
+  }
+
+  async getStreams() {
+    const buffer = await this.queryInfo(FileInfoClass.StreamInformation);
+    return queryInfo.parseStreamInformation(buffer);
+  }
 
-      const offsetBuffer = Buffer.alloc(8);
-      offsetBuffer.writeBigUInt64LE(BigInt(offset));
+  async flush() {
+    await this.tree.request({ type: PacketType.Flush }, { fileId: this._id });
+  }
 
-      await this.tree.request({ type: PacketType.Write }, {
-        fileId: this._id,
-        buffer: chunk,
-        offset: offsetBuffer
-      });
+  private async writeChunk(offset: number | bigint, chunk: Buffer, options: RequestOptions = {}) {
+    await this.tree.request({ type: PacketType.Write }, {
+      fileId: this._id,
+      buffer: chunk,
+      offset: BigInt(offset)
+    }, options);
   }
 
-  async write(content: Buffer | string) {
+  async write(content: Buffer | string, options: RequestOptions = {}) {
     const buffer = Buffer.isBuffer(content) ? content : Buffer.from(content, "utf8");
+    await this.writeAt(buffer, 0, options);
+  }
+
+  /**
+   * Writes the buffer at the position, where the position 0xffffffffffffffff appends to a file that was opened for appending only.
+   */
+  async writeAt(buffer: Buffer, position: number | bigint, options: RequestOptions = {}) {
+    const maxWriteChunkLength = this.maxWriteChunkLength;
     const chunkCount = Math.ceil(buffer.length / maxWriteChunkLength);
+    const append = BigInt(position) === appendPosition;
 
     for (let index = 0; index < chunkCount; index++) {
       const offset = index * maxWriteChunkLength;
@@ -133,42 +303,67 @@ class File extends EventEmitter {
       const length = nextOffset > buffer.length ? buffer.length - offset : nextOffset - offset;
       const chunk = buffer.slice(offset, offset + length);
 
-      await this.writeChunk(offset, chunk);
+      await this.writeChunk(append ? appendPosition : BigInt(position) + BigInt(offset), chunk, options);
     }
   }
 
   createWriteStream() {
-    return new FileWriteStream(maxWriteChunkLength, this.writeChunk.bind(this));
+    return new FileWriteStream(this.maxWriteChunkLength, this.writeChunk.bind(this));
   }
 
-  private async readChunk(initial: number, offset: number) {
+  private async readChunk(offset: number, options: RequestOptions = {}) {
     const fileSize = Number(this.fileSize);
-    const nextOffset = (initial + 1) * maxReadChunkLength;
+    const nextOffset = offset + this.maxReadChunkLength;
     const length = nextOffset > fileSize ? fileSize - offset : nextOffset - offset;
 
-    const lengthBuffer = Buffer.alloc(4);
-    lengthBuffer.writeInt32LE(length, 0);
-
-    const offsetBuffer = Buffer.alloc(8);
-    offsetBuffer.writeBigUInt64LE(BigInt(offset));
-
     const response = await this.tree.request({ type: PacketType.Read }, {
       fileId: this._id,
-      length: lengthBuffer,
-      offset: offsetBuffer
-    });
+      length,
+      offset: BigInt(offset)
+    }, options);
 
     return response.body.buffer as Buffer;
   }
 
-  async read() {
+  /**
+   * Reads up to length bytes from the position, returning fewer bytes at the end of the file.
+   */
+  async readAt(position: number | bigint, length: number, options: RequestOptions = {}) {
+    const maxReadChunkLength = this.maxReadChunkLength;
+    const chunks: Buffer[] = [];
+
+    let bytesRead = 0;
+    while (bytesRead < length) {
+      let chunk: Buffer;
+      try {
+        const response = await this.tree.request({ type: PacketType.Read }, {
+          fileId: this._id,
+          length: Math.min(length - bytesRead, maxReadChunkLength),
+          offset: BigInt(position) + BigInt(bytesRead)
+        }, options);
+        chunk = response.body.buffer as Buffer;
+      } catch (err) {
+        if (err.header && err.header.status === StatusCode.EndOfFile) break;
+        throw err;
+      }
+      if (chunk.length === 0) break;
+
+      chunks.push(chunk);
+      bytesRead += chunk.length;
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  async read(options: RequestOptions = {}) {
     const fileSize = Number(this.fileSize);
+    const maxReadChunkLength = this.maxReadChunkLength;
     const chunkCount = Math.ceil(fileSize / maxReadChunkLength);
 
     const buffer = Buffer.alloc(fileSize);
     for (let index = 0; index < chunkCount; index++) {
       const offset = index * maxReadChunkLength;
-      ((await this.readChunk(index, offset)) as Buffer).copy(buffer, offset);
+      ((await this.readChunk(offset, options)) as Buffer).copy(buffer, offset);
     }
 
     return buffer;
@@ -176,12 +371,13 @@ class File extends EventEmitter {
 
   createReadStream() {
     const fileSize = Number(this.fileSize);
+    const maxReadChunkLength = this.maxReadChunkLength;
     return Readable.from(async function* read() {
       const chunkCount = Math.ceil(fileSize / maxReadChunkLength);
 
       for (let index = 0; index < chunkCount; index++) {
         const offset = index * maxReadChunkLength;
-        yield ((await this.readChunk(index, offset)) as Buffer);
+        yield ((await this.readChunk(offset)) as Buffer);
       }
     }.bind(this)());
   }
@@ -205,6 +401,7 @@ class File extends EventEmitter {
   async close() {
     if (!this.isOpen) return;
     this.isOpen = false;
+    this.setOplockLevel(OplockLevel.None);
 
     await this.tree.request({ type: PacketType.Close }, { fileId: this._id });
 
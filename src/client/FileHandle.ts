@@ -0,0 +1,164 @@
+import type File from "./File";
+import { OpenOptions, appendPosition } from "./File";
+import type { RequestOptions } from "./Client";
+import { CreateOptions } from "../protocol/smb2/packets/Create";
+import ShareAccessType from "../protocol/smb2/ShareAccessType";
+import CreateDispositionType from "../protocol/smb2/CreateDispositionType";
+import FilePipePrinterAccess from "../protocol/smb2/FilePipePrinterAccess";
+
+export type OpenFlags = "r" | "r+" | "w" | "w+" | "wx" | "wx+" | "a" | "a+" | "ax" | "ax+";
+
+const readAccess = FilePipePrinterAccess.ReadData |
+  FilePipePrinterAccess.ReadAttributes |
+  FilePipePrinterAccess.Synchronize;
+const writeAccess = FilePipePrinterAccess.WriteData |
+  FilePipePrinterAccess.AppendData |
+  FilePipePrinterAccess.ReadAttributes |
+  FilePipePrinterAccess.WriteAttributes |
+  FilePipePrinterAccess.Synchronize;
+// without write data access the server appends every write to the end of the file
+const appendAccess = FilePipePrinterAccess.AppendData |
+  FilePipePrinterAccess.ReadAttributes |
+  FilePipePrinterAccess.Synchronize;
+
+const readShareAccess = ShareAccessType.Read | ShareAccessType.Write | ShareAccessType.Delete;
+const writeShareAccess = ShareAccessType.Read;
+
+// node open flags as create disposition, desired access and share access
+const openOptionsMap: { [flags in OpenFlags]: OpenOptions } = {
+  "r": {
+    createDisposition: CreateDispositionType.Open,
+    desiredAccess: readAccess,
+    shareAccess: readShareAccess
+  },
+  "r+": {
+    createDisposition: CreateDispositionType.Open,
+    desiredAccess: readAccess | writeAccess,
+    shareAccess: writeShareAccess
+  },
+  "w": {
+    createDisposition: CreateDispositionType.OverwriteIf,
+    desiredAccess: writeAccess,
+    shareAccess: writeShareAccess
+  },
+  "w+": {
+    createDisposition: CreateDispositionType.OverwriteIf,
+    desiredAccess: readAccess | writeAccess,
+    shareAccess: writeShareAccess
+  },
+  "wx": {
+    createDisposition: CreateDispositionType.Create,
+    desiredAccess: writeAccess,
+    shareAccess: writeShareAccess
+  },
+  "wx+": {
+    createDisposition: CreateDispositionType.Create,
+    desiredAccess: readAccess | writeAccess,
+    shareAccess: writeShareAccess
+  },
+  "a": {
+    createDisposition: CreateDispositionType.OpenIf,
+    desiredAccess: appendAccess,
+    shareAccess: writeShareAccess
+  },
+  "a+": {
+    createDisposition: CreateDispositionType.OpenIf,
+    desiredAccess: readAccess | appendAccess,
+    shareAccess: writeShareAccess
+  },
+  "ax": {
+    createDisposition: CreateDispositionType.Create,
+    desiredAccess: appendAccess,
+    shareAccess: writeShareAccess
+  },
+  "ax+": {
+    createDisposition: CreateDispositionType.Create,
+    desiredAccess: readAccess | appendAccess,
+    shareAccess: writeShareAccess
+  }
+};
+
+export const getOpenOptions = (flags: OpenFlags): OpenOptions => {
+  const openOptions = openOptionsMap[flags];
+  if (!openOptions) throw new Error(`invalid_open_flags: ${flags}`);
+  return {
+    ...openOptions,
+    createOptions: CreateOptions.NonDirectoryFile
+  };
+};
+
+/**
+ * Random access to an open file, shaped like fs.promises.FileHandle.
+ */
+class FileHandle {
+  /**
+   * Position of reads and writes without an explicit position
+   */
+  position: bigint = 0n;
+
+  constructor(
+    public file: File,
+    public flags: OpenFlags
+  ) {
+  }
+
+  private get append() {
+    return this.flags.startsWith("a");
+  }
+
+  async read(
+    buffer: Buffer,
+    offset: number = 0,
+    length: number = buffer.length - offset,
+    position?: number | bigint | null,
+    options: RequestOptions = {}
+  ) {
+    // like node file handles only reads from the current position move it
+    const usePosition = position === null || typeof position === "undefined";
+    const readPosition = usePosition ? this.position : BigInt(position);
+
+    const data = await this.file.readAt(readPosition, length, options);
+    data.copy(buffer, offset);
+    if (usePosition) this.position += BigInt(data.length);
+
+    return {
+      bytesRead: data.length,
+      buffer
+    };
+  }
+
+  async write(buffer: Buffer | string, position?: number | bigint | null, options: RequestOptions = {}) {
+    const data = Buffer.isBuffer(buffer) ? buffer : Buffer.from(buffer, "utf8");
+    const usePosition = position === null || typeof position === "undefined";
+    // like appending node file handles the position is ignored
+    const writePosition = this.append ?
+      appendPosition :
+      usePosition ? this.position : BigInt(position);
+
+    await this.file.writeAt(data, writePosition, options);
+    if (usePosition && !this.append) this.position += BigInt(data.length);
+
+    return {
+      bytesWritten: data.length,
+      buffer
+    };
+  }
+
+  async truncate(length: number | bigint = 0) {
+    await this.file.setSize(BigInt(length));
+  }
+
+  async stat() {
+    return await this.file.stat();
+  }
+
+  async sync() {
+    await this.file.flush();
+  }
+
+  async close() {
+    await this.file.close();
+  }
+}
+
+export default FileHandle;
@@ -0,0 +1,328 @@
+import fs from "fs";
+import os from "os";
+import { Readable, Writable } from "stream";
+import type Tree from "./Tree";
+import type Stats from "./Stats";
+import Dirent from "./Dirent";
+import type FileHandle from "./FileHandle";
+import { OpenFlags } from "./FileHandle";
+import StatusCode from "../protocol/smb2/StatusCode";
+import FileAttribute from "../protocol/smb2/FileAttribute";
+
+export interface NodeError extends Error {
+  errno: number;
+  code: string;
+  syscall: string;
+  path: string;
+  dest?: string;
+  status?: StatusCode;
+}
+
+export interface ReadFileOptions {
+  encoding?: BufferEncoding | null;
+  flag?: OpenFlags;
+  signal?: AbortSignal;
+}
+
+export interface WriteFileOptions {
+  encoding?: BufferEncoding | null;
+  flag?: OpenFlags;
+  signal?: AbortSignal;
+}
+
+export interface ReaddirOptions {
+  withFileTypes?: boolean;
+}
+
+export interface MakeDirectoryOptions {
+  recursive?: boolean;
+}
+
+export interface RmOptions {
+  force?: boolean;
+  recursive?: boolean;
+}
+
+export interface RmdirOptions {
+  recursive?: boolean;
+}
+
+export interface ReadStreamOptions {
+  flags?: OpenFlags;
+  start?: number;
+  /**
+   * Position of the last byte to read, inclusive
+   */
+  end?: number;
+  highWaterMark?: number;
+}
+
+export interface WriteStreamOptions {
+  flags?: OpenFlags;
+  start?: number;
+}
+
+const errorCodes: { [status: number]: string } = {
+  [StatusCode.NoSuchFile]: "ENOENT",
+  [StatusCode.FileNameNotFound]: "ENOENT",
+  [StatusCode.FilePathNotFound]: "ENOENT",
+  [StatusCode.ObjectNameInvalid]: "ENOENT",
+  [StatusCode.ObjectNameCollision]: "EEXIST",
+  [StatusCode.AccessDenied]: "EACCES",
+  [StatusCode.CannotDelete]: "EACCES",
+  [StatusCode.SharingViolation]: "EBUSY",
+  [StatusCode.FileLockConflict]: "EBUSY",
+  [StatusCode.DeletePending]: "EBUSY",
+  [StatusCode.DirectoryNotEmpty]: "ENOTEMPTY",
+  [StatusCode.FileIsADirectory]: "EISDIR",
+  [StatusCode.NotADirectory]: "ENOTDIR"
+};
+
+const errorDescriptions: { [code: string]: string } = {
+  ENOENT: "no such file or directory",
+  EEXIST: "file already exists",
+  EACCES: "permission denied",
+  EBUSY: "resource busy or locked",
+  ENOTEMPTY: "directory not empty",
+  EISDIR: "illegal operation on a directory",
+  ENOTDIR: "not a directory",
+  EIO: "i/o error"
+};
+
+const createError = (code: string, syscall: string, path: string, dest?: string) => {
+  const destDescription = typeof dest === "string" ? ` -> '${dest}'` : "";
+  const error = new Error(`${code}: ${errorDescriptions[code]}, ${syscall} '${path}'${destDescription}`) as NodeError;
+  error.errno = -os.constants.errno[code];
+  error.code = code;
+  error.syscall = syscall;
+  error.path = path;
+  if (typeof dest === "string") error.dest = dest;
+  return error;
+};
+
+// failed requests are rejected with the response, which carries the status in its header
+const toNodeError = (err: any, syscall: string, path: string, dest?: string) => {
+  if (!err || !err.header || typeof err.header.status !== "number") return err;
+
+  const status: StatusCode = err.header.status;
+  const error = createError(errorCodes[status] || "EIO", syscall, path, dest);
+  error.status = status;
+  return error;
+};
+
+const getEncoding = (options?: BufferEncoding | { encoding?: BufferEncoding | null }): BufferEncoding | undefined => {
+  return typeof options === "string" ? options : options?.encoding ?? undefined;
+};
+
+/**
+ * Adapter shaped like fs.promises over a tree, for code and libraries that expect an fs-like object.
+ */
+class FileSystem {
+  constructor(
+    public tree: Tree
+  ) {
+  }
+
+  private async call<T>(syscall: string, path: string, action: () => Promise<T>, dest?: string) {
+    try {
+      return await action();
+    } catch (err) {
+      throw toNodeError(err, syscall, path, dest);
+    }
+  }
+
+  private async withHandle<T>(path: string, flags: OpenFlags, action: (handle: FileHandle) => Promise<T>, signal?: AbortSignal) {
+    const handle = await this.call("open", path, () => this.tree.open(path, flags, { signal }));
+    try {
+      return await action(handle);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async readFile(path: string, options?: { encoding?: null; flag?: OpenFlags; signal?: AbortSignal } | null): Promise<Buffer>;
+  async readFile(path: string, options: BufferEncoding | { encoding: BufferEncoding; flag?: OpenFlags; signal?: AbortSignal }): Promise<string>;
+  async readFile(path: string, options?: BufferEncoding | ReadFileOptions | null) {
+    const flag = options && typeof options === "object" && options.flag || "r";
+    const signal = options && typeof options === "object" ? options.signal : undefined;
+    const encoding = getEncoding(options);
+
+    const buffer = await this.withHandle(path, flag, async handle => {
+      return await this.call("read", path, () => handle.file.readAt(0, Number(handle.file.fileSize), { signal }));
+    }, signal);
+    return encoding ? buffer.toString(encoding) : buffer;
+  }
+
+  async writeFile(path: string, data: Buffer | string, options?: BufferEncoding | WriteFileOptions | null) {
+    const flag = options && typeof options === "object" && options.flag || "w";
+    const signal = options && typeof options === "object" ? options.signal : undefined;
+    const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data, getEncoding(options) || "utf8");
+
+    await this.withHandle(path, flag, async handle => {
+      await this.call("write", path, () => handle.write(buffer, null, { signal }));
+    }, signal);
+  }
+
+  async appendFile(path: string, data: Buffer | string, options?: BufferEncoding | WriteFileOptions | null) {
+    await this.writeFile(path, data, {
+      encoding: getEncoding(options),
+      flag: options && typeof options === "object" && options.flag || "a",
+      signal: options && typeof options === "object" ? options.signal : undefined
+    });
+  }
+
+  async readdir(path: string, options?: { withFileTypes?: false }): Promise<string[]>;
+  async readdir(path: string, options: { withFileTypes: true }): Promise<Dirent[]>;
+  async readdir(path: string, options: ReaddirOptions = {}) {
+    const entries = await this.call("scandir", path, () => this.tree.readDirectory(path));
+    const dirents = entries.map(x => new Dirent(x));
+    return options.withFileTypes ?
+      dirents :
+      dirents.map(x => x.name);
+  }
+
+  async stat(path: string): Promise<Stats> {
+    return await this.call("stat", path, () => this.tree.stat(path));
+  }
+
+  async lstat(path: string): Promise<Stats> {
+    return await this.call("lstat", path, () => this.tree.lstat(path));
+  }
+
+  /**
+   * Returns the first directory created when recursive, like fs.promises.mkdir.
+   */
+  async mkdir(path: string, options: MakeDirectoryOptions = {}) {
+    return await this.call("mkdir", path, () => this.tree.createDirectory(path, options));
+  }
+
+  async rmdir(path: string, options: RmdirOptions = {}) {
+    await this.call("rmdir", path, () => this.tree.removeDirectory(path, options));
+  }
+
+  async rm(path: string, options: RmOptions = {}) {
+    let stats: Stats;
+    try {
+      stats = await this.lstat(path);
+    } catch (err) {
+      if (options.force && err.code === "ENOENT") return;
+      throw err;
+    }
+
+    if (!stats.isDirectory()) return await this.unlink(path);
+    // links and junctions to directories are removed like files, leaving the contents of their targets alone
+    if (stats.isSymbolicLink()) return await this.call("rm", path, () => this.tree.removeDirectory(path));
+    if (!options.recursive) throw createError("EISDIR", "rm", path);
+
+    await this.call("rm", path, () => this.tree.removeDirectory(path, { recursive: true }));
+  }
+
+  /**
+   * Replaces an existing destination, like fs.promises.rename.
+   */
+  async rename(oldPath: string, newPath: string) {
+    const stats = await this.call("rename", oldPath, () => this.tree.lstat(oldPath), newPath);
+
+    await this.call(
+      "rename",
+      oldPath,
+      () => stats.isDirectory() ?
+        this.tree.renameDirectory(oldPath, newPath, true) :
+        this.tree.renameFile(oldPath, newPath, true),
+      newPath
+    );
+  }
+
+  async unlink(path: string) {
+    await this.call("unlink", path, () => this.tree.removeFile(path));
+  }
+
+  async copyFile(src: string, dest: string, mode: number = 0) {
+    const flags: OpenFlags = (mode & fs.constants.COPYFILE_EXCL) !== 0 ? "wx" : "w";
+    const chunkLength = this.tree.session.client.maxReadSize;
+
+    await this.withHandle(src, "r", async source => {
+      await this.withHandle(dest, flags, async destination => {
+        const buffer = Buffer.alloc(chunkLength);
+        while (true) {
+          const { bytesRead } = await this.call("copyfile", src, () => source.read(buffer, 0, chunkLength), dest);
+          if (bytesRead === 0) break;
+          await this.call("copyfile", src, () => destination.write(buffer.subarray(0, bytesRead)), dest);
+        }
+      });
+    });
+  }
+
+  async access(path: string, mode: number = fs.constants.F_OK) {
+    const stats = await this.call("access", path, () => this.tree.stat(path));
+    if (
+      (mode & fs.constants.W_OK) !== 0 &&
+      !stats.isDirectory() &&
+      (stats.fileAttributes & FileAttribute.ReadOnly) !== 0
+    ) throw createError("EACCES", "access", path);
+  }
+
+  /**
+   * Opens the file once the stream is read, like fs.createReadStream.
+   */
+  createReadStream(path: string, options: ReadStreamOptions = {}) {
+    const chunkLength = options.highWaterMark || this.tree.session.client.maxReadSize;
+    const end = typeof options.end === "number" ? options.end : Infinity;
+    const fileSystem = this;
+
+    return Readable.from(async function* read() {
+      const handle = await fileSystem.call("open", path, () => fileSystem.tree.open(path, options.flags || "r"));
+      try {
+        let position = options.start || 0;
+        while (position <= end) {
+          const buffer = Buffer.alloc(Math.min(chunkLength, end - position + 1));
+          const { bytesRead } = await fileSystem.call("read", path, () => handle.read(buffer, 0, buffer.length, position));
+          if (bytesRead === 0) break;
+
+          position += bytesRead;
+          yield buffer.subarray(0, bytesRead);
+        }
+      } finally {
+        await handle.close();
+      }
+    }(), { objectMode: false });
+  }
+
+  /**
+   * Opens the file on the first write or when the stream ends, like fs.createWriteStream.
+   */
+  createWriteStream(path: string, options: WriteStreamOptions = {}) {
+    let handlePromise: Promise<FileHandle>;
+    const open = () => {
+      if (!handlePromise) {
+        handlePromise = this.call("open", path, () => this.tree.open(path, options.flags || "w"))
+          .then(handle => {
+            if (typeof options.start === "number") handle.position = BigInt(options.start);
+            return handle;
+          });
+      }
+      return handlePromise;
+    };
+
+    return new Writable({
+      write: (chunk: Buffer, encoding, callback) => {
+        open()
+          .then(handle => this.call("write", path, () => handle.write(chunk)))
+          .then(() => callback(), callback);
+      },
+      final: callback => {
+        open()
+          .then(handle => handle.close())
+          .then(() => callback(), callback);
+      },
+      destroy: (err, callback) => {
+        if (!handlePromise) return callback(err);
+        handlePromise
+          .then(handle => handle.close())
+          .then(() => callback(err), () => callback(err));
+      }
+    });
+  }
+}
+
+export default FileSystem;
@@ -0,0 +1,382 @@
+import { promises as fs } from "fs";
+import { Socket } from "net";
+import * as structureUtil from "../protocol/structureUtil";
+import ErrorCode from "../protocol/kerberos/ErrorCode";
+import KeyUsage from "../protocol/kerberos/KeyUsage";
+import MessageType from "../protocol/kerberos/MessageType";
+import EncryptionType from "../protocol/kerberos/EncryptionType";
+import PrincipalNameType from "../protocol/kerberos/PrincipalNameType";
+import PreauthenticationDataType from "../protocol/kerberos/PreauthenticationDataType";
+import * as kerberosUtil from "../protocol/kerberos/util";
+import * as kerberosFileUtil from "../protocol/kerberos/fileUtil";
+import * as kerberosCryptoUtil from "../protocol/kerberos/cryptoUtil";
+import { EncryptionKey } from "../protocol/kerberos/cryptoUtil";
+import {
+  Principal,
+  Ticket,
+  EncryptionTypeInfo2Entry,
+  PreauthenticationData,
+  KdcOption,
+  ApOption,
+  GssFlag,
+  GssTokenId
+} from "../protocol/kerberos/util";
+
+export interface KerberosOptions {
+  realm?: string;
+  /**
+   * Host name of the key distribution center, optionally followed by a port
+   * - undefined: the realm is used as host name (default)
+   */
+  kdc?: string;
+  keytab?: string;
+  credentialCache?: string;
+  servicePrincipalName?: string;
+}
+
+interface ServiceCredential {
+  client: Principal;
+  ticket: Ticket;
+  key: EncryptionKey;
+}
+
+const defaultKdcPort = 88;
+const ticketLifetime = 10 * 60 * 60 * 1000;
+
+const encryptionTypes = [
+  EncryptionType.Aes256CtsHmacSha196,
+  EncryptionType.Aes128CtsHmacSha196
+];
+
+const kdcOptions = KdcOption.Forwardable | KdcOption.Renewable | KdcOption.Canonicalize;
+
+const gssFlags = GssFlag.Mutual |
+  GssFlag.Replay |
+  GssFlag.Sequence |
+  GssFlag.Confidentiality |
+  GssFlag.Integrity;
+
+const isSamePrincipal = (a: Principal, b: Principal) => {
+  return (
+    a.realm.toUpperCase() === b.realm.toUpperCase() &&
+    a.name.components.length === b.name.components.length &&
+    a.name.components.every((component, index) => component.toLowerCase() === b.name.components[index].toLowerCase())
+  );
+};
+
+const createKerberosError = (buffer: Buffer) => {
+  const error = kerberosUtil.decodeKerberosError(buffer);
+  return new Error(`kerberos_error: ${structureUtil.parseEnumValue(ErrorCode, error.code) || error.code}`);
+};
+
+class Kerberos {
+  realm: string;
+  client: Principal;
+  server: Principal;
+
+  kdcHost: string;
+  kdcPort: number = defaultKdcPort;
+
+  private serviceCredential: ServiceCredential;
+  private subkey: EncryptionKey;
+
+  constructor(
+    host: string,
+    username: string,
+    domain: string,
+    private password: string,
+    public options: KerberosOptions = {},
+    public timeout: number = 5 * 1000
+  ) {
+    const [user, userRealm] = username.split("@");
+    this.realm = (this.options.realm || userRealm || domain).toUpperCase();
+    this.client = {
+      realm: this.realm,
+      name: {
+        type: PrincipalNameType.Principal,
+        components: [user]
+      }
+    };
+
+    const [servicePrincipalName, serviceRealm] = (this.options.servicePrincipalName || `cifs/${host}`).split("@");
+    this.server = {
+      realm: (serviceRealm || this.realm).toUpperCase(),
+      name: {
+        type: PrincipalNameType.ServiceInstance,
+        components: servicePrincipalName.split("/")
+      }
+    };
+
+    const [kdcHost, kdcPort] = (this.options.kdc || this.realm).split(":");
+    this.kdcHost = kdcHost;
+    if (kdcPort) this.kdcPort = Number(kdcPort);
+  }
+
+  async createApRequestToken() {
+    const serviceCredential = await this.getServiceCredential();
+    this.serviceCredential = serviceCredential;
+    this.subkey = kerberosCryptoUtil.generateKey(serviceCredential.key.type);
+
+    const now = new Date();
+    const authenticator = kerberosUtil.encodeAuthenticator({
+      clientRealm: serviceCredential.client.realm,
+      clientName: serviceCredential.client.name,
+      checksum: kerberosUtil.createGssChecksum(gssFlags),
+      microseconds: (now.getTime() % 1000) * 1000,
+      time: now,
+      subkey: this.subkey,
+      sequenceNumber: kerberosUtil.generateNonce()
+    });
+    const apRequest = kerberosUtil.encodeApRequest(ApOption.MutualRequired, serviceCredential.ticket, {
+      type: serviceCredential.key.type,
+      cipher: kerberosCryptoUtil.encrypt(serviceCredential.key, KeyUsage.ApReqAuthenticator, authenticator)
+    });
+
+    return kerberosUtil.encodeGssToken(GssTokenId.ApReq, apRequest);
+  }
+
+  /**
+   * Returns the key of the established context, which is the acceptor subkey when the server sent one.
+   */
+  getSessionKey(apReplyToken?: Buffer) {
+    if (!this.subkey) throw new Error("kerberos_context_not_initialized");
+    if (!apReplyToken || apReplyToken.length === 0) return this.subkey.value;
+
+    const { tokenId, token } = kerberosUtil.decodeGssToken(apReplyToken);
+    if (tokenId === GssTokenId.Error) throw createKerberosError(token);
+    if (tokenId !== GssTokenId.ApRep) throw new Error("invalid_gss_token");
+
+    const encryptedPart = kerberosUtil.decodeApReply(token);
+    const replyPart = kerberosUtil.decodeEncryptedApReplyPart(
+      kerberosCryptoUtil.decrypt(this.serviceCredential.key, KeyUsage.ApRepEncryptedPart, encryptedPart.cipher)
+    );
+    return (replyPart.subkey || this.subkey).value;
+  }
+
+  private async getServiceCredential() {
+    let ticketGrantingCredential: ServiceCredential;
+    if (this.options.credentialCache) {
+      const credentialCache = kerberosFileUtil.parseCredentialCache(
+        await fs.readFile(this.options.credentialCache.replace(/^FILE:/, ""))
+      );
+      this.client = credentialCache.defaultPrincipal;
+
+      const now = Date.now();
+      const credentials = credentialCache.credentials.filter(credential =>
+        credential.endTime.getTime() > now &&
+        isSamePrincipal(credential.client, this.client) &&
+        kerberosCryptoUtil.isEncryptionTypeSupported(credential.key.type)
+      );
+      const serviceCredential = credentials.find(credential => isSamePrincipal(credential.server, this.server));
+      if (serviceCredential) return this.createCredentialFromCache(serviceCredential);
+
+      const ticketGrantingServer = this.getTicketGrantingServer();
+      const cachedTicketGrantingCredential = credentials.find(credential => isSamePrincipal(credential.server, ticketGrantingServer));
+      if (!cachedTicketGrantingCredential) throw new Error("kerberos_ticket_not_found");
+      ticketGrantingCredential = this.createCredentialFromCache(cachedTicketGrantingCredential);
+    } else {
+      ticketGrantingCredential = await this.requestTicketGrantingTicket();
+    }
+
+    return await this.requestServiceTicket(ticketGrantingCredential);
+  }
+
+  private createCredentialFromCache(credential: kerberosFileUtil.Credential) {
+    const serviceCredential: ServiceCredential = {
+      client: credential.client,
+      ticket: kerberosUtil.decodeTicket(credential.ticket),
+      key: credential.key
+    };
+    return serviceCredential;
+  }
+
+  private getTicketGrantingServer() {
+    const principal: Principal = {
+      realm: this.client.realm,
+      name: {
+        type: PrincipalNameType.ServiceInstance,
+        components: ["krbtgt", this.client.realm]
+      }
+    };
+    return principal;
+  }
+
+  private async requestTicketGrantingTicket() {
+    const nonce = kerberosUtil.generateNonce();
+    const body = kerberosUtil.encodeKdcRequestBody({
+      options: kdcOptions,
+      clientName: this.client.name,
+      realm: this.client.realm,
+      serverName: this.getTicketGrantingServer().name,
+      till: new Date(Date.now() + ticketLifetime),
+      nonce,
+      encryptionTypes
+    });
+    const pacRequest: PreauthenticationData = {
+      type: PreauthenticationDataType.PacRequest,
+      value: kerberosUtil.encodePacRequest(true)
+    };
+
+    let clientKey: EncryptionKey;
+    let reply = await this.exchange(kerberosUtil.encodeKdcRequest(MessageType.AsReq, [pacRequest], body));
+    if (kerberosUtil.getMessageType(reply) === MessageType.Error) {
+      const error = kerberosUtil.decodeKerberosError(reply);
+      if (error.code !== ErrorCode.PreauthenticationRequired) throw createKerberosError(reply);
+
+      const methodData = error.data ? kerberosUtil.decodeMethodData(error.data) : [];
+      clientKey = await this.getClientKey(this.getEncryptionTypeInfo(methodData));
+
+      const timestamp = kerberosCryptoUtil.encrypt(
+        clientKey,
+        KeyUsage.AsReqTimestamp,
+        kerberosUtil.encodeEncryptedTimestamp(new Date())
+      );
+      const encryptedTimestamp: PreauthenticationData = {
+        type: PreauthenticationDataType.EncryptedTimestamp,
+        value: kerberosUtil.encodeEncryptedData({ type: clientKey.type, cipher: timestamp })
+      };
+      reply = await this.exchange(kerberosUtil.encodeKdcRequest(MessageType.AsReq, [encryptedTimestamp, pacRequest], body));
+      if (kerberosUtil.getMessageType(reply) === MessageType.Error) throw createKerberosError(reply);
+    }
+
+    const kdcReply = kerberosUtil.decodeKdcReply(reply);
+    if (!clientKey || clientKey.type !== kdcReply.encryptedPart.type) {
+      const encryptionTypeInfo = this.getEncryptionTypeInfo(kdcReply.preauthenticationData)
+        .filter(entry => entry.type === kdcReply.encryptedPart.type);
+      clientKey = await this.getClientKey(
+        encryptionTypeInfo.length > 0 ? encryptionTypeInfo : [{ type: kdcReply.encryptedPart.type }]
+      );
+    }
+
+    const replyPart = kerberosUtil.decodeEncryptedKdcReplyPart(
+      kerberosCryptoUtil.decrypt(clientKey, KeyUsage.AsRepEncryptedPart, kdcReply.encryptedPart.cipher)
+    );
+    if (replyPart.nonce !== nonce) throw new Error("kerberos_nonce_mismatch");
+
+    const ticketGrantingCredential: ServiceCredential = {
+      client: {
+        realm: kdcReply.clientRealm,
+        name: kdcReply.clientName
+      },
+      ticket: kdcReply.ticket,
+      key: replyPart.key
+    };
+    return ticketGrantingCredential;
+  }
+
+  private async requestServiceTicket(ticketGrantingCredential: ServiceCredential) {
+    const nonce = kerberosUtil.generateNonce();
+    const body = kerberosUtil.encodeKdcRequestBody({
+      options: kdcOptions,
+      realm: this.server.realm,
+      serverName: this.server.name,
+      till: new Date(Date.now() + ticketLifetime),
+      nonce,
+      encryptionTypes
+    });
+
+    const now = new Date();
+    const key = ticketGrantingCredential.key;
+    const authenticator = kerberosUtil.encodeAuthenticator({
+      clientRealm: ticketGrantingCredential.client.realm,
+      clientName: ticketGrantingCredential.client.name,
+      checksum: {
+        type: kerberosCryptoUtil.getChecksumType(key.type),
+        value: kerberosCryptoUtil.createChecksum(key, KeyUsage.TgsReqAuthenticatorChecksum, body)
+      },
+      microseconds: (now.getTime() % 1000) * 1000,
+      time: now
+    });
+    const apRequest = kerberosUtil.encodeApRequest(0, ticketGrantingCredential.ticket, {
+      type: key.type,
+      cipher: kerberosCryptoUtil.encrypt(key, KeyUsage.TgsReqAuthenticator, authenticator)
+    });
+
+    const reply = await this.exchange(kerberosUtil.encodeKdcRequest(
+      MessageType.TgsReq,
+      [{ type: PreauthenticationDataType.TgsReq, value: apRequest }],
+      body
+    ));
+    if (kerberosUtil.getMessageType(reply) === MessageType.Error) throw createKerberosError(reply);
+
+    const kdcReply = kerberosUtil.decodeKdcReply(reply);
+    const replyPart = kerberosUtil.decodeEncryptedKdcReplyPart(
+      kerberosCryptoUtil.decrypt(key, KeyUsage.TgsRepEncryptedPart, kdcReply.encryptedPart.cipher)
+    );
+    if (replyPart.nonce !== nonce) throw new Error("kerberos_nonce_mismatch");
+
+    const serviceCredential: ServiceCredential = {
+      client: ticketGrantingCredential.client,
+      ticket: kdcReply.ticket,
+      key: replyPart.key
+    };
+    return serviceCredential;
+  }
+
+  private getEncryptionTypeInfo(preauthenticationData: PreauthenticationData[]) {
+    const entry = preauthenticationData.find(x => x.type === PreauthenticationDataType.EncryptionTypeInfo2);
+    if (!entry) return [];
+    return kerberosUtil.decodeEncryptionTypeInfo2(entry.value);
+  }
+
+  /**
+   * Picks the client key for the first supported encryption type offered by the KDC.
+   */
+  private async getClientKey(encryptionTypeInfo: EncryptionTypeInfo2Entry[]) {
+    const entries = encryptionTypeInfo.filter(x => kerberosCryptoUtil.isEncryptionTypeSupported(x.type));
+    if (encryptionTypeInfo.length === 0) entries.push(...encryptionTypes.map(type => ({ type })));
+
+    if (this.options.keytab) {
+      const keytabEntries = kerberosFileUtil.parseKeytab(await fs.readFile(this.options.keytab))
+        .filter(keytabEntry => isSamePrincipal(keytabEntry.principal, this.client))
+        .sort((a, b) => b.keyVersion - a.keyVersion);
+      for (const entry of entries) {
+        const keytabEntry = keytabEntries.find(x => x.key.type === entry.type);
+        if (keytabEntry) return keytabEntry.key;
+      }
+      throw new Error("kerberos_key_not_found");
+    }
+
+    const [entry] = entries;
+    if (!entry) throw new Error("kerberos_encryption_type_not_supported");
+    if (typeof this.password !== "string") throw new Error("kerberos_key_not_found");
+
+    const salt = typeof entry.salt === "string" ?
+      entry.salt :
+      this.client.realm + this.client.name.components.join("");
+    const iterationCount = entry.parameters && entry.parameters.length === 4 ?
+      entry.parameters.readUInt32BE(0) :
+      undefined;
+    return kerberosCryptoUtil.createKeyFromPassword(entry.type, this.password, salt, iterationCount);
+  }
+
+  // [RFC 4120] 7.2.2: messages over TCP are prefixed with their length
+  private async exchange(message: Buffer) {
+    const socket = new Socket();
+    try {
+      return await new Promise<Buffer>((resolve, reject) => {
+        let reply = Buffer.alloc(0);
+
+        socket.setTimeout(this.timeout, () => reject(new Error("kdc_timeout")));
+        socket.once("error", reject);
+        socket.once("close", () => reject(new Error("kdc_connection_closed")));
+        socket.on("data", (data: Buffer) => {
+          reply = Buffer.concat([reply, data]);
+          if (reply.length >= 4 && reply.length >= 4 + reply.readUInt32BE(0)) {
+            resolve(reply.slice(4, 4 + reply.readUInt32BE(0)));
+          }
+        });
+
+        socket.connect(this.kdcPort, this.kdcHost, () => {
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(message.length, 0);
+          socket.write(Buffer.concat([length, message]));
+        });
+      });
+    } finally {
+      socket.destroy();
+    }
+  }
+}
+
+export default Kerberos;
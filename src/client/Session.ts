@@ -1,16 +1,41 @@
 import Tree from "./Tree";
-import Client from "./Client";
+import Client, { RequestOptions, CompoundMessage } from "./Client";
+import Kerberos, { KerberosOptions } from "./Kerberos";
 import { EventEmitter } from "events";
-import Dialect from "../protocol/smb2/Dialect";
 import Header from "../protocol/smb2/Header";
-import { generateGuid } from "../protocol/util";
+import Request from "../protocol/smb2/Request";
+import Cipher from "../protocol/smb2/Cipher";
+import Dialect from "../protocol/smb2/Dialect";
+import StatusCode from "../protocol/smb2/StatusCode";
+import ServerInfo from "../protocol/models/ServerInfo";
+import HeaderFlag from "../protocol/smb2/HeaderFlag";
+import SessionFlag from "../protocol/smb2/SessionFlag";
+import * as signingUtil from "../protocol/smb2/signingUtil";
+import * as encryptionUtil from "../protocol/smb2/encryptionUtil";
+import SigningAlgorithm from "../protocol/smb2/SigningAlgorithm";
 import * as ntlmUtil from "../protocol/ntlm/util";
+import NegotiateFlag from "../protocol/ntlm/NegotiateFlag";
+import * as spnegoUtil from "../protocol/spnego/util";
+import MechanismType from "../protocol/spnego/MechanismType";
+import NegotiationState from "../protocol/spnego/NegotiationState";
 import PacketType from "../protocol/smb2/PacketType";
 
-export interface AuthenticateOptions {
+export interface Credentials {
   domain: string;
   username: string;
-  password: string;
+  password?: string;
+  /**
+   * NT hash of the password, raw or hex encoded, to authenticate with NTLM without knowing the password
+   */
+  ntHash?: Buffer | string;
+}
+
+/**
+ * Asked for credentials on the first authentication and again on every re-authentication.
+ */
+export type CredentialProvider = (session: Session) => Credentials | Promise<Credentials>;
+
+export interface AuthenticateOptions extends Partial<Credentials> {
   /**
    * Force a specific NTLM version instead of auto-negotiation
    * - 'v1': Force NTLMv1 (less secure but more compatible)
@@ -18,20 +43,52 @@ export interface AuthenticateOptions {
    * - undefined: Auto-detect based on server response (default)
    */
   forceNtlmVersion?: 'v1' | 'v2';
+  /**
+   * Prefer Kerberos over NTLM when the server offers it, using a password, keytab or credential cache
+   */
+  kerberos?: KerberosOptions;
+  /**
+   * Supplies the credentials instead of the domain, username, password and ntHash options
+   */
+  credentialProvider?: CredentialProvider;
+  /**
+   * Establish a null session without credentials, for servers and shares that allow anonymous access
+   */
+  anonymous?: boolean;
 }
 
 interface Session {
-  on(event: "authenticate" | "logoff", callback: (session: Session) => void): this;
+  on(event: "authenticate" | "reauthenticate" | "logoff", callback: (session: Session) => void): this;
 
-  once(event: "authenticate" | "logoff", callback: (session: Session) => void): this;
+  once(event: "authenticate" | "reauthenticate" | "logoff", callback: (session: Session) => void): this;
 }
 
 class Session extends EventEmitter {
   _id: string;
   authenticated: boolean = false;
 
+  sessionKey: Buffer;
+  signingKey: Buffer;
+  applicationKey: Buffer;
+  signingAlgorithm: SigningAlgorithm = SigningAlgorithm.HmacSha256;
+  signingRequired: boolean = false;
+  preauthIntegrityHashValue: Buffer;
+
+  encryptionKey: Buffer;
+  decryptionKey: Buffer;
+  cipher: Cipher;
+  encryptData: boolean = false;
+  /**
+   * The server authenticated the session as guest or anonymous, so messages can be neither signed nor encrypted
+   */
+  guest: boolean = false;
+  anonymous: boolean = false;
+
   connectedTrees: Tree[] = [];
 
+  private authenticateOptions: AuthenticateOptions;
+  private reauthenticating: boolean = false;
+
   constructor(
     public client: Client
   ) {
@@ -53,54 +110,72 @@ class Session extends EventEmitter {
     }, body);
   }
 
-  async request(header: Header = {}, body: any = {}) {
-    return await this.client.request(
-      {
+  async request(header: Header = {}, body: any = {}, options?: RequestOptions) {
+    try {
+      return await this.client.request(
+        {
+          sessionId: this._id,
+          ...header
+        },
+        body,
+        options
+      );
+    } catch (err) {
+      // [MS-SMB2] 3.2.5.1.6: an expired session is authenticated again before the request is retried
+      if (
+        !this.authenticated ||
+        !err.header ||
+        err.header.status !== StatusCode.NetworkSessionExpired
+      ) throw err;
+
+      await this.reauthenticate();
+      return await this.client.request(
+        {
+          sessionId: this._id,
+          ...header
+        },
+        body,
+        options
+      );
+    }
+  }
+
+  async requestCompound(messages: CompoundMessage[], options?: RequestOptions) {
+    const sessionMessages = () => messages.map(message => ({
+      header: {
         sessionId: this._id,
-        ...header
+        ...message.header
       },
-      body
-    );
+      body: message.body
+    }));
+
+    try {
+      return await this.client.requestCompound(sessionMessages(), options);
+    } catch (err) {
+      if (
+        !this.authenticated ||
+        !err.header ||
+        err.header.status !== StatusCode.NetworkSessionExpired
+      ) throw err;
+
+      await this.reauthenticate();
+      return await this.client.requestCompound(sessionMessages(), options);
+    }
   }
 
   async authenticate(options: AuthenticateOptions) {
     if (this.authenticated) return;
 
     try {
-      await this.request({
-        type: PacketType.Negotiate
-      }, {
-        dialects: [
-          Dialect.Smb202,
-          Dialect.Smb210
-        ],
-        clientGuid: generateGuid(),
-      });
-
-      // Initial negotiation includes forceNtlmVersion if specified
-      const sessionSetupResponse = await this.request(
-        { type: PacketType.SessionSetup },
-        { buffer: ntlmUtil.encodeNegotiationMessage(this.client.host, options.domain, options.forceNtlmVersion) }
-      );
-      this._id = sessionSetupResponse.header.sessionId;
+      const serverInfo = await this.client.negotiate();
+      if (this.client.requireSigning && !serverInfo.signingEnabled) throw new Error("signing_not_supported_by_server");
 
-      // Extract server challenge (nonce)
-      const nonce = ntlmUtil.decodeChallengeMessage(sessionSetupResponse.body.buffer as Buffer);
-      // Send authentication response with version preference
-      const authResponse = await this.request(
-        { type: PacketType.SessionSetup },
-        {
-          buffer: ntlmUtil.encodeAuthenticationMessage(
-            options.username,
-            this.client.host,
-            options.domain,
-            nonce,
-            options.password,
-            0, // Let the util determine the flags based on server response
-            options.forceNtlmVersion
-          )
-        }
-      );
+      this.preauthIntegrityHashValue = this.client.preauthIntegrityHashValue;
+      this.authenticateOptions = options;
+
+      const authResponse = await this.setup(serverInfo);
+      this.encryptData = (authResponse.body.sessionFlags & SessionFlag.EncryptData) !== 0;
+      if (this.encryptData && !this.encryptionKey) throw new Error("encryption_not_supported");
 
       this.authenticated = true;
       this.emit("authenticate", this);
@@ -113,6 +188,295 @@ class Session extends EventEmitter {
     }
   }
 
+  /**
+   * Authenticates the established session again, e.g. after it expired, asking the credential provider for current credentials.
+   * [MS-SMB2] 3.2.5.3.2: the session keeps its keys, so open trees and files stay usable.
+   */
+  async reauthenticate() {
+    if (!this.authenticated) throw new Error("session_not_authenticated");
+
+    this.reauthenticating = true;
+    try {
+      await this.setup(this.client.serverInfo);
+    } finally {
+      this.reauthenticating = false;
+    }
+    this.emit("reauthenticate", this);
+  }
+
+  /**
+   * Sets the session up again after the client reconnected, as a new session on the server, and connects its trees again.
+   */
+  async reestablish() {
+    this.authenticated = false;
+    this.guest = false;
+    this.anonymous = false;
+    this.reset();
+
+    await this.authenticate(this.authenticateOptions);
+    for (const tree of this.connectedTrees) await tree.reconnect();
+  }
+
+  private async setup(serverInfo: ServerInfo) {
+    const options = this.authenticateOptions;
+    const credentials: Credentials = options.anonymous ?
+      { domain: "", username: "" } :
+      options.credentialProvider ?
+        await options.credentialProvider(this) :
+        options as Credentials;
+
+    // servers that do not send a SPNEGO hint expect raw NTLMSSP tokens
+    const useSpnego = serverInfo.mechanismTypes.length > 0;
+    const supportedMechanismTypes = options.kerberos && !options.anonymous ?
+      [MechanismType.MicrosoftKerberos, MechanismType.Kerberos, MechanismType.Ntlmssp] :
+      [MechanismType.Ntlmssp];
+    const mechanismType = useSpnego ?
+      spnegoUtil.selectMechanism(serverInfo.mechanismTypes, supportedMechanismTypes) :
+      MechanismType.Ntlmssp;
+    if (!mechanismType) throw new Error("mechanism_not_supported");
+
+    const authResponse = mechanismType === MechanismType.Ntlmssp ?
+      await this.authenticateWithNtlm(credentials, serverInfo, useSpnego) :
+      await this.authenticateWithKerberos(credentials, serverInfo, mechanismType);
+
+    // [MS-SMB2] 3.2.5.3.1: the server has no session key for guest and null sessions
+    const sessionFlags = authResponse.body.sessionFlags;
+    if (
+      options.anonymous ||
+      (sessionFlags & (SessionFlag.IsGuest | SessionFlag.IsNull)) !== 0
+    ) {
+      if (this.client.requireSigning) throw new Error("signing_not_supported_for_guest_session");
+      this.guest = (sessionFlags & SessionFlag.IsGuest) !== 0;
+      this.anonymous = options.anonymous || (sessionFlags & SessionFlag.IsNull) !== 0;
+      this.signingRequired = false;
+      delete this.signingKey;
+      delete this.encryptionKey;
+      delete this.decryptionKey;
+    }
+
+    if (
+      this.signingRequired &&
+      (authResponse.header.flags & HeaderFlag.Signed) === 0
+    ) throw new Error("session_setup_response_not_signed");
+
+    return authResponse;
+  }
+
+  private async authenticateWithNtlm(credentials: Credentials, serverInfo: ServerInfo, useSpnego: boolean) {
+    const forceNtlmVersion = this.authenticateOptions.forceNtlmVersion;
+    const ntHash = typeof credentials.ntHash === "string" ?
+      Buffer.from(credentials.ntHash, "hex") :
+      credentials.ntHash;
+    if (ntHash && ntHash.length !== 16) throw new Error("invalid_nt_hash");
+    if (
+      !this.authenticateOptions.anonymous &&
+      !ntHash &&
+      typeof credentials.password !== "string"
+    ) throw new Error("password_or_nt_hash_required");
+
+    // Initial negotiation includes forceNtlmVersion if specified
+    const negotiationMessage = ntlmUtil.encodeNegotiationMessage(this.client.host, credentials.domain, forceNtlmVersion);
+    const sessionSetupResponse = await this.sendSessionSetupRequest(
+      this.createSessionSetupRequest(
+        useSpnego ?
+          spnegoUtil.encodeNegTokenInit({ mechTypes: [MechanismType.Ntlmssp], mechToken: negotiationMessage }) :
+          negotiationMessage
+      )
+    );
+    this._id = sessionSetupResponse.header.sessionId;
+
+    // Extract server challenge (nonce)
+    const challengeMessage = useSpnego ?
+      this.parseNegTokenResp(sessionSetupResponse.body.buffer as Buffer, MechanismType.Ntlmssp).responseToken :
+      sessionSetupResponse.body.buffer as Buffer;
+    if (!challengeMessage) throw new Error("challenge_message_missing");
+    const authenticationMessage = ntlmUtil.encodeAuthenticationMessage(
+      credentials.username,
+      this.client.host,
+      credentials.domain,
+      negotiationMessage,
+      challengeMessage,
+      {
+        password: credentials.password,
+        ntHash
+      },
+      forceNtlmVersion
+    );
+
+    // [MS-SPNG] 3.1.5.1: the mechanism list is protected whenever NTLM can sign it
+    const mechTypeList = spnegoUtil.encodeMechTypeList([MechanismType.Ntlmssp]);
+    const protectMechTypeList = useSpnego &&
+      (authenticationMessage.negotiateFlags & NegotiateFlag.ExtendedSessionSecurity) !== 0 &&
+      (authenticationMessage.negotiateFlags & NegotiateFlag.Sign) !== 0 &&
+      (authenticationMessage.negotiateFlags & NegotiateFlag.Anonymous) === 0;
+    const authRequest = this.createSessionSetupRequest(
+      useSpnego ?
+        spnegoUtil.encodeNegTokenResp({
+          responseToken: authenticationMessage.buffer,
+          mechListMic: protectMechTypeList ?
+            ntlmUtil.createMessageSignature(authenticationMessage.sessionKey, authenticationMessage.negotiateFlags, 'client', 0, mechTypeList) :
+            undefined
+        }) :
+        authenticationMessage.buffer
+    );
+    this.setSessionKey(authenticationMessage.sessionKey, serverInfo);
+    this.signingRequired = this.client.requireSigning || serverInfo.signingRequired;
+
+    // Send authentication response with version preference
+    const authResponse = await this.sendSessionSetupRequest(authRequest);
+    if (useSpnego && (authResponse.body.buffer as Buffer).length > 0) {
+      const negTokenResp = this.parseNegTokenResp(authResponse.body.buffer as Buffer, MechanismType.Ntlmssp);
+      if (
+        protectMechTypeList &&
+        negTokenResp.mechListMic &&
+        !negTokenResp.mechListMic.equals(
+          ntlmUtil.createMessageSignature(authenticationMessage.sessionKey, authenticationMessage.negotiateFlags, 'server', 0, mechTypeList)
+        )
+      ) throw new Error("mech_list_mic_verification_failed");
+    }
+    return authResponse;
+  }
+
+  private async authenticateWithKerberos(credentials: Credentials, serverInfo: ServerInfo, mechanismType: string) {
+    const kerberos = new Kerberos(
+      this.client.host,
+      credentials.username,
+      credentials.domain,
+      credentials.password,
+      this.authenticateOptions.kerberos,
+      this.client.requestTimeout
+    );
+    const apRequestToken = await kerberos.createApRequestToken();
+
+    // mutual authentication completes within a single round trip
+    const authResponse = await this.sendSessionSetupRequest(
+      this.createSessionSetupRequest(
+        spnegoUtil.encodeNegTokenInit({ mechTypes: [mechanismType], mechToken: apRequestToken })
+      )
+    );
+    this._id = authResponse.header.sessionId;
+    if (authResponse.header.status !== StatusCode.Success) throw new Error("kerberos_authentication_incomplete");
+
+    const securityBuffer = authResponse.body.buffer as Buffer;
+    const negTokenResp = securityBuffer.length > 0 ?
+      this.parseNegTokenResp(securityBuffer, mechanismType) :
+      {};
+
+    this.setSessionKey(kerberos.getSessionKey(negTokenResp.responseToken), serverInfo);
+    this.signingRequired = this.client.requireSigning || serverInfo.signingRequired;
+
+    // the response arrived before the session key was known so its signature is checked here
+    if (
+      (authResponse.header.flags & HeaderFlag.Signed) !== 0 &&
+      !signingUtil.verify(authResponse.messageBuffer, this.signingKey, this.signingAlgorithm)
+    ) throw new Error("signature_verification_failed");
+
+    return authResponse;
+  }
+
+  private parseNegTokenResp(buffer: Buffer, mechanismType: string) {
+    const negTokenResp = spnegoUtil.decodeNegTokenResp(buffer);
+    if (negTokenResp.negState === NegotiationState.Reject) throw new Error("authentication_rejected");
+    if (
+      negTokenResp.supportedMech &&
+      negTokenResp.supportedMech !== mechanismType
+    ) throw new Error(`mechanism_not_supported: ${negTokenResp.supportedMech}`);
+    return negTokenResp;
+  }
+
+  private createSessionSetupRequest(buffer: Buffer) {
+    const request = this.createRequest(
+      { type: PacketType.SessionSetup },
+      {
+        securityMode: this.client.securityMode,
+        buffer
+      }
+    );
+
+    if (this.preauthIntegrityHashValue) {
+      this.preauthIntegrityHashValue = signingUtil.updatePreauthIntegrityHashValue(
+        this.preauthIntegrityHashValue,
+        request.serialize().slice(4)
+      );
+    }
+
+    return request;
+  }
+
+  private async sendSessionSetupRequest(request: Request) {
+    const response = await this.client.send(request);
+
+    // the final session setup response is not part of the preauth integrity hash
+    if (
+      this.preauthIntegrityHashValue &&
+      response.header.status === StatusCode.MoreProcessingRequired
+    ) {
+      this.preauthIntegrityHashValue = signingUtil.updatePreauthIntegrityHashValue(
+        this.preauthIntegrityHashValue,
+        response.messageBuffer
+      );
+    }
+
+    return response;
+  }
+
+  private setSessionKey(fullSessionKey: Buffer, serverInfo: ServerInfo) {
+    if (this.reauthenticating) return;
+
+    // [MS-SMB2] 3.2.5.3.1: the session key is the first 16 bytes of the context key, padded with zeros
+    const sessionKey = Buffer.alloc(16);
+    fullSessionKey.copy(sessionKey, 0, 0, 16);
+    this.sessionKey = sessionKey;
+
+    if (serverInfo.dialect === Dialect.Smb311) {
+      this.signingKey = signingUtil.deriveKey(sessionKey, Buffer.from("SMBSigningKey\0", "ascii"), this.preauthIntegrityHashValue);
+      this.applicationKey = signingUtil.deriveKey(sessionKey, Buffer.from("SMBAppKey\0", "ascii"), this.preauthIntegrityHashValue);
+      this.signingAlgorithm = serverInfo.signingAlgorithm;
+      if (serverInfo.encryptionSupported) {
+        const keyLength = encryptionUtil.getKeyLength(serverInfo.cipher);
+        // 256 bit ciphers derive their keys from the full context key, which Kerberos may make longer than 16 bytes
+        const cipherSessionKey = keyLength === 256 ? fullSessionKey : sessionKey;
+        this.encryptionKey = signingUtil.deriveKey(cipherSessionKey, Buffer.from("SMBC2SCipherKey\0", "ascii"), this.preauthIntegrityHashValue, keyLength);
+        this.decryptionKey = signingUtil.deriveKey(cipherSessionKey, Buffer.from("SMBS2CCipherKey\0", "ascii"), this.preauthIntegrityHashValue, keyLength);
+        this.cipher = serverInfo.cipher;
+      }
+    } else if (serverInfo.dialect >= Dialect.Smb300) {
+      this.signingKey = signingUtil.deriveKey(sessionKey, Buffer.from("SMB2AESCMAC\0", "ascii"), Buffer.from("SmbSign\0", "ascii"));
+      this.applicationKey = signingUtil.deriveKey(sessionKey, Buffer.from("SMB2APP\0", "ascii"), Buffer.from("SmbRpc\0", "ascii"));
+      this.signingAlgorithm = SigningAlgorithm.AesCmac;
+      if (serverInfo.encryptionSupported) {
+        this.encryptionKey = signingUtil.deriveKey(sessionKey, Buffer.from("SMB2AESCCM\0", "ascii"), Buffer.from("ServerIn \0", "ascii"));
+        this.decryptionKey = signingUtil.deriveKey(sessionKey, Buffer.from("SMB2AESCCM\0", "ascii"), Buffer.from("ServerOut\0", "ascii"));
+        this.cipher = serverInfo.cipher;
+      }
+    } else {
+      this.signingKey = sessionKey;
+      this.applicationKey = sessionKey;
+      this.signingAlgorithm = SigningAlgorithm.HmacSha256;
+    }
+  }
+
+  shouldSign(request: Request) {
+    return (
+      this.signingRequired &&
+      !!this.signingKey &&
+      (request.header.type !== PacketType.SessionSetup || this.reauthenticating)
+    );
+  }
+
+  shouldEncrypt(request: Request) {
+    if (
+      !this.encryptionKey ||
+      request.header.type === PacketType.Negotiate ||
+      request.header.type === PacketType.SessionSetup
+    ) return false;
+
+    return (
+      this.encryptData ||
+      this.connectedTrees.some(tree => tree._id === request.header.treeId && tree.encryptData)
+    );
+  }
+
   private registerTree(tree: Tree) {
     tree
       .once("connect", () => this.connectedTrees.push(tree))
@@ -126,10 +490,20 @@ class Session extends EventEmitter {
     await Promise.all(this.connectedTrees.map(x => x.disconnect()));
 
     await this.request({ type: PacketType.LogOff });
-    delete this._id;
+    this.reset();
 
     this.emit("logoff", this);
   }
+
+  private reset() {
+    delete this._id;
+    delete this.sessionKey;
+    delete this.signingKey;
+    delete this.applicationKey;
+    delete this.encryptionKey;
+    delete this.decryptionKey;
+    delete this.preauthIntegrityHashValue;
+  }
 }
 
 export default Session;
@@ -0,0 +1,81 @@
+import FileAttribute from "../protocol/smb2/FileAttribute";
+import * as structureUtil from "../protocol/structureUtil";
+import { FileAllInformation } from "../protocol/smb2/packets/QueryInfo";
+
+// 100 ns intervals between 1601-01-01 and 1970-01-01
+const fileTimeEpochOffset = 116444736000000000n;
+
+const toDate = (fileTime: bigint) => new Date(Number((fileTime - fileTimeEpochOffset) / 10000n));
+
+/**
+ * Metadata of a file or directory, shaped like fs.Stats.
+ */
+class Stats {
+  /**
+   * Timestamps in 100 ns intervals since 1601-01-01 as sent by the server
+   */
+  creationTime: bigint;
+  lastAccessTime: bigint;
+  lastWriteTime: bigint;
+  changeTime: bigint;
+
+  fileAttributes: FileAttribute;
+  size: bigint;
+  allocationSize: bigint;
+  nlink: number;
+  fileId: string;
+  deletePending: boolean;
+
+  constructor(allInformation: FileAllInformation) {
+    const { basicInformation, standardInformation, internalInformation } = allInformation;
+
+    this.creationTime = basicInformation.creationTime;
+    this.lastAccessTime = basicInformation.lastAccessTime;
+    this.lastWriteTime = basicInformation.lastWriteTime;
+    this.changeTime = basicInformation.changeTime;
+    this.fileAttributes = basicInformation.fileAttributes;
+    this.size = standardInformation.endOfFile;
+    this.allocationSize = standardInformation.allocationSize;
+    this.nlink = standardInformation.numberOfLinks;
+    this.deletePending = standardInformation.deletePending;
+    this.fileId = internalInformation.fileId;
+  }
+
+  get ino() {
+    return BigInt(`0x${this.fileId}`);
+  }
+
+  get birthtime() {
+    return toDate(this.creationTime);
+  }
+
+  get atime() {
+    return toDate(this.lastAccessTime);
+  }
+
+  get mtime() {
+    return toDate(this.lastWriteTime);
+  }
+
+  get ctime() {
+    return toDate(this.changeTime);
+  }
+
+  get attributes() {
+    return structureUtil.parseEnumValues(FileAttribute, this.fileAttributes);
+  }
+
+  isFile() {
+    return !this.isDirectory();
+  }
+
+  isDirectory() {
+    return (this.fileAttributes & FileAttribute.Directory) !== 0;
+  }
+
+  isSymbolicLink() {
+    return (this.fileAttributes & FileAttribute.ReparsePoint) !== 0;
+  }
+}
+
+export default Stats;
@@ -1,14 +1,87 @@
-import File from "./File";
+import File, { OpenOptions, getOpenRequestBody } from "./File";
+import Stats from "./Stats";
+import FileHandle, { OpenFlags, getOpenOptions } from "./FileHandle";
+import FileSystem from "./FileSystem";
+import Watcher, { WatcherOptions } from "./Watcher";
 import type Session from "./Session";
-import Directory from "./Directory";
+import type { DurableHandleOptions } from "./durableHandleUtil";
+import type { RequestOptions, CompoundMessage } from "./Client";
+import Directory, { IterateOptions } from "./Directory";
 import { EventEmitter } from "events";
 import type Header from "../protocol/smb2/Header";
 import * as util from "../protocol/util";
 import type Response from "../protocol/smb2/Response";
 import PacketType from "../protocol/smb2/PacketType";
+import HeaderFlag from "../protocol/smb2/HeaderFlag";
+import { relatedFileId } from "../protocol/smb2/Packet";
+import StatusCode from "../protocol/smb2/StatusCode";
+import ShareFlag from "../protocol/smb2/ShareFlag";
+import FileAttribute from "../protocol/smb2/FileAttribute";
+import {
+  FileTime,
+  FileInfoClass,
+  InfoType,
+  serializeBasicInformation,
+  serializeRenameInformation
+} from "../protocol/smb2/packets/SetInfo";
+import { parseAllInformation } from "../protocol/smb2/packets/QueryInfo";
+import { DirectoryInformationClass, FileIdBothDirectoryInformation } from "../protocol/smb2/packets/QueryDirectory";
+import { CreateOptions, CreateContextRequest } from "../protocol/smb2/packets/Create";
 import DirectoryAccess from "../protocol/smb2/DirectoryAccess";
 import FilePipePrinterAccess from "../protocol/smb2/FilePipePrinterAccess";
 
+export interface OpenFileOptions extends RequestOptions {
+  durable?: boolean | DurableHandleOptions;
+  createContexts?: CreateContextRequest[];
+}
+
+export interface CreateDirectoryOptions {
+  recursive?: boolean;
+}
+
+export interface RemoveDirectoryOptions {
+  recursive?: boolean;
+  concurrency?: number;
+}
+
+export interface WalkEntry {
+  path: string;
+  /**
+   * Depth of the directory containing the entry, where entries of the walked directory are at 0
+   */
+  depth: number;
+  entry: FileIdBothDirectoryInformation;
+}
+
+export interface WalkOptions extends RequestOptions {
+  /**
+   * Deepest directory depth to list, where 0 only lists the walked directory
+   */
+  maxDepth?: number;
+  /**
+   * Skips the entries, and the contents of the directories, the filter rejects
+   */
+  filter?: (walkEntry: WalkEntry) => boolean;
+  /**
+   * Descends into symbolic links and junctions, which may lead to cycles
+   */
+  followReparsePoints?: boolean;
+}
+
+export interface DiskUsage {
+  size: bigint;
+  allocationSize: bigint;
+  fileCount: number;
+  directoryCount: number;
+}
+
+const defaultRemoveConcurrency = 8;
+
+// listed names are relative paths like ./name
+const joinPath = (path: string, filename: string) => `${path.replace(/[\\/]+$/, "")}/${filename.replace(/^\.\//, "")}`;
+
+const isReparsePoint = (entry: FileIdBothDirectoryInformation) => entry.fileAttributes.includes("ReparsePoint");
+
 interface Tree {
   on(event: "connect" | "disconnect", callback: (tree: Tree) => void): this;
 
@@ -17,8 +90,10 @@ interface Tree {
 
 class Tree extends EventEmitter {
   _id: number;
+  path: string;
   connected = false;
   connecting = false;
+  encryptData = false;
   openFiles: File[] = [];
   openDirectories: Directory[] = [];
 
@@ -31,20 +106,47 @@ class Tree extends EventEmitter {
   async connect(path: string) {
     if (this.connected || this.connecting) return;
     this.connecting = true;
+    this.path = path;
+
+    try {
+      const buffer = Buffer.from(
+        util.toWindowsPath(`//${this.session.client.host}:${this.session.client.port}/${path}`),
+        "ucs2"
+      );
+      const response = await this.request({ type: PacketType.TreeConnect }, { buffer });
+      this._id = response.header.treeId;
+      this.encryptData = (response.body.shareFlags & ShareFlag.EncryptData) !== 0;
+      if (this.encryptData && !this.session.encryptionKey) {
+        // the server already connected the tree, which would stay connected until the session ends
+        await this.request({ type: PacketType.TreeDisconnect }).catch(() => undefined);
+        throw new Error("encryption_not_supported");
+      }
+    } finally {
+      this.connecting = false;
+    }
 
-    const buffer = Buffer.from(
-      util.toWindowsPath(`//${this.session.client.host}:${this.session.client.port}/${path}`),
-      "ucs2"
-    );
-    const response = await this.request({ type: PacketType.TreeConnect }, { buffer });
-    this._id = response.header.treeId;
-
-    this.connecting = false;
     this.connected = true;
 
     this.emit("connect", this);
   }
 
+  /**
+   * Connects the tree again after its session was set up again, reclaiming the durable handles and opening the watched directories again to resume their watches.
+   */
+  async reconnect() {
+    this.connected = false;
+    await this.connect(this.path);
+
+    await Promise.all([
+      ...this.openFiles
+        .filter(x => x.durableHandle)
+        .map(x => x.reopen()),
+      ...this.openDirectories
+        .filter(x => x.durableHandle || x.watching)
+        .map(x => x.reopen())
+    ]);
+  }
+
   async disconnect() {
     if (!this.connected) return;
     this.connected = false;
@@ -59,7 +161,12 @@ class Tree extends EventEmitter {
     this.emit("disconnect", this);
   }
 
-  async createDirectory(path: string) {
+  /**
+   * Creates the missing parents too when recursive, returning the first directory created.
+   */
+  async createDirectory(path: string, options: CreateDirectoryOptions = {}) {
+    if (options.recursive) return await this.createDirectoryRecursive(path);
+
     const directory = new Directory(this);
     this.registerDirectory(directory);
 
@@ -67,21 +174,79 @@ class Tree extends EventEmitter {
     await directory.close();
   }
 
-  async removeDirectory(path: string) {
+  private async createDirectoryRecursive(path: string) {
+    const unixPath = util.toUnixPath(path);
+    const root = unixPath.startsWith("/") ? "/" : "";
+    const segments = unixPath.split("/").filter(x => x.length > 0 && x !== ".");
+
+    let firstCreatedPath: string;
+    for (let index = 0; index < segments.length; index++) {
+      const directoryPath = `${root}${segments.slice(0, index + 1).join("/")}`;
+      const directory = new Directory(this);
+      this.registerDirectory(directory);
+
+      try {
+        await directory.create(directoryPath);
+        if (!firstCreatedPath) firstCreatedPath = directoryPath;
+      } catch (err) {
+        if (!err.header || err.header.status !== StatusCode.ObjectNameCollision) throw err;
+        // existing files fail to open as directories, and collide with the directory at the end of the path
+        try {
+          await directory.open(directoryPath, { createOptions: CreateOptions.Directory });
+        } catch (openErr) {
+          throw index === segments.length - 1 ? err : openErr;
+        }
+      } finally {
+        await directory.close();
+      }
+    }
+    return firstCreatedPath;
+  }
+
+  /**
+   * Removes the contents first when recursive, with at most concurrency removals in flight.
+   */
+  async removeDirectory(path: string, options: RemoveDirectoryOptions = {}) {
+    if (options.recursive) {
+      const limit = util.createLimiter(options.concurrency || defaultRemoveConcurrency);
+      return await this.removeDirectoryRecursive(path, limit);
+    }
+
     const directory = new Directory(this);
     this.registerDirectory(directory);
 
-    await directory.open(path, { desiredAccess: DirectoryAccess.Delete });
-    await directory.remove();
-    await directory.close();
+    await directory.open(path, {
+      desiredAccess: DirectoryAccess.Delete,
+      createOptions: CreateOptions.OpenReparsePoint
+    });
+    try {
+      await directory.remove();
+    } finally {
+      await directory.close();
+    }
   }
 
-  async renameDirectory(path: string, newPath: string) {
+  // only listings and removals hold a slot, so directories waiting for their contents can't starve them
+  private async removeDirectoryRecursive(path: string, limit: ReturnType<typeof util.createLimiter>) {
+    const entries = await limit(() => this.readDirectory(path));
+
+    await Promise.all(entries.map(entry => {
+      const entryPath = joinPath(path, entry.filename);
+      if (entry.type === "File") return limit(() => this.removeFile(entryPath));
+      // links and junctions are removed without their targets
+      if (isReparsePoint(entry)) return limit(() => this.removeDirectory(entryPath));
+      return this.removeDirectoryRecursive(entryPath, limit);
+    }));
+
+    await limit(() => this.removeDirectory(path));
+  }
+
+  async renameDirectory(path: string, newPath: string, replaceIfExists?: boolean) {
     const directory = new Directory(this);
     this.registerDirectory(directory);
 
     await directory.open(path, { desiredAccess: DirectoryAccess.MaximumAllowed });
-    await directory.rename(newPath);
+    await directory.rename(newPath, replaceIfExists);
     await directory.close();
   }
 
@@ -103,22 +268,171 @@ class Tree extends EventEmitter {
     };
   }
 
-  async readDirectory(path: string = "/") {
+  async createWatcher(path: string = "/", options: WatcherOptions = {}) {
     const directory = new Directory(this);
     this.registerDirectory(directory);
 
-    await directory.open(path);
-    const entries = await directory.read();
+    await directory.open(path, { signal: options.signal, durable: options.durable });
+    const watcher = new Watcher(directory, options);
+    try {
+      await watcher.start();
+    } catch (err) {
+      await watcher.close();
+      throw err;
+    }
+    return watcher;
+  }
+
+  async readDirectory<C extends DirectoryInformationClass = FileInfoClass.IdBothDirectoryInformation>(path: string = "/", options: IterateOptions<C> = {}) {
+    const directory = new Directory(this);
+    this.registerDirectory(directory);
+
+    await directory.open(path, { signal: options.signal });
+    const entries = await directory.read<C>(options);
     await directory.close();
     return entries;
   }
 
+  async *iterateDirectory<C extends DirectoryInformationClass = FileInfoClass.IdBothDirectoryInformation>(path: string = "/", options: IterateOptions<C> = {}) {
+    const directory = new Directory(this);
+    this.registerDirectory(directory);
+
+    await directory.open(path, { signal: options.signal });
+    try {
+      yield* directory.iterate<C>(options);
+    } finally {
+      await directory.close();
+    }
+  }
+
+  /**
+   * Walks the entries below the path, listing each directory before descending into it.
+   */
+  async *walk(path: string = "/", options: WalkOptions = {}) {
+    const maxDepth = typeof options.maxDepth === "number" ? options.maxDepth : Infinity;
+    const directories = [{ path, depth: 0 }];
+
+    while (directories.length > 0) {
+      const directory = directories.pop();
+      for await (const entry of this.iterateDirectory(directory.path, { signal: options.signal })) {
+        const walkEntry: WalkEntry = {
+          path: joinPath(directory.path, entry.filename),
+          depth: directory.depth,
+          entry
+        };
+        if (options.filter && !options.filter(walkEntry)) continue;
+        yield walkEntry;
+
+        if (
+          entry.type === "Directory" &&
+          directory.depth < maxDepth &&
+          (options.followReparsePoints || !isReparsePoint(entry))
+        ) directories.push({ path: walkEntry.path, depth: directory.depth + 1 });
+      }
+    }
+  }
+
+  async getDiskUsage(path: string = "/", options: WalkOptions = {}) {
+    const diskUsage: DiskUsage = {
+      size: 0n,
+      allocationSize: 0n,
+      fileCount: 0,
+      directoryCount: 0
+    };
+    for await (const { entry } of this.walk(path, options)) {
+      if (entry.type === "Directory") {
+        diskUsage.directoryCount++;
+        continue;
+      }
+      diskUsage.fileCount++;
+      diskUsage.size += entry.fileSize;
+      diskUsage.allocationSize += entry.allocationSize;
+    }
+    return diskUsage;
+  }
+
   async exists(path: string) {
+    try {
+      await this.requestOnFile(path, {}, []);
+    } catch (err) {
+      if (
+        err.header &&
+        (err.header.status === StatusCode.FileNameNotFound || err.header.status === StatusCode.FilePathNotFound)
+      ) return false;
+      throw err;
+    }
+
+    return true;
+  }
+
+  async stat(path: string, options: RequestOptions = {}) {
+    return await this.queryAllInformation(path, { desiredAccess: FilePipePrinterAccess.ReadAttributes }, options);
+  }
+
+  async lstat(path: string, options: RequestOptions = {}) {
+    return await this.queryAllInformation(
+      path,
+      {
+        desiredAccess: FilePipePrinterAccess.ReadAttributes,
+        createOptions: CreateOptions.OpenReparsePoint
+      },
+      options
+    );
+  }
+
+  private async queryAllInformation(path: string, openOptions: OpenOptions, options: RequestOptions) {
+    const [response] = await this.requestOnFile(
+      path,
+      openOptions,
+      [{
+        header: { type: PacketType.QueryInfo },
+        body: {
+          infoType: InfoType.File,
+          fileInfoClass: FileInfoClass.AllInformation
+        }
+      }],
+      options
+    );
+    return new Stats(parseAllInformation(response.body.buffer as Buffer));
+  }
+
+  async utimes(path: string, lastAccessTime?: FileTime, lastWriteTime?: FileTime) {
+    await this.requestOnFile(
+      path,
+      { desiredAccess: FilePipePrinterAccess.WriteAttributes },
+      [{
+        header: { type: PacketType.SetInfo },
+        body: {
+          infoType: InfoType.File,
+          fileInfoClass: FileInfoClass.BasicInformation,
+          buffer: serializeBasicInformation({ lastAccessTime, lastWriteTime })
+        }
+      }]
+    );
+  }
+
+  async setAttributes(path: string, fileAttributes: FileAttribute) {
     const file = new File(this);
     this.registerFile(file);
-    const exists = await file.exists(path);
-    await file.close();
-    return exists;
+    await file.open(path, { desiredAccess: FilePipePrinterAccess.WriteAttributes });
+    try {
+      await file.setAttributes(fileAttributes);
+    } finally {
+      await file.close();
+    }
+  }
+
+  async open(path: string, flags: OpenFlags = "r", options: OpenFileOptions = {}) {
+    const openOptions = getOpenOptions(flags);
+    const file = new File(this);
+    this.registerFile(file);
+    await file.open(path, {
+      ...openOptions,
+      signal: options.signal,
+      durable: options.durable,
+      createContexts: options.createContexts
+    });
+    return new FileHandle(file, flags);
   }
 
   async createFile(path: string, content?: Buffer | string) {
@@ -145,33 +459,52 @@ class Tree extends EventEmitter {
   }
 
   async removeFile(path: string) {
-    const file = new File(this);
-    this.registerFile(file);
-    await file.open(path, { desiredAccess: FilePipePrinterAccess.Delete });
-    await file.remove();
-    await file.close();
+    await this.requestOnFile(
+      path,
+      {
+        desiredAccess: FilePipePrinterAccess.Delete,
+        createOptions: CreateOptions.OpenReparsePoint
+      },
+      [{
+        header: { type: PacketType.SetInfo },
+        body: {
+          infoType: InfoType.File,
+          fileInfoClass: FileInfoClass.DispositionInformation,
+          buffer: Buffer.from([1])
+        }
+      }]
+    );
   }
 
-  async renameFile(path: string, newPath: string) {
+  async renameFile(path: string, newPath: string, replaceIfExists: boolean = false) {
     const desiredAccess =  FilePipePrinterAccess.Delete |
       FilePipePrinterAccess.WriteAttributes |
       FilePipePrinterAccess.ReadAttributes |
       FilePipePrinterAccess.ReadControl;
-    const file = new File(this);
-    this.registerFile(file);
-    await file.open(path, { desiredAccess });
-    await file.rename(newPath);
-    await file.close();
+    await this.requestOnFile(
+      path,
+      { desiredAccess },
+      [{
+        header: { type: PacketType.SetInfo },
+        body: {
+          infoType: InfoType.File,
+          fileInfoClass: FileInfoClass.RenameInformation,
+          buffer: serializeRenameInformation(newPath, replaceIfExists)
+        }
+      }]
+    );
   }
 
-  async readFile(path: string) {
+  async readFile(path: string, options: RequestOptions = {}) {
     const file = new File(this);
     this.registerFile(file);
 
-    await file.open(path);
-    const buffer = await file.read();
-    await file.close();
-    return buffer;
+    await file.open(path, options);
+    try {
+      return await file.read(options);
+    } finally {
+      await file.close();
+    }
   }
 
   async createFileReadStream(path: string) {
@@ -186,6 +519,10 @@ class Tree extends EventEmitter {
     return stream;
   }
 
+  createFileSystem() {
+    return new FileSystem(this);
+  }
+
   private registerFile(file: File) {
     file
       .once("open", () => this.openFiles.push(file))
@@ -208,14 +545,47 @@ class Tree extends EventEmitter {
     );
   }
 
-  request(header: Header = {}, body: any = {}) {
+  request(header: Header = {}, body: any = {}, options?: RequestOptions) {
     return this.session.request(
       {
         treeId: this._id,
         ...header
       },
-      body
+      body,
+      options
+    );
+  }
+
+  requestCompound(messages: CompoundMessage[], options?: RequestOptions) {
+    return this.session.requestCompound(
+      messages.map(message => ({
+        header: {
+          treeId: this._id,
+          ...message.header
+        },
+        body: message.body
+      })),
+      options
+    );
+  }
+
+  /**
+   * Opens the path, sends the messages for the opened file and closes it again in a single related compound.
+   */
+  private async requestOnFile(path: string, openOptions: OpenOptions, messages: CompoundMessage[], options?: RequestOptions) {
+    const relatedMessages = messages.map(message => ({
+      header: { ...message.header, flags: HeaderFlag.Chained },
+      body: { ...message.body, fileId: relatedFileId }
+    }));
+    const responses = await this.requestCompound(
+      [
+        { header: { type: PacketType.Create }, body: getOpenRequestBody(path, openOptions) },
+        ...relatedMessages,
+        { header: { type: PacketType.Close, flags: HeaderFlag.Chained }, body: { fileId: relatedFileId } }
+      ],
+      options
     );
+    return responses.slice(1, -1);
   }
 }
 
@@ -0,0 +1,157 @@
+import { EventEmitter } from "events";
+import type Directory from "./Directory";
+import type { RequestOptions } from "./Client";
+import type { DurableHandleOptions } from "./durableHandleUtil";
+import type Response from "../protocol/smb2/Response";
+import StatusCode from "../protocol/smb2/StatusCode";
+import FileAction from "../protocol/smb2/FileAction";
+import ChangeEntry from "../protocol/models/ChangeEntry";
+import { CompletionFilter } from "../protocol/smb2/packets/ChangeNotify";
+
+export type ChangeEvent = "add" | "unlink" | "change";
+
+export interface WatcherOptions extends RequestOptions {
+  recursive?: boolean;
+  completionFilter?: CompletionFilter;
+  /**
+   * Milliseconds without changes before the collected add, unlink and change events of each file are emitted
+   */
+  debounce?: number;
+  /**
+   * Requests a durable handle for the watched directory, which keeps the watch on the same handle across reconnects when the server grants it
+   */
+  durable?: boolean | DurableHandleOptions;
+}
+
+interface Watcher {
+  on(event: ChangeEvent, callback: (entry: ChangeEntry) => void): this;
+  on(event: "rename", callback: (oldEntry: ChangeEntry, newEntry: ChangeEntry) => void): this;
+  on(event: "overflow" | "close", callback: () => void): this;
+  on(event: "error", callback: (error: Error) => void): this;
+
+  once(event: ChangeEvent, callback: (entry: ChangeEntry) => void): this;
+  once(event: "rename", callback: (oldEntry: ChangeEntry, newEntry: ChangeEntry) => void): this;
+  once(event: "overflow" | "close", callback: () => void): this;
+  once(event: "error", callback: (error: Error) => void): this;
+}
+
+const changeEvents: { [action: number]: ChangeEvent } = {
+  [FileAction.Added]: "add",
+  [FileAction.Removed]: "unlink",
+  [FileAction.RemovedByDelete]: "unlink",
+  [FileAction.Modified]: "change",
+  [FileAction.AddedStream]: "change",
+  [FileAction.RemovedStream]: "change",
+  [FileAction.ModifiedStream]: "change"
+};
+
+// the event left after a file was first reported with one event and then with another, or none if they cancel out
+const mergeChangeEvents = (previousEvent: ChangeEvent, event: ChangeEvent): ChangeEvent => {
+  if (previousEvent === "add") {
+    if (event === "unlink") return;
+    return "add";
+  }
+  if (previousEvent === "unlink" && event === "add") return "change";
+  return event;
+};
+
+/**
+ * Typed change events of a watched directory.
+ * Emits overflow when the server dropped changes that didn't fit, after which the directory has to be rescanned.
+ */
+class Watcher extends EventEmitter {
+  private pendingChanges = new Map<string, { event: ChangeEvent, entry: ChangeEntry }>();
+  private debounceTimeoutId: NodeJS.Timeout;
+
+  constructor(
+    public directory: Directory,
+    private options: WatcherOptions = {}
+  ) {
+    super();
+
+    this.directory.addListener("change", this.onChange);
+    this.directory.addListener("error", this.onError);
+    if (this.options.signal) this.options.signal.addEventListener("abort", this.onAbort, { once: true });
+  }
+
+  async start() {
+    await this.directory.watch(
+      typeof this.options.recursive === "boolean" ? this.options.recursive : true,
+      this.options.completionFilter
+    );
+  }
+
+  private onChange = (response: Response) => {
+    if (response.header.status === StatusCode.NotifyEnumDir) {
+      this.flush();
+      this.emit("overflow");
+      return;
+    }
+
+    let oldEntry: ChangeEntry;
+    for (const entry of (response.data || []) as ChangeEntry[]) {
+      if (entry.action === FileAction.RenamedNewName && oldEntry) {
+        this.flush();
+        this.emit("rename", oldEntry, entry);
+        oldEntry = undefined;
+        continue;
+      }
+      // renames out of or into the watched directory only report one of the names
+      if (oldEntry) this.addChange("unlink", oldEntry);
+      oldEntry = undefined;
+
+      if (entry.action === FileAction.RenamedOldName) oldEntry = entry;
+      else if (entry.action === FileAction.RenamedNewName) this.addChange("add", entry);
+      else if (changeEvents[entry.action]) this.addChange(changeEvents[entry.action], entry);
+    }
+    if (oldEntry) this.addChange("unlink", oldEntry);
+  };
+
+  private onError = (err: Error) => {
+    this.emit("error", err);
+  };
+
+  private onAbort = async () => {
+    try {
+      await this.close();
+    } catch (err) {
+      this.emit("error", err);
+    }
+  };
+
+  private addChange(event: ChangeEvent, entry: ChangeEntry) {
+    if (!this.options.debounce) {
+      this.emit(event, entry);
+      return;
+    }
+
+    const pendingChange = this.pendingChanges.get(entry.filename);
+    const mergedEvent = pendingChange ? mergeChangeEvents(pendingChange.event, event) : event;
+    // deleting first moves files that changed again to the end of the emission order
+    this.pendingChanges.delete(entry.filename);
+    if (mergedEvent) this.pendingChanges.set(entry.filename, { event: mergedEvent, entry });
+
+    clearTimeout(this.debounceTimeoutId);
+    this.debounceTimeoutId = setTimeout(() => this.flush(), this.options.debounce);
+  }
+
+  private flush() {
+    clearTimeout(this.debounceTimeoutId);
+    const pendingChanges = [...this.pendingChanges.values()];
+    this.pendingChanges.clear();
+
+    for (const { event, entry } of pendingChanges) this.emit(event, entry);
+  }
+
+  async close() {
+    this.flush();
+    this.directory.removeListener("change", this.onChange);
+    this.directory.removeListener("error", this.onError);
+    if (this.options.signal) this.options.signal.removeEventListener("abort", this.onAbort);
+    await this.directory.close();
+
+    this.emit("close");
+  }
+}
+
+export default Watcher;
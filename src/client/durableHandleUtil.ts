@@ -0,0 +1,103 @@
+import type ServerInfo from "../protocol/models/ServerInfo";
+import { generateGuid } from "../protocol/util";
+import Dialect from "../protocol/smb2/Dialect";
+import Capability from "../protocol/smb2/Capability";
+import {
+  CreateContext,
+  CreateContextName,
+  DurableHandleFlag,
+  serializeDurableHandleRequest,
+  serializeDurableHandleReconnect,
+  serializeDurableHandleRequestV2,
+  serializeDurableHandleReconnectV2,
+  parseDurableHandleResponseV2
+} from "../protocol/smb2/packets/Create";
+
+export interface DurableHandleOptions {
+  /**
+   * Requests a persistent handle, which continuously available shares keep through a failover of the server
+   */
+  persistent?: boolean;
+  /**
+   * Milliseconds the server keeps the handle for a reconnect, where 0 leaves the timeout to the server
+   */
+  timeout?: number;
+}
+
+export interface DurableHandle {
+  version: 1 | 2;
+  persistent: boolean;
+  timeout?: number;
+  createGuid?: Buffer;
+}
+
+/**
+ * Returns the create context requesting a durable handle, using durable handles v2 from SMB 3.0 on.
+ */
+export const createDurableHandleRequest = (serverInfo: ServerInfo, options: boolean | DurableHandleOptions) => {
+  const { persistent = false, timeout = 0 } = typeof options === "object" ? options : {};
+  if (
+    persistent &&
+    (serverInfo.dialect < Dialect.Smb300 || (serverInfo.capabilities & Capability.PersistentHandles) === 0)
+  ) throw new Error("persistent_handles_not_supported");
+
+  if (serverInfo.dialect < Dialect.Smb300) {
+    const durableHandle: DurableHandle = { version: 1, persistent: false };
+    const createContext: CreateContext = {
+      name: CreateContextName.DurableHandleRequest,
+      data: serializeDurableHandleRequest()
+    };
+    return { durableHandle, createContext };
+  }
+
+  const createGuid = generateGuid();
+  const durableHandle: DurableHandle = { version: 2, persistent, timeout, createGuid };
+  const createContext: CreateContext = {
+    name: CreateContextName.DurableHandleRequestV2,
+    data: serializeDurableHandleRequestV2(
+      timeout,
+      persistent ? DurableHandleFlag.Persistent : DurableHandleFlag.None,
+      createGuid
+    )
+  };
+  return { durableHandle, createContext };
+};
+
+/**
+ * Returns the durable handle as granted by the create contexts of the response, or nothing when the server opened a regular handle.
+ */
+export const getGrantedDurableHandle = (durableHandle: DurableHandle, createContexts: CreateContext[]) => {
+  if (durableHandle.version === 1) {
+    return createContexts.some(x => x.name === CreateContextName.DurableHandleRequest) ?
+      durableHandle :
+      undefined;
+  }
+
+  const createContext = createContexts.find(x => x.name === CreateContextName.DurableHandleRequestV2);
+  if (!createContext) return;
+
+  const durableHandleResponse = parseDurableHandleResponseV2(createContext.data);
+  const grantedDurableHandle: DurableHandle = {
+    ...durableHandle,
+    timeout: durableHandleResponse.timeout,
+    persistent: (durableHandleResponse.flags & DurableHandleFlag.Persistent) !== 0
+  };
+  return grantedDurableHandle;
+};
+
+export const createDurableHandleReconnect = (fileId: string, durableHandle: DurableHandle) => {
+  const createContext: CreateContext = durableHandle.version === 1 ?
+    {
+      name: CreateContextName.DurableHandleReconnect,
+      data: serializeDurableHandleReconnect(fileId)
+    } :
+    {
+      name: CreateContextName.DurableHandleReconnectV2,
+      data: serializeDurableHandleReconnectV2(
+        fileId,
+        durableHandle.createGuid,
+        durableHandle.persistent ? DurableHandleFlag.Persistent : DurableHandleFlag.None
+      )
+    };
+  return createContext;
+};
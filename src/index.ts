@@ -1,12 +1,18 @@
 import { default as Client } from "./client/Client";
+import { default as ConnectionError } from "./client/ConnectionError";
+import { CreateContextName } from "./protocol/smb2/packets/Create";
 // import { default as Server } from "./server/Server";
 
 export {
   Client,
+  ConnectionError,
+  CreateContextName,
   // Server
 };
 
 export default {
   Client,
+  ConnectionError,
+  CreateContextName,
   // Server
 };
\ No newline at end of file
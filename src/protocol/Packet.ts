@@ -35,4 +35,14 @@ export default class Packet {
       restChunk: buffer
     };
   }
+
+  static serializeChunk(buffer: Buffer) {
+    const prefixedBuffer = Buffer.allocUnsafe(buffer.length + 4);
+    prefixedBuffer.writeUInt8(0x00, 0);
+    prefixedBuffer.writeUInt8((0xff0000 & buffer.length) >> 16, 1);
+    prefixedBuffer.writeUInt16BE(0xffff & buffer.length, 2);
+    buffer.copy(prefixedBuffer, 4, 0, buffer.length);
+
+    return prefixedBuffer;
+  }
 }
\ No newline at end of file
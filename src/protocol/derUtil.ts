@@ -0,0 +1,156 @@
+export enum Tag {
+  Boolean = 0x01,
+  Integer = 0x02,
+  BitString = 0x03,
+  OctetString = 0x04,
+  Null = 0x05,
+  ObjectIdentifier = 0x06,
+  Enumerated = 0x0a,
+  GeneralizedTime = 0x18,
+  GeneralString = 0x1b,
+  Sequence = 0x30
+}
+
+const contextSpecificTag = 0xa0;
+const applicationTag = 0x60;
+
+export interface DerElement {
+  tag: number;
+  content: Buffer;
+}
+
+export const encodeLength = (length: number) => {
+  if (length < 0x80) return Buffer.from([length]);
+
+  const bytes: number[] = [];
+  while (length > 0) {
+    bytes.unshift(length & 0xff);
+    length = Math.floor(length / 0x100);
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+};
+
+export const encodeElement = (tag: number, content: Buffer) => {
+  return Buffer.concat([Buffer.from([tag]), encodeLength(content.length), content]);
+};
+
+export const decodeElement = (buffer: Buffer, offset: number = 0) => {
+  if (offset + 2 > buffer.length) throw new Error("invalid_der_element");
+
+  const tag = buffer.readUInt8(offset);
+  let length = buffer.readUInt8(offset + 1);
+  let contentOffset = offset + 2;
+  if ((length & 0x80) !== 0) {
+    const lengthSize = length & 0x7f;
+    if (lengthSize === 0 || lengthSize > 4 || contentOffset + lengthSize > buffer.length) throw new Error("invalid_der_length");
+    length = buffer.readUIntBE(contentOffset, lengthSize);
+    contentOffset += lengthSize;
+  }
+  if (contentOffset + length > buffer.length) throw new Error("invalid_der_length");
+
+  return {
+    tag,
+    content: buffer.slice(contentOffset, contentOffset + length),
+    size: contentOffset + length - offset
+  };
+};
+
+export const decodeElements = (buffer: Buffer) => {
+  const elements: DerElement[] = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    const { tag, content, size } = decodeElement(buffer, offset);
+    elements.push({ tag, content });
+    offset += size;
+  }
+  return elements;
+};
+
+export const encodeSequence = (elements: Buffer[]) => {
+  return encodeElement(Tag.Sequence, Buffer.concat(elements));
+};
+
+export const encodeContextSpecific = (tagNumber: number, element: Buffer) => {
+  return encodeElement(contextSpecificTag | tagNumber, element);
+};
+
+export const encodeApplication = (tagNumber: number, content: Buffer) => {
+  return encodeElement(applicationTag | tagNumber, content);
+};
+
+/**
+ * Returns the element wrapped by the explicit context specific tag with the given number.
+ */
+export const findContextSpecific = (elements: DerElement[], tagNumber: number) => {
+  const element = elements.find(x => x.tag === (contextSpecificTag | tagNumber));
+  if (!element) return;
+  const { tag, content } = decodeElement(element.content);
+  return { tag, content } as DerElement;
+};
+
+export const isApplication = (element: DerElement, tagNumber: number) => element.tag === (applicationTag | tagNumber);
+
+export const isContextSpecific = (element: DerElement, tagNumber: number) => element.tag === (contextSpecificTag | tagNumber);
+
+export const encodeObjectIdentifier = (objectIdentifier: string) => {
+  const arcs = objectIdentifier.split(".").map(x => Number(x));
+  const bytes: number[] = [arcs[0] * 40 + arcs[1]];
+  for (let arc of arcs.slice(2)) {
+    const arcBytes = [arc & 0x7f];
+    arc = Math.floor(arc / 0x80);
+    while (arc > 0) {
+      arcBytes.unshift(0x80 | (arc & 0x7f));
+      arc = Math.floor(arc / 0x80);
+    }
+    bytes.push(...arcBytes);
+  }
+  return encodeElement(Tag.ObjectIdentifier, Buffer.from(bytes));
+};
+
+export const decodeObjectIdentifier = (content: Buffer) => {
+  if (content.length === 0) throw new Error("invalid_object_identifier");
+
+  const arcs = [Math.floor(content[0] / 40), content[0] % 40];
+  let arc = 0;
+  for (const byte of content.slice(1)) {
+    arc = arc * 0x80 + (byte & 0x7f);
+    if ((byte & 0x80) === 0) {
+      arcs.push(arc);
+      arc = 0;
+    }
+  }
+  return arcs.join(".");
+};
+
+export const encodeInteger = (value: number, tag: number = Tag.Integer) => {
+  // two's complement with the fewest bytes that keep the sign bit intact
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value & 0xff);
+    value = Math.floor(value / 0x100);
+  } while (!(
+    (value === 0 && (bytes[0] & 0x80) === 0) ||
+    (value === -1 && (bytes[0] & 0x80) !== 0)
+  ));
+  return encodeElement(tag, Buffer.from(bytes));
+};
+
+export const decodeInteger = (content: Buffer) => {
+  let value = (content[0] & 0x80) !== 0 ? -1 : 0;
+  for (const byte of content) value = value * 0x100 + byte;
+  return value;
+};
+
+export const encodeEnumerated = (value: number) => encodeInteger(value, Tag.Enumerated);
+
+export const encodeOctetString = (value: Buffer) => encodeElement(Tag.OctetString, value);
+
+export const encodeBitString = (value: Buffer) => {
+  return encodeElement(Tag.BitString, Buffer.concat([Buffer.from([0]), value]));
+};
+
+export const decodeBitString = (content: Buffer) => content.slice(1);
+
+export const encodeGeneralString = (value: string) => encodeElement(Tag.GeneralString, Buffer.from(value, "utf8"));
+
+export const decodeString = (content: Buffer) => content.toString("utf8");
@@ -0,0 +1,7 @@
+enum ChecksumType {
+  HmacSha196Aes128 = 15,
+  HmacSha196Aes256 = 16,
+  GssApi = 0x8003
+}
+
+export default ChecksumType;
@@ -0,0 +1,7 @@
+enum EncryptionType {
+  Aes128CtsHmacSha196 = 17,
+  Aes256CtsHmacSha196 = 18,
+  Rc4Hmac = 23
+}
+
+export default EncryptionType;
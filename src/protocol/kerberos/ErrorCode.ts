@@ -0,0 +1,55 @@
+// [RFC 4120] 7.5.9
+enum ErrorCode {
+  None = 0,
+  NameExpired = 1,
+  ServiceExpired = 2,
+  BadProtocolVersion = 3,
+  ClientPrincipalUnknown = 6,
+  ServerPrincipalUnknown = 7,
+  PrincipalNotUnique = 8,
+  NullKey = 9,
+  CannotPostdate = 10,
+  NeverValid = 11,
+  Policy = 12,
+  BadOption = 13,
+  EncryptionTypeNotSupported = 14,
+  ChecksumTypeNotSupported = 15,
+  PreauthenticationDataTypeNotSupported = 16,
+  TransitedTypeNotSupported = 17,
+  ClientRevoked = 18,
+  ServiceRevoked = 19,
+  TgtRevoked = 20,
+  ClientNotYetValid = 21,
+  ServiceNotYetValid = 22,
+  KeyExpired = 23,
+  PreauthenticationFailed = 24,
+  PreauthenticationRequired = 25,
+  ServerNoMatch = 26,
+  MustUseUserToUser = 27,
+  PathNotAccepted = 28,
+  ServiceUnavailable = 29,
+  IntegrityCheckFailed = 31,
+  TicketExpired = 32,
+  TicketNotYetValid = 33,
+  Replay = 34,
+  NotUs = 35,
+  BadMatch = 36,
+  ClockSkew = 37,
+  BadAddress = 38,
+  BadVersion = 39,
+  MessageTypeMismatch = 40,
+  Modified = 41,
+  BadOrder = 42,
+  BadKeyVersion = 44,
+  NoKey = 45,
+  MutualAuthenticationFailed = 46,
+  BadDirection = 47,
+  Method = 48,
+  BadSequence = 49,
+  InappropriateChecksum = 50,
+  Generic = 60,
+  FieldTooLong = 61,
+  WrongRealm = 68
+}
+
+export default ErrorCode;
@@ -0,0 +1,13 @@
+// [RFC 4120] 7.5.1
+enum KeyUsage {
+  AsReqTimestamp = 1,
+  KdcRepTicket = 2,
+  AsRepEncryptedPart = 3,
+  TgsReqAuthenticatorChecksum = 6,
+  TgsReqAuthenticator = 7,
+  TgsRepEncryptedPart = 8,
+  ApReqAuthenticator = 11,
+  ApRepEncryptedPart = 12
+}
+
+export default KeyUsage;
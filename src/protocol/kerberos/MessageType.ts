@@ -0,0 +1,11 @@
+enum MessageType {
+  AsReq = 10,
+  AsRep = 11,
+  TgsReq = 12,
+  TgsRep = 13,
+  ApReq = 14,
+  ApRep = 15,
+  Error = 30
+}
+
+export default MessageType;
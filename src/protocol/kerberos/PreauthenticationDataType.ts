@@ -0,0 +1,8 @@
+enum PreauthenticationDataType {
+  TgsReq = 1,
+  EncryptedTimestamp = 2,
+  EncryptionTypeInfo2 = 19,
+  PacRequest = 128
+}
+
+export default PreauthenticationDataType;
@@ -0,0 +1,8 @@
+enum PrincipalNameType {
+  Unknown = 0,
+  Principal = 1,
+  ServiceInstance = 2,
+  ServiceHost = 3
+}
+
+export default PrincipalNameType;
@@ -0,0 +1,221 @@
+import crypto from "crypto";
+import KeyUsage from "./KeyUsage";
+import ChecksumType from "./ChecksumType";
+import EncryptionType from "./EncryptionType";
+
+export interface EncryptionKey {
+  type: EncryptionType;
+  value: Buffer;
+}
+
+const blockSize = 16;
+const hmacSize = 12;
+const defaultIterationCount = 4096;
+
+const getKeySize = (type: EncryptionType) => {
+  switch (type) {
+    case EncryptionType.Aes128CtsHmacSha196:
+      return 16;
+    case EncryptionType.Aes256CtsHmacSha196:
+      return 32;
+    default:
+      throw new Error(`encryption_type_not_supported: ${type}`);
+  }
+};
+
+export const isEncryptionTypeSupported = (type: EncryptionType) => {
+  return (
+    type === EncryptionType.Aes128CtsHmacSha196 ||
+    type === EncryptionType.Aes256CtsHmacSha196
+  );
+};
+
+export const getChecksumType = (type: EncryptionType) => {
+  return type === EncryptionType.Aes256CtsHmacSha196 ?
+    ChecksumType.HmacSha196Aes256 :
+    ChecksumType.HmacSha196Aes128;
+};
+
+const rotateRight = (buffer: Buffer, bitCount: number) => {
+  const bitLength = buffer.length * 8;
+  const result = Buffer.alloc(buffer.length);
+  for (let bit = 0; bit < bitLength; bit++) {
+    const sourceBit = (bit - (bitCount % bitLength) + bitLength) % bitLength;
+    if ((buffer[sourceBit >> 3] & (0x80 >> (sourceBit & 7))) !== 0) {
+      result[bit >> 3] |= 0x80 >> (bit & 7);
+    }
+  }
+  return result;
+};
+
+const getGreatestCommonDivisor = (a: number, b: number): number => b === 0 ? a : getGreatestCommonDivisor(b, a % b);
+
+// [RFC 3961] 5.1
+export const nfold = (input: Buffer, outputLength: number) => {
+  const leastCommonMultiple = input.length * outputLength / getGreatestCommonDivisor(input.length, outputLength);
+
+  const sums = new Array<number>(outputLength).fill(0);
+  for (let index = 0; index < leastCommonMultiple / input.length; index++) {
+    const rotated = rotateRight(input, 13 * index);
+    for (let byteIndex = 0; byteIndex < rotated.length; byteIndex++) {
+      sums[(index * input.length + byteIndex) % outputLength] += rotated[byteIndex];
+    }
+  }
+
+  // ones' complement addition carries overflow from the most significant byte back into the least significant one
+  let carry: number;
+  do {
+    carry = 0;
+    for (let index = outputLength - 1; index >= 0; index--) {
+      const sum = sums[index] + carry;
+      sums[index] = sum & 0xff;
+      carry = sum >> 8;
+    }
+    sums[outputLength - 1] += carry;
+  } while (carry !== 0);
+
+  return Buffer.from(sums);
+};
+
+const encryptBlock = (key: Buffer, block: Buffer) => {
+  const cipher = crypto.createCipheriv(`aes-${key.length * 8}-ecb`, key, null).setAutoPadding(false);
+  return Buffer.concat([cipher.update(block), cipher.final()]);
+};
+
+const decryptBlock = (key: Buffer, block: Buffer) => {
+  const decipher = crypto.createDecipheriv(`aes-${key.length * 8}-ecb`, key, null).setAutoPadding(false);
+  return Buffer.concat([decipher.update(block), decipher.final()]);
+};
+
+const encryptCbc = (key: Buffer, plaintext: Buffer) => {
+  const cipher = crypto.createCipheriv(`aes-${key.length * 8}-cbc`, key, Buffer.alloc(blockSize)).setAutoPadding(false);
+  return Buffer.concat([cipher.update(plaintext), cipher.final()]);
+};
+
+const decryptCbc = (key: Buffer, ciphertext: Buffer) => {
+  const decipher = crypto.createDecipheriv(`aes-${key.length * 8}-cbc`, key, Buffer.alloc(blockSize)).setAutoPadding(false);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+// [RFC 3962] 5: CBC with ciphertext stealing where the last two blocks are always swapped
+export const encryptCts = (key: Buffer, plaintext: Buffer) => {
+  if (plaintext.length <= blockSize) return encryptCbc(key, Buffer.concat([plaintext, Buffer.alloc(blockSize - plaintext.length)]));
+
+  const blockCount = Math.ceil(plaintext.length / blockSize);
+  const lastBlockLength = plaintext.length - (blockCount - 1) * blockSize;
+  const ciphertext = encryptCbc(key, Buffer.concat([plaintext, Buffer.alloc(blockSize - lastBlockLength)]));
+
+  return Buffer.concat([
+    ciphertext.slice(0, (blockCount - 2) * blockSize),
+    ciphertext.slice((blockCount - 1) * blockSize),
+    ciphertext.slice((blockCount - 2) * blockSize, (blockCount - 2) * blockSize + lastBlockLength)
+  ]);
+};
+
+export const decryptCts = (key: Buffer, ciphertext: Buffer) => {
+  if (ciphertext.length < blockSize) throw new Error("invalid_ciphertext_length");
+  if (ciphertext.length === blockSize) return decryptCbc(key, ciphertext);
+
+  const blockCount = Math.ceil(ciphertext.length / blockSize);
+  const lastBlockLength = ciphertext.length - (blockCount - 1) * blockSize;
+  const swappedBlock = ciphertext.slice((blockCount - 2) * blockSize, (blockCount - 1) * blockSize);
+  const partialBlock = ciphertext.slice((blockCount - 1) * blockSize);
+
+  // the stolen tail of the second to last block is recovered from the decrypted last block
+  const decryptedSwappedBlock = decryptBlock(key, swappedBlock);
+  const secondToLastBlock = Buffer.concat([partialBlock, decryptedSwappedBlock.slice(lastBlockLength)]);
+
+  const plaintext = decryptCbc(key, Buffer.concat([
+    ciphertext.slice(0, (blockCount - 2) * blockSize),
+    secondToLastBlock,
+    swappedBlock
+  ]));
+  return plaintext.slice(0, ciphertext.length);
+};
+
+// [RFC 3961] 5.1: DK(Key, Constant) = random-to-key(DR(Key, Constant))
+export const deriveKey = (key: Buffer, constant: Buffer) => {
+  const blocks: Buffer[] = [];
+  let block = nfold(constant, blockSize);
+  let length = 0;
+  while (length < key.length) {
+    block = encryptBlock(key, block);
+    blocks.push(block);
+    length += block.length;
+  }
+  return Buffer.concat(blocks).slice(0, key.length);
+};
+
+const createUsageConstant = (usage: KeyUsage, suffix: number) => {
+  const constant = Buffer.alloc(5);
+  constant.writeUInt32BE(usage, 0);
+  constant.writeUInt8(suffix, 4);
+  return constant;
+};
+
+// [RFC 3962] 4: the salt defaults to the realm followed by the principal name components
+export const createKeyFromPassword = (
+  type: EncryptionType,
+  password: string,
+  salt: string,
+  iterationCount: number = defaultIterationCount
+) => {
+  const temporaryKey = crypto.pbkdf2Sync(
+    Buffer.from(password, "utf8"),
+    Buffer.from(salt, "utf8"),
+    iterationCount,
+    getKeySize(type),
+    "sha1"
+  );
+  const key: EncryptionKey = {
+    type,
+    value: deriveKey(temporaryKey, Buffer.from("kerberos", "ascii"))
+  };
+  return key;
+};
+
+export const generateKey = (type: EncryptionType) => {
+  const key: EncryptionKey = {
+    type,
+    value: crypto.randomBytes(getKeySize(type))
+  };
+  return key;
+};
+
+const createHmac = (key: Buffer, data: Buffer) => {
+  return crypto.createHmac("sha1", key).update(data).digest().slice(0, hmacSize);
+};
+
+export const encrypt = (key: EncryptionKey, usage: KeyUsage, plaintext: Buffer) => {
+  getKeySize(key.type);
+
+  const encryptionKey = deriveKey(key.value, createUsageConstant(usage, 0xaa));
+  const integrityKey = deriveKey(key.value, createUsageConstant(usage, 0x55));
+
+  const confoundedPlaintext = Buffer.concat([crypto.randomBytes(blockSize), plaintext]);
+  return Buffer.concat([
+    encryptCts(encryptionKey, confoundedPlaintext),
+    createHmac(integrityKey, confoundedPlaintext)
+  ]);
+};
+
+export const decrypt = (key: EncryptionKey, usage: KeyUsage, ciphertext: Buffer) => {
+  getKeySize(key.type);
+  if (ciphertext.length < blockSize + hmacSize) throw new Error("invalid_ciphertext_length");
+
+  const encryptionKey = deriveKey(key.value, createUsageConstant(usage, 0xaa));
+  const integrityKey = deriveKey(key.value, createUsageConstant(usage, 0x55));
+
+  const confoundedPlaintext = decryptCts(encryptionKey, ciphertext.slice(0, ciphertext.length - hmacSize));
+  const hmac = ciphertext.slice(ciphertext.length - hmacSize);
+  if (!crypto.timingSafeEqual(hmac, createHmac(integrityKey, confoundedPlaintext))) throw new Error("integrity_check_failed");
+
+  return confoundedPlaintext.slice(blockSize);
+};
+
+export const createChecksum = (key: EncryptionKey, usage: KeyUsage, data: Buffer) => {
+  getKeySize(key.type);
+
+  const checksumKey = deriveKey(key.value, createUsageConstant(usage, 0x99));
+  return createHmac(checksumKey, data);
+};
@@ -0,0 +1,231 @@
+import { EncryptionKey } from "./cryptoUtil";
+import { Principal } from "./util";
+import PrincipalNameType from "./PrincipalNameType";
+
+export interface KeytabEntry {
+  principal: Principal;
+  timestamp: Date;
+  keyVersion: number;
+  key: EncryptionKey;
+}
+
+export interface Credential {
+  client: Principal;
+  server: Principal;
+  key: EncryptionKey;
+  authTime: Date;
+  startTime: Date;
+  endTime: Date;
+  renewTill: Date;
+  flags: number;
+  ticket: Buffer;
+}
+
+export interface CredentialCache {
+  defaultPrincipal: Principal;
+  credentials: Credential[];
+}
+
+const keytabFileFormatVersion = 0x0502;
+const credentialCacheFileFormatVersions = [0x0503, 0x0504];
+// [MIT] ccache configuration entries are stored as credentials for this realm
+const credentialCacheConfigurationRealm = "X-CACHECONF:";
+
+// both formats use big endian fields, strings prefixed with their length and seconds since the epoch
+const createReader = (buffer: Buffer) => {
+  let offset = 0;
+
+  const ensure = (size: number) => {
+    if (offset + size > buffer.length) throw new Error("unexpected_end_of_file");
+  };
+
+  const reader = {
+    get offset() {
+      return offset;
+    },
+    get remaining() {
+      return buffer.length - offset;
+    },
+    skip(size: number) {
+      ensure(size);
+      offset += size;
+    },
+    readUInt8() {
+      ensure(1);
+      return buffer.readUInt8(offset++);
+    },
+    readUInt16() {
+      ensure(2);
+      const value = buffer.readUInt16BE(offset);
+      offset += 2;
+      return value;
+    },
+    readUInt32() {
+      ensure(4);
+      const value = buffer.readUInt32BE(offset);
+      offset += 4;
+      return value;
+    },
+    readInt32() {
+      ensure(4);
+      const value = buffer.readInt32BE(offset);
+      offset += 4;
+      return value;
+    },
+    readBuffer(size: number) {
+      ensure(size);
+      const value = buffer.slice(offset, offset + size);
+      offset += size;
+      return value;
+    },
+    readDate() {
+      return new Date(reader.readUInt32() * 1000);
+    }
+  };
+  return reader;
+};
+
+type Reader = ReturnType<typeof createReader>;
+
+const readKeytabEntry = (reader: Reader, entryEnd: number) => {
+  const componentCount = reader.readUInt16();
+  const realm = reader.readBuffer(reader.readUInt16()).toString("utf8");
+  const components: string[] = [];
+  for (let index = 0; index < componentCount; index++) {
+    components.push(reader.readBuffer(reader.readUInt16()).toString("utf8"));
+  }
+  const nameType: PrincipalNameType = reader.readUInt32();
+  const timestamp = reader.readDate();
+  let keyVersion = reader.readUInt8();
+  const key: EncryptionKey = {
+    type: reader.readUInt16(),
+    value: reader.readBuffer(reader.readUInt16())
+  };
+  // the 8 bit key version is superseded by an optional 32 bit one
+  if (entryEnd - reader.offset >= 4) {
+    const extendedKeyVersion = reader.readUInt32();
+    if (extendedKeyVersion !== 0) keyVersion = extendedKeyVersion;
+  }
+
+  const entry: KeytabEntry = {
+    principal: {
+      realm,
+      name: {
+        type: nameType,
+        components
+      }
+    },
+    timestamp,
+    keyVersion,
+    key
+  };
+  return entry;
+};
+
+export const parseKeytab = (buffer: Buffer) => {
+  const reader = createReader(buffer);
+  const version = reader.readUInt16();
+  if (version !== keytabFileFormatVersion) throw new Error(`keytab_version_not_supported: ${version.toString(16)}`);
+
+  const entries: KeytabEntry[] = [];
+  while (reader.remaining >= 4) {
+    const size = reader.readInt32();
+    if (size === 0) break;
+    // deleted entries are left behind as holes with a negative size
+    if (size < 0) {
+      reader.skip(-size);
+      continue;
+    }
+
+    const entryEnd = reader.offset + size;
+    entries.push(readKeytabEntry(reader, entryEnd));
+    reader.skip(entryEnd - reader.offset);
+  }
+  return entries;
+};
+
+const readCountedBuffer = (reader: Reader) => reader.readBuffer(reader.readUInt32());
+
+const readPrincipal = (reader: Reader) => {
+  const type: PrincipalNameType = reader.readUInt32();
+  const componentCount = reader.readUInt32();
+  const realm = readCountedBuffer(reader).toString("utf8");
+  const components: string[] = [];
+  for (let index = 0; index < componentCount; index++) {
+    components.push(readCountedBuffer(reader).toString("utf8"));
+  }
+
+  const principal: Principal = {
+    realm,
+    name: {
+      type,
+      components
+    }
+  };
+  return principal;
+};
+
+const readCredential = (reader: Reader, version: number) => {
+  const client = readPrincipal(reader);
+  const server = readPrincipal(reader);
+  const keyType = reader.readUInt16();
+  if (version === 0x0503) reader.readUInt16();
+  const key: EncryptionKey = {
+    type: keyType,
+    value: readCountedBuffer(reader)
+  };
+  const authTime = reader.readDate();
+  const startTime = reader.readDate();
+  const endTime = reader.readDate();
+  const renewTill = reader.readDate();
+  reader.readUInt8();
+  const flags = reader.readUInt32();
+
+  const addressCount = reader.readUInt32();
+  for (let index = 0; index < addressCount; index++) {
+    reader.readUInt16();
+    readCountedBuffer(reader);
+  }
+  const authorizationDataCount = reader.readUInt32();
+  for (let index = 0; index < authorizationDataCount; index++) {
+    reader.readUInt16();
+    readCountedBuffer(reader);
+  }
+
+  const ticket = readCountedBuffer(reader);
+  readCountedBuffer(reader);
+
+  const credential: Credential = {
+    client,
+    server,
+    key,
+    authTime,
+    startTime,
+    endTime,
+    renewTill,
+    flags,
+    ticket
+  };
+  return credential;
+};
+
+export const parseCredentialCache = (buffer: Buffer) => {
+  const reader = createReader(buffer);
+  const version = reader.readUInt16();
+  if (!credentialCacheFileFormatVersions.includes(version)) throw new Error(`credential_cache_version_not_supported: ${version.toString(16)}`);
+  if (version === 0x0504) reader.skip(reader.readUInt16());
+
+  const defaultPrincipal = readPrincipal(reader);
+  const credentials: Credential[] = [];
+  while (reader.remaining > 0) {
+    const credential = readCredential(reader, version);
+    if (credential.server.realm === credentialCacheConfigurationRealm) continue;
+    credentials.push(credential);
+  }
+
+  const credentialCache: CredentialCache = {
+    defaultPrincipal,
+    credentials
+  };
+  return credentialCache;
+};
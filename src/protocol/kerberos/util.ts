@@ -0,0 +1,484 @@
+import crypto from "crypto";
+import * as derUtil from "../derUtil";
+import { DerElement } from "../derUtil";
+import ErrorCode from "./ErrorCode";
+import MessageType from "./MessageType";
+import ChecksumType from "./ChecksumType";
+import EncryptionType from "./EncryptionType";
+import PrincipalNameType from "./PrincipalNameType";
+import MechanismType from "../spnego/MechanismType";
+import { EncryptionKey } from "./cryptoUtil";
+import PreauthenticationDataType from "./PreauthenticationDataType";
+
+export interface PrincipalName {
+  type: PrincipalNameType;
+  components: string[];
+}
+
+export interface Principal {
+  realm: string;
+  name: PrincipalName;
+}
+
+export interface EncryptedData {
+  type: EncryptionType;
+  keyVersion?: number;
+  cipher: Buffer;
+}
+
+export interface Checksum {
+  type: ChecksumType;
+  value: Buffer;
+}
+
+export interface Ticket {
+  realm: string;
+  serverName: PrincipalName;
+  encryptedPart: EncryptedData;
+  buffer: Buffer;
+}
+
+export interface PreauthenticationData {
+  type: PreauthenticationDataType;
+  value: Buffer;
+}
+
+export interface KdcRequestBody {
+  options: number;
+  clientName?: PrincipalName;
+  realm: string;
+  serverName: PrincipalName;
+  till: Date;
+  nonce: number;
+  encryptionTypes: EncryptionType[];
+}
+
+export interface KdcReply {
+  type: MessageType;
+  preauthenticationData: PreauthenticationData[];
+  clientRealm: string;
+  clientName: PrincipalName;
+  ticket: Ticket;
+  encryptedPart: EncryptedData;
+}
+
+export interface EncryptedKdcReplyPart {
+  key: EncryptionKey;
+  nonce: number;
+  flags: number;
+  authTime: Date;
+  startTime?: Date;
+  endTime: Date;
+  renewTill?: Date;
+  serverRealm: string;
+  serverName: PrincipalName;
+}
+
+export interface KerberosError {
+  code: ErrorCode;
+  realm: string;
+  serverName: PrincipalName;
+  text?: string;
+  data?: Buffer;
+}
+
+export interface EncryptionTypeInfo2Entry {
+  type: EncryptionType;
+  salt?: string;
+  parameters?: Buffer;
+}
+
+export interface Authenticator {
+  clientRealm: string;
+  clientName: PrincipalName;
+  checksum?: Checksum;
+  microseconds: number;
+  time: Date;
+  subkey?: EncryptionKey;
+  sequenceNumber?: number;
+}
+
+export interface EncryptedApReplyPart {
+  time: Date;
+  microseconds: number;
+  subkey?: EncryptionKey;
+  sequenceNumber?: number;
+}
+
+export const protocolVersion = 5;
+
+// [RFC 4120] 5.2.8: kdc options and ticket flags are 32 bit strings numbered from the most significant bit
+export enum KdcOption {
+  Forwardable = 1 << 30,
+  Renewable = 1 << 23,
+  Canonicalize = 1 << 16,
+  RenewableOk = 1 << 4
+}
+
+export enum ApOption {
+  MutualRequired = 1 << 29
+}
+
+// [RFC 4121] 4.1.1.1
+export enum GssFlag {
+  Delegation = 0x01,
+  Mutual = 0x02,
+  Replay = 0x04,
+  Sequence = 0x08,
+  Confidentiality = 0x10,
+  Integrity = 0x20
+}
+
+export enum GssTokenId {
+  ApReq = 0x0100,
+  ApRep = 0x0200,
+  Error = 0x0300
+}
+
+const applicationTagNumbers = {
+  ticket: 1,
+  authenticator: 2,
+  encryptedAsReplyPart: 25,
+  encryptedTgsReplyPart: 26,
+  encryptedApReplyPart: 27
+};
+
+const getField = (fields: DerElement[], tagNumber: number) => {
+  const field = derUtil.findContextSpecific(fields, tagNumber);
+  if (!field) throw new Error(`kerberos_field_missing: ${tagNumber}`);
+  return field;
+};
+
+const decodeApplication = (buffer: Buffer, tagNumber: number) => {
+  const element = derUtil.decodeElement(buffer);
+  if (!derUtil.isApplication(element, tagNumber)) throw new Error(`invalid_kerberos_message: ${tagNumber}`);
+  return derUtil.decodeElements(derUtil.decodeElement(element.content).content);
+};
+
+const encodeFields = (fields: Buffer[]) => {
+  return derUtil.encodeSequence(
+    fields
+      .map((field, tagNumber) => field ? derUtil.encodeContextSpecific(tagNumber, field) : undefined)
+      .filter(field => field)
+  );
+};
+
+const encodeFlags = (flags: number) => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(flags >>> 0, 0);
+  return derUtil.encodeBitString(buffer);
+};
+
+const decodeFlags = (content: Buffer) => {
+  const buffer = Buffer.alloc(4);
+  derUtil.decodeBitString(content).copy(buffer);
+  return buffer.readUInt32BE(0);
+};
+
+export const encodeKerberosTime = (date: Date) => {
+  const time = date.toISOString().replace(/[-:T]/g, "").replace(/\.\d+Z$/, "Z");
+  return derUtil.encodeElement(derUtil.Tag.GeneralizedTime, Buffer.from(time, "ascii"));
+};
+
+export const decodeKerberosTime = (content: Buffer) => {
+  const time = content.toString("ascii");
+  return new Date(Date.UTC(
+    Number(time.slice(0, 4)),
+    Number(time.slice(4, 6)) - 1,
+    Number(time.slice(6, 8)),
+    Number(time.slice(8, 10)),
+    Number(time.slice(10, 12)),
+    Number(time.slice(12, 14))
+  ));
+};
+
+export const encodePrincipalName = (principalName: PrincipalName) => {
+  return encodeFields([
+    derUtil.encodeInteger(principalName.type),
+    derUtil.encodeSequence(principalName.components.map(derUtil.encodeGeneralString))
+  ]);
+};
+
+export const decodePrincipalName = (content: Buffer) => {
+  const fields = derUtil.decodeElements(content);
+  const principalName: PrincipalName = {
+    type: derUtil.decodeInteger(getField(fields, 0).content),
+    components: derUtil.decodeElements(getField(fields, 1).content).map(x => derUtil.decodeString(x.content))
+  };
+  return principalName;
+};
+
+export const encodeEncryptedData = (encryptedData: EncryptedData) => {
+  return encodeFields([
+    derUtil.encodeInteger(encryptedData.type),
+    typeof encryptedData.keyVersion === "number" ? derUtil.encodeInteger(encryptedData.keyVersion) : undefined,
+    derUtil.encodeOctetString(encryptedData.cipher)
+  ]);
+};
+
+export const decodeEncryptedData = (content: Buffer) => {
+  const fields = derUtil.decodeElements(content);
+  const keyVersion = derUtil.findContextSpecific(fields, 1);
+  const encryptedData: EncryptedData = {
+    type: derUtil.decodeInteger(getField(fields, 0).content),
+    keyVersion: keyVersion ? derUtil.decodeInteger(keyVersion.content) : undefined,
+    cipher: getField(fields, 2).content
+  };
+  return encryptedData;
+};
+
+export const encodeEncryptionKey = (key: EncryptionKey) => {
+  return encodeFields([
+    derUtil.encodeInteger(key.type),
+    derUtil.encodeOctetString(key.value)
+  ]);
+};
+
+export const decodeEncryptionKey = (content: Buffer) => {
+  const fields = derUtil.decodeElements(content);
+  const key: EncryptionKey = {
+    type: derUtil.decodeInteger(getField(fields, 0).content),
+    value: getField(fields, 1).content
+  };
+  return key;
+};
+
+export const encodeChecksum = (checksum: Checksum) => {
+  return encodeFields([
+    derUtil.encodeInteger(checksum.type),
+    derUtil.encodeOctetString(checksum.value)
+  ]);
+};
+
+export const decodeTicket = (buffer: Buffer) => {
+  const fields = decodeApplication(buffer, applicationTagNumbers.ticket);
+  const ticket: Ticket = {
+    realm: derUtil.decodeString(getField(fields, 1).content),
+    serverName: decodePrincipalName(getField(fields, 2).content),
+    encryptedPart: decodeEncryptedData(getField(fields, 3).content),
+    buffer
+  };
+  return ticket;
+};
+
+const encodePreauthenticationData = (preauthenticationData: PreauthenticationData) => {
+  return encodeFields([
+    undefined,
+    derUtil.encodeInteger(preauthenticationData.type),
+    derUtil.encodeOctetString(preauthenticationData.value)
+  ]);
+};
+
+const decodePreauthenticationDataList = (content: Buffer) => {
+  return derUtil.decodeElements(content).map(element => {
+    const fields = derUtil.decodeElements(element.content);
+    const preauthenticationData: PreauthenticationData = {
+      type: derUtil.decodeInteger(getField(fields, 1).content),
+      value: getField(fields, 2).content
+    };
+    return preauthenticationData;
+  });
+};
+
+// [RFC 4120] 5.2.7.2
+export const decodeMethodData = (buffer: Buffer) => {
+  return decodePreauthenticationDataList(derUtil.decodeElement(buffer).content);
+};
+
+// [RFC 4120] 5.2.7.5
+export const decodeEncryptionTypeInfo2 = (buffer: Buffer) => {
+  return derUtil.decodeElements(derUtil.decodeElement(buffer).content).map(element => {
+    const fields = derUtil.decodeElements(element.content);
+    const salt = derUtil.findContextSpecific(fields, 1);
+    const parameters = derUtil.findContextSpecific(fields, 2);
+    const entry: EncryptionTypeInfo2Entry = {
+      type: derUtil.decodeInteger(getField(fields, 0).content),
+      salt: salt ? derUtil.decodeString(salt.content) : undefined,
+      parameters: parameters ? parameters.content : undefined
+    };
+    return entry;
+  });
+};
+
+// [RFC 4120] 5.2.7.2: PA-ENC-TS-ENC
+export const encodeEncryptedTimestamp = (date: Date) => {
+  return encodeFields([
+    encodeKerberosTime(date),
+    derUtil.encodeInteger((date.getTime() % 1000) * 1000)
+  ]);
+};
+
+// [MS-KILE] 2.2.3: KERB-PA-PAC-REQUEST
+export const encodePacRequest = (includePac: boolean) => {
+  return encodeFields([
+    derUtil.encodeElement(derUtil.Tag.Boolean, Buffer.from([includePac ? 0xff : 0x00]))
+  ]);
+};
+
+export const encodeKdcRequestBody = (body: KdcRequestBody) => {
+  return encodeFields([
+    encodeFlags(body.options),
+    body.clientName ? encodePrincipalName(body.clientName) : undefined,
+    derUtil.encodeGeneralString(body.realm),
+    encodePrincipalName(body.serverName),
+    undefined,
+    encodeKerberosTime(body.till),
+    undefined,
+    derUtil.encodeInteger(body.nonce),
+    derUtil.encodeSequence(body.encryptionTypes.map(x => derUtil.encodeInteger(x)))
+  ]);
+};
+
+export const encodeKdcRequest = (
+  type: MessageType,
+  preauthenticationData: PreauthenticationData[],
+  body: Buffer
+) => {
+  return derUtil.encodeApplication(type, encodeFields([
+    undefined,
+    derUtil.encodeInteger(protocolVersion),
+    derUtil.encodeInteger(type),
+    preauthenticationData.length > 0 ?
+      derUtil.encodeSequence(preauthenticationData.map(encodePreauthenticationData)) :
+      undefined,
+    body
+  ]));
+};
+
+export const getMessageType = (buffer: Buffer) => {
+  const element = derUtil.decodeElement(buffer);
+  return (element.tag & 0x1f) as MessageType;
+};
+
+export const decodeKdcReply = (buffer: Buffer) => {
+  const type = getMessageType(buffer);
+  if (type !== MessageType.AsRep && type !== MessageType.TgsRep) throw new Error(`invalid_kerberos_message: ${type}`);
+
+  const fields = decodeApplication(buffer, type);
+  const preauthenticationData = derUtil.findContextSpecific(fields, 2);
+  const ticket = getField(fields, 5);
+  const reply: KdcReply = {
+    type,
+    preauthenticationData: preauthenticationData ? decodePreauthenticationDataList(preauthenticationData.content) : [],
+    clientRealm: derUtil.decodeString(getField(fields, 3).content),
+    clientName: decodePrincipalName(getField(fields, 4).content),
+    ticket: decodeTicket(derUtil.encodeElement(ticket.tag, ticket.content)),
+    encryptedPart: decodeEncryptedData(getField(fields, 6).content)
+  };
+  return reply;
+};
+
+export const decodeEncryptedKdcReplyPart = (buffer: Buffer) => {
+  // some KDCs tag the AS reply part like the TGS reply part
+  const fields = getMessageType(buffer) === applicationTagNumbers.encryptedAsReplyPart ?
+    decodeApplication(buffer, applicationTagNumbers.encryptedAsReplyPart) :
+    decodeApplication(buffer, applicationTagNumbers.encryptedTgsReplyPart);
+
+  const startTime = derUtil.findContextSpecific(fields, 6);
+  const renewTill = derUtil.findContextSpecific(fields, 8);
+  const replyPart: EncryptedKdcReplyPart = {
+    key: decodeEncryptionKey(getField(fields, 0).content),
+    nonce: derUtil.decodeInteger(getField(fields, 2).content),
+    flags: decodeFlags(getField(fields, 4).content),
+    authTime: decodeKerberosTime(getField(fields, 5).content),
+    startTime: startTime ? decodeKerberosTime(startTime.content) : undefined,
+    endTime: decodeKerberosTime(getField(fields, 7).content),
+    renewTill: renewTill ? decodeKerberosTime(renewTill.content) : undefined,
+    serverRealm: derUtil.decodeString(getField(fields, 9).content),
+    serverName: decodePrincipalName(getField(fields, 10).content)
+  };
+  return replyPart;
+};
+
+export const decodeKerberosError = (buffer: Buffer) => {
+  const fields = decodeApplication(buffer, MessageType.Error);
+  const text = derUtil.findContextSpecific(fields, 11);
+  const data = derUtil.findContextSpecific(fields, 12);
+  const error: KerberosError = {
+    code: derUtil.decodeInteger(getField(fields, 6).content),
+    realm: derUtil.decodeString(getField(fields, 9).content),
+    serverName: decodePrincipalName(getField(fields, 10).content),
+    text: text ? derUtil.decodeString(text.content) : undefined,
+    data: data ? data.content : undefined
+  };
+  return error;
+};
+
+export const encodeAuthenticator = (authenticator: Authenticator) => {
+  return derUtil.encodeApplication(applicationTagNumbers.authenticator, encodeFields([
+    derUtil.encodeInteger(protocolVersion),
+    derUtil.encodeGeneralString(authenticator.clientRealm),
+    encodePrincipalName(authenticator.clientName),
+    authenticator.checksum ? encodeChecksum(authenticator.checksum) : undefined,
+    derUtil.encodeInteger(authenticator.microseconds),
+    encodeKerberosTime(authenticator.time),
+    authenticator.subkey ? encodeEncryptionKey(authenticator.subkey) : undefined,
+    typeof authenticator.sequenceNumber === "number" ? derUtil.encodeInteger(authenticator.sequenceNumber) : undefined
+  ]));
+};
+
+export const encodeApRequest = (options: number, ticket: Ticket, authenticator: EncryptedData) => {
+  return derUtil.encodeApplication(MessageType.ApReq, encodeFields([
+    derUtil.encodeInteger(protocolVersion),
+    derUtil.encodeInteger(MessageType.ApReq),
+    encodeFlags(options),
+    ticket.buffer,
+    encodeEncryptedData(authenticator)
+  ]));
+};
+
+export const decodeApReply = (buffer: Buffer) => {
+  const fields = decodeApplication(buffer, MessageType.ApRep);
+  return decodeEncryptedData(getField(fields, 2).content);
+};
+
+export const decodeEncryptedApReplyPart = (buffer: Buffer) => {
+  const fields = decodeApplication(buffer, applicationTagNumbers.encryptedApReplyPart);
+  const subkey = derUtil.findContextSpecific(fields, 2);
+  const sequenceNumber = derUtil.findContextSpecific(fields, 3);
+  const replyPart: EncryptedApReplyPart = {
+    time: decodeKerberosTime(getField(fields, 0).content),
+    microseconds: derUtil.decodeInteger(getField(fields, 1).content),
+    subkey: subkey ? decodeEncryptionKey(subkey.content) : undefined,
+    sequenceNumber: sequenceNumber ? derUtil.decodeInteger(sequenceNumber.content) : undefined
+  };
+  return replyPart;
+};
+
+// [RFC 4121] 4.1.1: the authenticator checksum carries the channel bindings hash and the context flags
+export const createGssChecksum = (flags: number) => {
+  const value = Buffer.alloc(24);
+  value.writeUInt32LE(16, 0);
+  value.writeUInt32LE(flags, 20);
+  const checksum: Checksum = {
+    type: ChecksumType.GssApi,
+    value
+  };
+  return checksum;
+};
+
+// [RFC 1964] 1.1: GSS-API framing of the Kerberos context tokens
+export const encodeGssToken = (tokenId: GssTokenId, token: Buffer) => {
+  const tokenIdBuffer = Buffer.alloc(2);
+  tokenIdBuffer.writeUInt16BE(tokenId, 0);
+  return derUtil.encodeApplication(0, Buffer.concat([
+    derUtil.encodeObjectIdentifier(MechanismType.Kerberos),
+    tokenIdBuffer,
+    token
+  ]));
+};
+
+export const decodeGssToken = (buffer: Buffer) => {
+  const element = derUtil.decodeElement(buffer);
+  if (!derUtil.isApplication(element, 0)) throw new Error("invalid_gss_token");
+
+  const mechanism = derUtil.decodeElement(element.content);
+  if (derUtil.decodeObjectIdentifier(mechanism.content) !== MechanismType.Kerberos) throw new Error("invalid_gss_token");
+
+  return {
+    tokenId: element.content.readUInt16BE(mechanism.size) as GssTokenId,
+    token: element.content.slice(mechanism.size + 2)
+  };
+};
+
+export const generateNonce = () => crypto.randomBytes(4).readUInt32BE(0) & 0x7fffffff;
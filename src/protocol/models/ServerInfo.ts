@@ -0,0 +1,28 @@
+import Cipher from "../smb2/Cipher";
+import Dialect from "../smb2/Dialect";
+import Capability from "../smb2/Capability";
+import SecurityMode from "../smb2/SecurityMode";
+import SigningAlgorithm from "../smb2/SigningAlgorithm";
+import { NegotiateContexts } from "../smb2/packets/Negotiate";
+
+export default interface ServerInfo {
+  dialect: Dialect;
+  dialectName: string;
+  serverGuid: string;
+  securityMode: SecurityMode;
+  signingEnabled: boolean;
+  signingRequired: boolean;
+  capabilities: Capability;
+  capabilityNames: string[];
+  maxTransactSize: number;
+  maxReadSize: number;
+  maxWriteSize: number;
+  systemTime: Date;
+  serverStartTime: Date;
+  securityBuffer: Buffer;
+  mechanismTypes: string[];
+  negotiateContexts: NegotiateContexts;
+  signingAlgorithm: SigningAlgorithm;
+  encryptionSupported: boolean;
+  cipher: Cipher;
+}
@@ -0,0 +1,7 @@
+enum AvFlag {
+  AccountAuthenticationConstrained = 1 << 0,
+  MessageIntegrityCodePresent = 1 << 1,
+  TargetNameUntrusted = 1 << 2
+}
+
+export default AvFlag;
@@ -1,22 +1,58 @@
 import crypto from "crypto";
 import desjs from "des.js";
 import jsmd4 from "js-md4";
+import AvId from "./AvId";
+import AvFlag from "./AvFlag";
 import NegotiateFlag from "./NegotiateFlag";
 
-enum AvId {
-  MsvAvEOL = 0x0000,
-  MsvAvNbComputerName = 0x0001,
-  MsvAvNbDomainName = 0x0002,
-  MsvAvDnsComputerName = 0x0003,
-  MsvAvDnsDomainName = 0x0004,
-  MsvAvDnsTreeName = 0x0005,
-  MsvAvFlags = 0x0006,
-  MsvAvTimestamp = 0x0007,
-  MsvAvRestrictions = 0x0008,
-  MsvAvTargetName = 0x0009,
-  MsvAvChannelBindings = 0x000A
+export interface AvPair {
+  id: AvId;
+  value: Buffer;
 }
 
+export interface Credential {
+  password?: string;
+  /**
+   * Precomputed NT hash that is used instead of the password
+   */
+  ntHash?: Buffer;
+}
+
+export interface ChallengeMessage {
+  targetName: string;
+  negotiateFlags: number;
+  serverChallenge: Buffer;
+  targetInfo: AvPair[];
+}
+
+export interface AuthenticationMessage {
+  negotiateFlags: number;
+  lmResponse: Buffer;
+  ntResponse: Buffer;
+  domain: string;
+  username: string;
+  hostname: string;
+  encryptedRandomSessionKey: Buffer;
+}
+
+const negotiationMessageHeaderSize = 0x28;
+const authenticationMessageHeaderSize = 0x58;
+const authenticationMessageMicOffset = 0x48;
+const messageSignatureVersion = 1;
+
+// [MS-NLMP] 2.2.2.10: Windows 10 with the current NTLMSSP revision
+const version = Buffer.from([0x0a, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x0f]);
+
+// [MS-NLMP] 3.4.5: magic constants for the signing and sealing key derivation
+const signingKeyMagicConstants = {
+  client: "session key to client-to-server signing key magic constant\0",
+  server: "session key to server-to-client signing key magic constant\0"
+};
+const sealingKeyMagicConstants = {
+  client: "session key to client-to-server sealing key magic constant\0",
+  server: "session key to server-to-client sealing key magic constant\0"
+};
+
 // Check if we should use NTLMv1
 const isNTLMv1 = (negotiateFlags: number): boolean => {
   return !(negotiateFlags & NegotiateFlag.ExtendedSessionSecurity);
@@ -33,28 +69,44 @@ const createLMv1Response = (password: string, serverChallenge: Buffer): Buffer =
   return createResponse(lmHash, serverChallenge);
 };
 
-const createTargetInfo = (hostname: string, domain: string): Buffer => {
-  // Calculate required buffer size
-  const hostnameLength = Buffer.byteLength(hostname, 'utf16le');
-  const domainLength = Buffer.byteLength(domain, 'utf16le');
-  // 4 bytes for each AvId+AvLen pair, plus string lengths, plus 4 bytes for EOL
-  const bufferSize = (4 + hostnameLength) + (4 + domainLength) + 4;
-  const buffer = Buffer.alloc(bufferSize);
+export const decodeTargetInfo = (buffer: Buffer) => {
+  const pairs: AvPair[] = [];
   let offset = 0;
-  // Add computer name
-  buffer.writeUInt16LE(AvId.MsvAvNbComputerName, offset);
-  buffer.writeUInt16LE(hostnameLength, offset + 2);
-  buffer.write(hostname, offset + 4, hostnameLength, 'utf16le');
-  offset += 4 + hostnameLength;
-  // Add domain name
-  buffer.writeUInt16LE(AvId.MsvAvNbDomainName, offset);
-  buffer.writeUInt16LE(domainLength, offset + 2);
-  buffer.write(domain, offset + 4, domainLength, 'utf16le');
-  offset += 4 + domainLength;
-  // Add terminator (MsvAvEOL)
-  buffer.writeUInt16LE(AvId.MsvAvEOL, offset);
-  buffer.writeUInt16LE(0, offset + 2);
-  return buffer;
+  while (offset + 4 <= buffer.length) {
+    const id: AvId = buffer.readUInt16LE(offset);
+    const length = buffer.readUInt16LE(offset + 2);
+    offset += 4;
+    if (id === AvId.MsvAvEOL) break;
+
+    pairs.push({
+      id,
+      value: buffer.slice(offset, offset + length)
+    });
+    offset += length;
+  }
+  return pairs;
+};
+
+export const encodeTargetInfo = (pairs: AvPair[]) => {
+  const buffers = pairs
+    .filter(x => x.id !== AvId.MsvAvEOL)
+    .concat({ id: AvId.MsvAvEOL, value: Buffer.alloc(0) })
+    .map(pair => {
+      const header = Buffer.alloc(4);
+      header.writeUInt16LE(pair.id, 0);
+      header.writeUInt16LE(pair.value.length, 2);
+      return Buffer.concat([header, pair.value]);
+    });
+  return Buffer.concat(buffers);
+};
+
+// [MS-NLMP] 3.1.5.1.2: the MIC is announced by the client in the echoed MsvAvFlags
+const setAvFlags = (pairs: AvPair[], avFlags: number) => {
+  const flagsPair = pairs.find(x => x.id === AvId.MsvAvFlags);
+  const value = Buffer.alloc(4);
+  value.writeUInt32LE(((flagsPair ? flagsPair.value.readUInt32LE(0) : 0) | avFlags) >>> 0, 0);
+  if (flagsPair) return pairs.map(x => x === flagsPair ? { id: x.id, value } : x);
+  return pairs.concat({ id: AvId.MsvAvFlags, value });
 };
 
 export const encodeNegotiationMessage = (h: string, d: string, forceNtlmVersion?: 'v1' | 'v2') => {
@@ -65,7 +117,7 @@ export const encodeNegotiationMessage = (h: string, d: string, forceNtlmVersion?
   const domainLength = Buffer.byteLength(domain, "ascii");
 
   let offset = 0;
-  const buffer = Buffer.alloc(32 + hostnameLength + domainLength);
+  const buffer = Buffer.alloc(negotiationMessageHeaderSize + hostnameLength + domainLength);
 
   buffer.write("NTLMSSP", offset, 7, "ascii");
   offset += 7;
@@ -78,7 +130,11 @@ export const encodeNegotiationMessage = (h: string, d: string, forceNtlmVersion?
   // Base negotiate flags common to both versions
   let negotiateFlags = NegotiateFlag.UnicodeEncoding |
                       NegotiateFlag.NTLMSessionSecurity |
-                      NegotiateFlag.AlwaysSign;
+                      NegotiateFlag.AlwaysSign |
+                      NegotiateFlag.Sign |
+                      NegotiateFlag.Seal |
+                      NegotiateFlag.Use128BitEncryption |
+                      NegotiateFlag.KeyExchange;
   // Add version-specific flags
   if (forceNtlmVersion === 'v2' || (!forceNtlmVersion && process.env.NODE_SMB2_DEFAULT_NTLM !== 'v1')) {
     // NTLMv2 flags - more secure
@@ -86,7 +142,7 @@ export const encodeNegotiationMessage = (h: string, d: string, forceNtlmVersion?
                      NegotiateFlag.TargetInfo |
                      NegotiateFlag.Version;
   }
-  buffer.writeUInt32LE(negotiateFlags, offset);
+  buffer.writeUInt32LE(negotiateFlags >>> 0, offset);
   offset += 4;
 
   buffer.writeUInt16LE(domainLength, offset);
@@ -94,7 +150,8 @@ export const encodeNegotiationMessage = (h: string, d: string, forceNtlmVersion?
   buffer.writeUInt16LE(domainLength, offset);
   offset += 2;
 
-  const domainOffset = 0x20 + hostnameLength;
+  const hostnameOffset = negotiationMessageHeaderSize;
+  const domainOffset = hostnameOffset + hostnameLength;
   buffer.writeUInt32LE(domainOffset, offset);
   offset += 4;
 
@@ -103,10 +160,13 @@ export const encodeNegotiationMessage = (h: string, d: string, forceNtlmVersion?
   buffer.writeUInt16LE(hostnameLength, offset);
   offset += 2;
 
-  buffer.writeUInt32LE(0x20, offset);
+  buffer.writeUInt32LE(hostnameOffset, offset);
   offset += 4;
 
-  buffer.write(hostname, 0x20, hostnameLength, "ascii");
+  if ((negotiateFlags & NegotiateFlag.Version) !== 0) version.copy(buffer, offset);
+  offset += 8;
+
+  buffer.write(hostname, hostnameOffset, hostnameLength, "ascii");
   buffer.write(domain, domainOffset, domainLength, "ascii");
 
   return buffer;
@@ -153,7 +213,7 @@ export const decodeNegotiationMessage = (buffer: Buffer) => {
   };
 };
 
-export const encodeChallengeMessage = (negotiateFlags: number) => {
+export const encodeChallengeMessage = (negotiateFlags: number, serverChallenge: Buffer = generateServerChallenge()) => {
   let offset = 0;
   const buffer = Buffer.alloc(64);
 
@@ -177,7 +237,7 @@ export const encodeChallengeMessage = (negotiateFlags: number) => {
   buffer.writeUInt32LE(negotiateFlags, offset);
   offset += 4;
 
-  generateServerChallenge().copy(new Uint8Array(buffer), offset);
+  serverChallenge.copy(buffer, offset);
   offset += 8;
 
   buffer.fill(0, offset, offset + 8);
@@ -217,39 +277,77 @@ export const decodeChallengeMessage = (buffer: Buffer) => {
 
   offset += 8; // Reserved
 
-  return serverChallenge;
+  // target info fields are absent from challenges of servers that do not support them
+  let targetInfo: AvPair[] = [];
+  if (buffer.length >= offset + 8) {
+    const targetInfoLength = buffer.readUInt16LE(offset);
+    offset += 2;
+
+    const targetInfoMaxLength = buffer.readUInt16LE(offset);
+    offset += 2;
+
+    const targetInfoOffset = buffer.readUInt32LE(offset);
+    offset += 4;
+
+    targetInfo = decodeTargetInfo(buffer.slice(targetInfoOffset, targetInfoOffset + targetInfoLength));
+  }
+
+  const targetName = buffer
+    .slice(targetNameOffset, targetNameOffset + targetNameLength)
+    .toString((negotiateFlags & NegotiateFlag.UnicodeEncoding) !== 0 ? "ucs2" : "ascii");
+
+  const challengeMessage: ChallengeMessage = {
+    targetName,
+    negotiateFlags,
+    serverChallenge,
+    targetInfo
+  };
+  return challengeMessage;
 };
 
 export const encodeAuthenticationMessage = (
   username: string,
   h: string,
   d: string,
-  serverChallenge: Buffer,
-  password: string,
-  negotiateFlags: number = 0,
+  negotiationMessage: Buffer,
+  challengeMessage: Buffer,
+  credential: Credential,
   forceNtlmVersion?: 'v1' | 'v2'
 ) => {
   const hostname = h.toUpperCase();
   const domain = d.toUpperCase();
-  const ntHash = createNtHash(password);
+  const challenge = decodeChallengeMessage(challengeMessage);
+  const serverChallenge = challenge.serverChallenge;
+  // [MS-NLMP] 3.1.5.1.2: only the options both sides agreed on are in effect
+  let negotiateFlags = (challenge.negotiateFlags & decodeNegotiationMessage(negotiationMessage).negotiateFlags) >>> 0;
+  // [MS-NLMP] 3.1.5.1.2: the user name and password are both empty for anonymous authentication
+  const anonymous = !username && !credential.password && !credential.ntHash;
+  const ntHash = credential.ntHash || createNtHash(credential.password || "");
   let ntResponse: Buffer;
   let lmResponse: Buffer;
+  let sessionBaseKey: Buffer;
+  let messageIntegrityCodeRequired = false;
   // Determine which NTLM version to use
   const useV1 = forceNtlmVersion === 'v1' ||
                (isNTLMv1(negotiateFlags) && forceNtlmVersion !== 'v2') ||
                (process.env.NODE_SMB2_DEFAULT_NTLM === 'v1' && !forceNtlmVersion);
-  if (useV1) {
+  if (anonymous) {
+    // there is no NT response and the LM response is a single zero byte
+    negotiateFlags = ((negotiateFlags | NegotiateFlag.Anonymous) & ~NegotiateFlag.KeyExchange) >>> 0;
+    ntResponse = Buffer.alloc(0);
+    lmResponse = Buffer.alloc(1);
+    sessionBaseKey = Buffer.alloc(16);
+  } else if (useV1) {
     // NTLMv1 mode (simpler, more compatible)
     console.log("Using NTLMv1 authentication");
     // Create padded hashes
-    const lmHash = Buffer.alloc(21);
-    createLmHash(password).copy(lmHash);
-    lmHash.fill(0x00, 16);
     const ntHashPadded = Buffer.alloc(21);
     ntHash.copy(ntHashPadded);
     ntHashPadded.fill(0x00, 16);
     ntResponse = createResponse(ntHashPadded, serverChallenge);
-    lmResponse = createResponse(lmHash, serverChallenge);
+    // [MS-NLMP] 3.3.1: the LM hash needs the password, without it the NT response is sent twice
+    lmResponse = typeof credential.password === "string" ? createLMv1Response(credential.password, serverChallenge) : ntResponse;
+    sessionBaseKey = createNtlmV1SessionBaseKey(ntHash);
   } else {
     // NTLMv2 mode (more secure, newer servers)
     console.log("Using NTLMv2 authentication");
@@ -257,41 +355,59 @@ export const encodeAuthenticationMessage = (
       // Per MS-NLMP spec: domain should be original case for NTLMv2 hash
       const ntlmv2Hash = createNtlmV2Hash(username, d, ntHash);
       const clientChallenge = crypto.randomBytes(8);
-      // Create timestamp (Windows file time format)
-      const timestamp = Buffer.alloc(8);
-      const now = new Date().getTime() + 11644473600000; // Convert to Windows file time
-      timestamp.writeBigUInt64LE(BigInt(now * 10000));
-      const targetInfo = createTargetInfo(hostname, domain);
-      ntResponse = createNtlmV2Response(ntlmv2Hash, serverChallenge, clientChallenge, timestamp, targetInfo);
-      lmResponse = createLMv2Response(ntlmv2Hash, serverChallenge, clientChallenge);
+      // [MS-NLMP] 3.1.5.1.2: the server time is used when supplied, which also requires the MIC
+      const timestampPair = challenge.targetInfo.find(x => x.id === AvId.MsvAvTimestamp);
+      messageIntegrityCodeRequired = !!timestampPair;
+      const timestamp = timestampPair ? timestampPair.value : createTimestamp();
+      const targetInfo = messageIntegrityCodeRequired ?
+        setAvFlags(challenge.targetInfo, AvFlag.MessageIntegrityCodePresent) :
+        challenge.targetInfo;
+      ntResponse = createNtlmV2Response(ntlmv2Hash, serverChallenge, clientChallenge, timestamp, encodeTargetInfo(targetInfo));
+      lmResponse = messageIntegrityCodeRequired ?
+        Buffer.alloc(24) :
+        createLMv2Response(ntlmv2Hash, serverChallenge, clientChallenge);
+      sessionBaseKey = createNtlmV2SessionBaseKey(ntlmv2Hash, ntResponse);
     } catch (err) {
       console.error("Error creating NTLMv2 response, falling back to NTLMv1:", err);
       // Fall back to NTLMv1 if NTLMv2 creation fails
-      const lmHash = Buffer.alloc(21);
-      createLmHash(password).copy(lmHash);
-      lmHash.fill(0x00, 16);
       const ntHashPadded = Buffer.alloc(21);
       ntHash.copy(ntHashPadded);
       ntHashPadded.fill(0x00, 16);
       ntResponse = createResponse(ntHashPadded, serverChallenge);
-      lmResponse = createResponse(lmHash, serverChallenge);
+      lmResponse = typeof credential.password === "string" ? createLMv1Response(credential.password, serverChallenge) : ntResponse;
+      sessionBaseKey = createNtlmV1SessionBaseKey(ntHash);
+      messageIntegrityCodeRequired = false;
     }
   }
 
+  // [MS-NLMP] 3.1.5.1.2: with key exchange the session key is random and sent encrypted with the key exchange key
+  const keyExchangeKey = sessionBaseKey;
+  let sessionKey = keyExchangeKey;
+  let encryptedRandomSessionKey = Buffer.alloc(0);
+  if (
+    (negotiateFlags & NegotiateFlag.KeyExchange) !== 0 &&
+    (negotiateFlags & (NegotiateFlag.Sign | NegotiateFlag.Seal)) !== 0
+  ) {
+    sessionKey = crypto.randomBytes(16);
+    encryptedRandomSessionKey = rc4(keyExchangeKey, sessionKey);
+  }
+
   const usernameLength = Buffer.byteLength(username, "ucs2");
   const hostnameLength = Buffer.byteLength(hostname, "ucs2");
   const domainLength = Buffer.byteLength(domain, "ucs2");
   const lmResponseLength = lmResponse.length;
   const ntResponseLength = ntResponse.length;
+  const encryptedRandomSessionKeyLength = encryptedRandomSessionKey.length;
 
-  const domainOffset = 0x40;
+  const domainOffset = authenticationMessageHeaderSize;
   const usernameOffset = domainOffset + domainLength;
   const hostnameOffset = usernameOffset + usernameLength;
   const lmResponseOffset = hostnameOffset + hostnameLength;
   const ntResponseOffset = lmResponseOffset + lmResponseLength;
+  const encryptedRandomSessionKeyOffset = ntResponseOffset + ntResponseLength;
 
   let offset = 0;
-  const buffer = Buffer.alloc(ntResponseOffset + ntResponseLength);
+  const buffer = Buffer.alloc(encryptedRandomSessionKeyOffset + encryptedRandomSessionKeyLength);
 
   buffer.write("NTLMSSP", offset, 7, "ascii");
   offset += 7;
@@ -336,16 +452,22 @@ export const encodeAuthenticationMessage = (
   buffer.writeUInt32LE(hostnameOffset, offset);
   offset += 4;
 
-  buffer.writeUInt16LE(0, offset);
+  buffer.writeUInt16LE(encryptedRandomSessionKeyLength, offset);
   offset += 2;
-  buffer.writeUInt16LE(0, offset);
+  buffer.writeUInt16LE(encryptedRandomSessionKeyLength, offset);
   offset += 2;
-  buffer.writeUInt32LE(0, offset);
+  buffer.writeUInt32LE(encryptedRandomSessionKeyOffset, offset);
   offset += 4;
 
   buffer.writeUInt32LE(negotiateFlags, offset);
   offset += 4;
 
+  if ((negotiateFlags & NegotiateFlag.Version) !== 0) version.copy(buffer, offset);
+  offset += 8;
+
+  // the MIC stays zeroed until it is computed over all three messages
+  offset += 16;
+
   // Write domain, username, hostname and responses
   buffer.write(domain, domainOffset, domainLength, "ucs2");
   buffer.write(username, usernameOffset, usernameLength, "ucs2");
@@ -353,8 +475,174 @@ export const encodeAuthenticationMessage = (
   // Copy responses safely to prevent buffer issues
   lmResponse.copy(buffer, lmResponseOffset, 0, lmResponseLength);
   ntResponse.copy(buffer, ntResponseOffset, 0, ntResponseLength);
+  encryptedRandomSessionKey.copy(buffer, encryptedRandomSessionKeyOffset);
 
-  return buffer;
+  if (messageIntegrityCodeRequired) {
+    crypto.createHmac("md5", sessionKey)
+      .update(Buffer.concat([negotiationMessage, challengeMessage, buffer]))
+      .digest()
+      .copy(buffer, authenticationMessageMicOffset);
+  }
+
+  return {
+    buffer,
+    sessionKey,
+    negotiateFlags
+  };
+};
+
+export const decodeAuthenticationMessage = (buffer: Buffer) => {
+  let offset = 0;
+
+  const protocol = buffer.slice(0, 7).toString("ascii");
+  if (
+    protocol !== "NTLMSSP" ||
+    buffer.readInt8(7) !== 0x00
+  ) throw new Error("ntlmssp_header_not_found");
+  offset += 8;
+
+  const type = buffer.readUInt32LE(offset);
+  if (type !== 0x03) throw new Error("ntlmssp_type_is_not_three");
+  offset += 4;
+
+  // LM, NT, domain, user, workstation and session key fields each hold a length, a maximum length and an offset
+  const fields: Buffer[] = [];
+  for (let index = 0; index < 6; index++) {
+    const fieldLength = buffer.readUInt16LE(offset);
+    const fieldOffset = buffer.readUInt32LE(offset + 4);
+    fields.push(buffer.slice(fieldOffset, fieldOffset + fieldLength));
+    offset += 8;
+  }
+  const [lmResponse, ntResponse, domain, username, hostname, encryptedRandomSessionKey] = fields;
+
+  const negotiateFlags = buffer.readUInt32LE(offset);
+  offset += 4;
+
+  // clients that leave the flags empty still send unicode strings
+  const encoding = (negotiateFlags & NegotiateFlag.OemEncoding) !== 0 && (negotiateFlags & NegotiateFlag.UnicodeEncoding) === 0 ?
+    "ascii" :
+    "ucs2";
+  const authenticationMessage: AuthenticationMessage = {
+    negotiateFlags,
+    lmResponse,
+    ntResponse,
+    domain: domain.toString(encoding),
+    username: username.toString(encoding),
+    hostname: hostname.toString(encoding),
+    encryptedRandomSessionKey
+  };
+  return authenticationMessage;
+};
+
+/**
+ * Verifies the NT response of the authentication message against the credential of the user,
+ * returning the session key of the client or nothing when the response does not match.
+ */
+export const verifyAuthenticationMessage = (
+  authenticationMessage: AuthenticationMessage,
+  serverChallenge: Buffer,
+  credential: Credential
+) => {
+  const { negotiateFlags, ntResponse, username, domain } = authenticationMessage;
+  const ntHash = credential.ntHash || createNtHash(credential.password || "");
+  let sessionBaseKey: Buffer;
+  if (ntResponse.length === 24) {
+    const expectedNtResponse = createNTLMv1Response(ntHash, serverChallenge);
+    if (!crypto.timingSafeEqual(ntResponse, expectedNtResponse)) return;
+    sessionBaseKey = createNtlmV1SessionBaseKey(ntHash);
+  } else if (ntResponse.length > 24) {
+    // [MS-NLMP] 3.3.2: NTProofStr = HMAC_MD5(ResponseKeyNT, ServerChallenge + temp), with the domain as sent by the client
+    const ntlmv2Hash = createNtlmV2Hash(username, domain, ntHash);
+    const ntProofStr = crypto.createHmac("md5", ntlmv2Hash)
+      .update(Buffer.concat([serverChallenge, ntResponse.slice(16)]))
+      .digest();
+    if (!crypto.timingSafeEqual(ntResponse.slice(0, 16), ntProofStr)) return;
+    sessionBaseKey = createNtlmV2SessionBaseKey(ntlmv2Hash, ntResponse);
+  } else {
+    return;
+  }
+
+  // [MS-NLMP] 3.2.5.1.2: with key exchange the client sent its random session key encrypted with the key exchange key
+  const keyExchangeKey = sessionBaseKey;
+  if (
+    (negotiateFlags & NegotiateFlag.KeyExchange) !== 0 &&
+    (negotiateFlags & (NegotiateFlag.Sign | NegotiateFlag.Seal)) !== 0
+  ) return rc4(keyExchangeKey, authenticationMessage.encryptedRandomSessionKey);
+  return keyExchangeKey;
+};
+
+/**
+ * Creates the NTLM message signature ([MS-NLMP] 3.4.4.2) that SPNEGO uses for its mechListMIC.
+ * The sealing key state is not kept between calls, so only the first message in each direction can be signed.
+ */
+export const createMessageSignature = (
+  sessionKey: Buffer,
+  negotiateFlags: number,
+  direction: 'client' | 'server',
+  sequenceNumber: number,
+  message: Buffer
+) => {
+  if ((negotiateFlags & NegotiateFlag.ExtendedSessionSecurity) === 0) throw new Error("extended_session_security_required");
+
+  const sequenceNumberBuffer = Buffer.alloc(4);
+  sequenceNumberBuffer.writeUInt32LE(sequenceNumber, 0);
+
+  const signingKey = createMd5Hash(Buffer.concat([sessionKey, Buffer.from(signingKeyMagicConstants[direction], "ascii")]));
+  let checksum = crypto.createHmac("md5", signingKey)
+    .update(Buffer.concat([sequenceNumberBuffer, message]))
+    .digest()
+    .slice(0, 8);
+  if ((negotiateFlags & NegotiateFlag.KeyExchange) !== 0) {
+    checksum = rc4(createSealingKey(sessionKey, negotiateFlags, direction), checksum);
+  }
+
+  const versionBuffer = Buffer.alloc(4);
+  versionBuffer.writeUInt32LE(messageSignatureVersion, 0);
+  return Buffer.concat([versionBuffer, checksum, sequenceNumberBuffer]);
+};
+
+// [MS-NLMP] 3.4.5.3: the session key is weakened unless 128 bit encryption was negotiated
+const createSealingKey = (sessionKey: Buffer, negotiateFlags: number, direction: 'client' | 'server') => {
+  const keyLength = (negotiateFlags & NegotiateFlag.Use128BitEncryption) !== 0 ?
+    16 :
+    (negotiateFlags & NegotiateFlag.Use56BitEncryption) !== 0 ? 7 : 5;
+  return createMd5Hash(Buffer.concat([
+    sessionKey.slice(0, keyLength),
+    Buffer.from(sealingKeyMagicConstants[direction], "ascii")
+  ]));
+};
+
+// Windows file time of the current date
+const createTimestamp = () => {
+  const timestamp = Buffer.alloc(8);
+  const now = new Date().getTime() + 11644473600000; // Convert to Windows file time
+  timestamp.writeBigUInt64LE(BigInt(now * 10000));
+  return timestamp;
+};
+
+const createMd5Hash = (buffer: Buffer): Buffer => {
+  return crypto.createHash("md5").update(buffer).digest();
+};
+
+// RC4 is no longer provided by OpenSSL 3, just like MD4 and DES
+const rc4 = (key: Buffer, data: Buffer): Buffer => {
+  const state = Array.from({ length: 256 }, (_, index) => index);
+  let j = 0;
+  for (let i = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+
+  const output = Buffer.alloc(data.length);
+  let x = 0;
+  let y = 0;
+  for (let index = 0; index < data.length; index++) {
+    x = (x + 1) & 0xff;
+    y = (y + state[x]) & 0xff;
+    [state[x], state[y]] = [state[y], state[x]];
+    output[index] = data[index] ^ state[(state[x] + state[y]) & 0xff];
+  }
+  return output;
 };
 
 // Helper for creating LMv2 response (simplified for compatibility)
@@ -457,7 +745,7 @@ const createLmHash = (p: string): Buffer => {
   passwordBytesPadded.fill("\0");
   let sourceEnd = 14;
   if (passwordBytes.length < 14) sourceEnd = passwordBytes.length;
-  passwordBytes.copy(new Uint8Array(passwordBytesPadded), 0, 0, sourceEnd);
+  passwordBytes.copy(passwordBytesPadded, 0, 0, sourceEnd);
 
   const firstPart = passwordBytesPadded.slice(0, 7);
   const secondPart = passwordBytesPadded.slice(7);
@@ -476,14 +764,28 @@ const createLmHash = (p: string): Buffer => {
   return Buffer.concat([new Uint8Array(firstPartEncrypted), new Uint8Array(secondPartEncrypted)]);
 };
 
-const createNtHash = (password: string): Buffer => {
-  const buf = Buffer.from(password, "utf16le");
+const createMd4Hash = (buffer: Buffer): Buffer => {
   const md4 = jsmd4.create();
-  md4.update(buf);
+  md4.update(buffer);
   return Buffer.from(md4.digest());
 };
 
-const createNtlmV2Hash = (username: string, domain: string, ntHash: Buffer): Buffer => {
+export const createNtHash = (password: string): Buffer => {
+  return createMd4Hash(Buffer.from(password, "utf16le"));
+};
+
+// [MS-NLMP] 3.3.1: without extended session security the key exchange key is the session base key
+const createNtlmV1SessionBaseKey = (ntHash: Buffer): Buffer => {
+  return createMd4Hash(ntHash);
+};
+
+// [MS-NLMP] 3.3.2: SessionBaseKey = HMAC_MD5(ResponseKeyNT, NTProofStr)
+const createNtlmV2SessionBaseKey = (ntlmv2Hash: Buffer, ntResponse: Buffer): Buffer => {
+  const hmac = crypto.createHmac('md5', ntlmv2Hash);
+  return hmac.update(ntResponse.slice(0, 16)).digest();
+};
+
+export const createNtlmV2Hash = (username: string, domain: string, ntHash: Buffer): Buffer => {
   // Per MS-NLMP spec: username should be uppercase, domain should be original case
   const identity = Buffer.from(username.toUpperCase() + domain, 'ucs2');
   const hmac = crypto.createHmac('md5', ntHash);
@@ -509,7 +811,7 @@ const createNtlmV2Response = (ntlmv2Hash: Buffer, serverChallenge: Buffer, clien
 const createResponse = (hash: Buffer, nonce: Buffer) => {
   const passHashPadded = Buffer.alloc(21);
   passHashPadded.fill("\0");
-  hash.copy(new Uint8Array(passHashPadded), 0, 0, hash.length);
+  hash.copy(passHashPadded, 0, 0, hash.length);
 
   const resArray = [];
 
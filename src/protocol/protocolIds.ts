@@ -14,4 +14,13 @@ export const smb2 = Buffer
     "M".charCodeAt(0),
     "B".charCodeAt(0)
   ])
-  .toString("hex");
\ No newline at end of file
+  .toString("hex");
+
+export const smb2Transform = Buffer
+  .from([
+    0xfd,
+    "S".charCodeAt(0),
+    "M".charCodeAt(0),
+    "B".charCodeAt(0)
+  ])
+  .toString("hex");
@@ -0,0 +1,9 @@
+enum Cipher {
+  None = 0x0000,
+  Aes128Ccm = 0x0001,
+  Aes128Gcm = 0x0002,
+  Aes256Ccm = 0x0003,
+  Aes256Gcm = 0x0004
+}
+
+export default Cipher;
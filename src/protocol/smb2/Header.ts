@@ -4,6 +4,9 @@ import StructureField from "../StructureField";
 import { protocolIdStructureField } from "../Packet";
 
 export const headerSize = 64;
+export const nextCommandOffset = 20;
+export const signatureOffset = 48;
+export const signatureSize = 16;
 
 export default interface Header {
   protocolId?: string;
@@ -17,8 +20,12 @@ export default interface Header {
   messageId?: bigint;
   clientId?: string;
   treeId?: number;
+  /**
+   * Replaces the client id and tree id in headers with the async flag
+   */
+  asyncId?: string;
   sessionId?: string;
-  signature?: number;
+  signature?: Buffer;
 }
 
 export type HeaderName = (
@@ -33,6 +40,7 @@ export type HeaderName = (
   "messageId" |
   "clientId" |
   "treeId" |
+  "asyncId" |
   "sessionId" |
   "signature"
 );
@@ -94,7 +102,27 @@ export const headerStructure: HeaderStructure = {
     size: 8
   },
   signature: {
-    type: Number,
+    type: Buffer,
     size: 16
   }
-};
\ No newline at end of file
+};
+
+// [MS-SMB2] 2.2.1.1: interim responses and requests sent on them identify the operation by an async id
+export const asyncHeaderStructure: HeaderStructure = {
+  protocolId: headerStructure.protocolId,
+  structureSize: headerStructure.structureSize,
+  creditCharge: headerStructure.creditCharge,
+  status: headerStructure.status,
+  type: headerStructure.type,
+  credit: headerStructure.credit,
+  flags: headerStructure.flags,
+  nextCommand: headerStructure.nextCommand,
+  messageId: headerStructure.messageId,
+  asyncId: {
+    type: String,
+    encoding: "hex",
+    size: 8
+  },
+  sessionId: headerStructure.sessionId,
+  signature: headerStructure.signature
+};
@@ -0,0 +1,9 @@
+enum OplockLevel {
+  None = 0x00,
+  II = 0x01,
+  Exclusive = 0x08,
+  Batch = 0x09,
+  Lease = 0xff
+}
+
+export default OplockLevel;
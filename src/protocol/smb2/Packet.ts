@@ -1,9 +1,15 @@
 import Structure from "../Structure";
+import ProtocolPacket from "../Packet";
 import * as packets from "./packets";
 import HeaderFlag from "./HeaderFlag";
 import PacketType from "./PacketType";
 import * as structureUtil from "../structureUtil";
-import Header, { headerStructure, headerSize } from "./Header";
+import Header, { headerStructure, asyncHeaderStructure, headerSize, nextCommandOffset } from "./Header";
+
+// [MS-SMB2] 3.2.4.1.4: requests after the first one of a related compound use this file id for the file opened before
+export const relatedFileId = "ffffffffffffffffffffffffffffffff";
+
+const compoundAlignment = 8;
 
 export default class Packet {
   static getPacketTypeName(packetType: PacketType) {
@@ -29,19 +35,49 @@ export default class Packet {
   }
 
   static serialize(header: Header, body: any) {
+    return ProtocolPacket.serializeChunk(Packet.serializeMessage(header, body));
+  }
+
+  static serializeMessage(header: Header, body: any) {
     const structure = Packet.getStructure(header);
 
     const headerBuffer = Packet.serializeHeader(header);
     const bodyBuffer = structureUtil.serializeStructure(structure, body);
 
-    const buffer = Buffer.concat([headerBuffer, bodyBuffer]);
-    const prefixedBuffer = Buffer.allocUnsafe(buffer.length + 4);
-    prefixedBuffer.writeUInt8(0x00, 0);
-    prefixedBuffer.writeUInt8((0xff0000 & buffer.length) >> 16, 1);
-    prefixedBuffer.writeUInt16BE(0xffff & buffer.length, 2);
-    buffer.copy(prefixedBuffer, 4, 0, buffer.length);
+    return Buffer.concat([headerBuffer, bodyBuffer]);
+  }
+
+  /**
+   * Serializes the messages of a compound, padding each but the last to 8 bytes and pointing its next command at the following one.
+   */
+  static serializeCompound(messages: { header: Header, body: any }[]) {
+    return messages.map(({ header, body }, index) => {
+      const buffer = Packet.serializeMessage(header, body);
+      if (index === messages.length - 1) return buffer;
+
+      const paddingLength = (compoundAlignment - buffer.length % compoundAlignment) % compoundAlignment;
+      const paddedBuffer = Buffer.concat([buffer, Buffer.alloc(paddingLength)]);
+      header.nextCommand = paddedBuffer.length;
+      paddedBuffer.writeUInt32LE(header.nextCommand, nextCommandOffset);
+      return paddedBuffer;
+    });
+  }
+
+  /**
+   * Splits a compound into its messages, each including the padding covered by its signature.
+   */
+  static splitCompound(buffer: Buffer) {
+    const messages: Buffer[] = [];
+    while (true) {
+      const nextCommand = buffer.readUInt32LE(nextCommandOffset);
+      if (nextCommand === 0 || nextCommand >= buffer.length) {
+        messages.push(buffer);
+        return messages;
+      }
 
-    return prefixedBuffer;
+      messages.push(buffer.slice(0, nextCommand));
+      buffer = buffer.slice(nextCommand);
+    }
   }
 
   static parse(buffer: Buffer) {
@@ -60,7 +96,8 @@ export default class Packet {
   }
 
   static parseHeader(buffer: Buffer) {
-    const header = structureUtil.parseStructure(buffer, headerStructure) as Header;
+    let header = structureUtil.parseStructure(buffer, headerStructure) as Header;
+    if ((header.flags & HeaderFlag.Async) !== 0) header = structureUtil.parseStructure(buffer, asyncHeaderStructure) as Header;
     const bodyBuffer = buffer.slice(headerSize);
     return {
       header,
@@ -69,6 +106,9 @@ export default class Packet {
   }
 
   static serializeHeader(header: Header) {
-    return structureUtil.serializeStructure(headerStructure, header);
+    const structure = (header.flags & HeaderFlag.Async) !== 0 ?
+      asyncHeaderStructure :
+      headerStructure;
+    return structureUtil.serializeStructure(structure, header);
   }
 }
\ No newline at end of file
@@ -5,6 +5,8 @@ import ProtocolRequest from "../Request";
 export default class Request extends ProtocolRequest<Header> {
   typeName: string;
   data: any;
+  messageBuffer?: Buffer;
+  encrypted: boolean = false;
 
   constructor(header: Header, body?: any) {
     super(header, body);
@@ -18,7 +20,9 @@ export default class Request extends ProtocolRequest<Header> {
 
   static parse(buffer: Buffer) {
     const { header, body } = Packet.parse(buffer);
-    return new Request(header, body);
+    const request = new Request(header, body);
+    request.messageBuffer = buffer;
+    return request;
   }
 
   serialize() {
@@ -6,6 +6,8 @@ import ProtocolResponse from "../Response";
 export default class Response extends ProtocolResponse<Header> {
   typeName: string;
   data: any;
+  messageBuffer?: Buffer;
+  encrypted: boolean = false;
 
   constructor(header: Header, body?: any) {
     super(header, body);
@@ -21,7 +23,9 @@ export default class Response extends ProtocolResponse<Header> {
 
   static parse(buffer: Buffer) {
     const { header, body } = Packet.parse(buffer);
-    return new Response(header, body);
+    const response = new Response(header, body);
+    response.messageBuffer = buffer;
+    return response;
   }
 
   serialize() {
@@ -0,0 +1,6 @@
+enum SecurityMode {
+  SigningEnabled = 0x0001,
+  SigningRequired = 0x0002
+}
+
+export default SecurityMode;
\ No newline at end of file
@@ -0,0 +1,7 @@
+enum SessionFlag {
+  IsGuest = 0x0001,
+  IsNull = 0x0002,
+  EncryptData = 0x0004
+}
+
+export default SessionFlag;
@@ -0,0 +1,16 @@
+enum ShareFlag {
+  DfsShare = 0x00000001,
+  DfsRoot = 0x00000002,
+  RestrictExclusiveOpens = 0x00000100,
+  ForceSharedDelete = 0x00000200,
+  AllowNamespaceCaching = 0x00000400,
+  AccessBasedDirectoryEnumeration = 0x00000800,
+  ForceLevelIIOplock = 0x00001000,
+  EnableHashV1 = 0x00002000,
+  EnableHashV2 = 0x00004000,
+  EncryptData = 0x00008000,
+  IdentityRemoting = 0x00040000,
+  CompressData = 0x00100000
+}
+
+export default ShareFlag;
@@ -0,0 +1,7 @@
+enum SigningAlgorithm {
+  HmacSha256 = 0x0000,
+  AesCmac = 0x0001,
+  AesGmac = 0x0002
+}
+
+export default SigningAlgorithm;
@@ -1,10 +1,27 @@
 enum StatusCode {
   Success = 0x00000000,
   Pending = 0x00000103,
+  NotifyCleanup = 0x0000010b,
+  NotifyEnumDir = 0x0000010c,
+  NoMoreFiles = 0x80000006,
+  NoSuchFile = 0xc000000f,
+  EndOfFile = 0xc0000011,
   MoreProcessingRequired = 0xc0000016,
+  AccessDenied = 0xc0000022,
+  ObjectNameInvalid = 0xc0000033,
   FileNameNotFound = 0xc0000034,
+  ObjectNameCollision = 0xc0000035,
   FilePathNotFound = 0xc000003a,
+  FileLockConflict = 0xc0000054,
+  DeletePending = 0xc0000056,
+  LogonFailure = 0xc000006d,
+  FileIsADirectory = 0xc00000ba,
+  DirectoryNotEmpty = 0xc0000101,
+  NotADirectory = 0xc0000103,
+  Cancelled = 0xc0000120,
+  CannotDelete = 0xc0000121,
   FileClosed = 0xc0000128,
+  NetworkSessionExpired = 0xc000035c,
   SharingViolation = 0xc0000043 // Status code for "Sharing Violation - File is in use by another process"
 }
 
@@ -0,0 +1,69 @@
+import StructureField from "../StructureField";
+import * as protocolIds from "../protocolIds";
+
+export const transformHeaderSize = 52;
+// the signature and protocol id are not part of the authenticated data
+export const transformHeaderAuthenticatedOffset = 20;
+
+export enum TransformHeaderFlag {
+  Encrypted = 0x0001
+}
+
+export default interface TransformHeader {
+  protocolId?: string;
+  signature?: Buffer;
+  nonce?: Buffer;
+  originalMessageSize?: number;
+  reserved?: number;
+  flags?: number;
+  sessionId?: string;
+}
+
+export type TransformHeaderName = (
+  "protocolId" |
+  "signature" |
+  "nonce" |
+  "originalMessageSize" |
+  "reserved" |
+  "flags" |
+  "sessionId"
+);
+
+export type TransformHeaderStructure = {
+  [key in TransformHeaderName]?: StructureField;
+};
+
+export const transformHeaderStructure: TransformHeaderStructure = {
+  protocolId: {
+    type: String,
+    encoding: "hex",
+    size: 4,
+    defaultValue: protocolIds.smb2Transform
+  },
+  signature: {
+    type: Buffer,
+    size: 16
+  },
+  nonce: {
+    type: Buffer,
+    size: 16
+  },
+  originalMessageSize: {
+    type: Number,
+    size: 4
+  },
+  reserved: {
+    type: Number,
+    size: 2
+  },
+  flags: {
+    type: Number,
+    size: 2,
+    defaultValue: TransformHeaderFlag.Encrypted
+  },
+  sessionId: {
+    type: String,
+    encoding: "hex",
+    size: 8
+  }
+};
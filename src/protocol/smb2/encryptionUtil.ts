@@ -0,0 +1,96 @@
+import crypto from "crypto";
+import Cipher from "./Cipher";
+import * as structureUtil from "../structureUtil";
+import TransformHeader, {
+  transformHeaderStructure,
+  transformHeaderSize,
+  transformHeaderAuthenticatedOffset
+} from "./TransformHeader";
+
+const authTagLength = 16;
+const nonceSize = 16;
+
+const getCipherAlgorithm = (cipher: Cipher) => {
+  switch (cipher) {
+    case Cipher.Aes128Ccm:
+      return "aes-128-ccm";
+    case Cipher.Aes128Gcm:
+      return "aes-128-gcm";
+    case Cipher.Aes256Ccm:
+      return "aes-256-ccm";
+    case Cipher.Aes256Gcm:
+      return "aes-256-gcm";
+    default:
+      throw new Error(`cipher_not_supported: ${cipher}`);
+  }
+};
+
+const isCcm = (cipher: Cipher) => cipher === Cipher.Aes128Ccm || cipher === Cipher.Aes256Ccm;
+
+// [MS-SMB2] 2.2.41: CCM uses the first 11 bytes of the nonce field, GCM the first 12
+const getNonceLength = (cipher: Cipher) => isCcm(cipher) ? 11 : 12;
+
+export const getKeyLength = (cipher: Cipher) => {
+  return cipher === Cipher.Aes256Ccm || cipher === Cipher.Aes256Gcm ?
+    256 :
+    128;
+};
+
+export const parseTransformHeader = (message: Buffer) => {
+  return structureUtil.parseStructure(message.slice(0, transformHeaderSize), transformHeaderStructure) as TransformHeader;
+};
+
+export const encrypt = (message: Buffer, sessionId: string, key: Buffer, cipher: Cipher) => {
+  const nonce = Buffer.alloc(nonceSize);
+  crypto.randomBytes(getNonceLength(cipher)).copy(nonce);
+
+  const transformHeaderBuffer = structureUtil.serializeStructure(transformHeaderStructure, {
+    signature: Buffer.alloc(authTagLength),
+    nonce,
+    originalMessageSize: message.length,
+    sessionId
+  });
+  const authenticatedData = transformHeaderBuffer.slice(transformHeaderAuthenticatedOffset);
+
+  const iv = nonce.slice(0, getNonceLength(cipher));
+  let encryptedMessage: Buffer;
+  let authTag: Buffer;
+  if (isCcm(cipher)) {
+    const ccmCipher = crypto.createCipheriv(getCipherAlgorithm(cipher) as crypto.CipherCCMTypes, key, iv, { authTagLength });
+    ccmCipher.setAAD(authenticatedData, { plaintextLength: message.length });
+    encryptedMessage = Buffer.concat([ccmCipher.update(message), ccmCipher.final()]);
+    authTag = ccmCipher.getAuthTag();
+  } else {
+    const gcmCipher = crypto.createCipheriv(getCipherAlgorithm(cipher) as crypto.CipherGCMTypes, key, iv);
+    gcmCipher.setAAD(authenticatedData);
+    encryptedMessage = Buffer.concat([gcmCipher.update(message), gcmCipher.final()]);
+    authTag = gcmCipher.getAuthTag();
+  }
+
+  authTag.copy(transformHeaderBuffer, 4);
+  return Buffer.concat([transformHeaderBuffer, encryptedMessage]);
+};
+
+export const decrypt = (message: Buffer, key: Buffer, cipher: Cipher) => {
+  const transformHeader = parseTransformHeader(message);
+  const authenticatedData = message.slice(transformHeaderAuthenticatedOffset, transformHeaderSize);
+  const encryptedMessage = message.slice(transformHeaderSize);
+  if (encryptedMessage.length !== transformHeader.originalMessageSize) throw new Error("invalid_transform_message_size");
+
+  const iv = transformHeader.nonce.slice(0, getNonceLength(cipher));
+  try {
+    if (isCcm(cipher)) {
+      const ccmDecipher = crypto.createDecipheriv(getCipherAlgorithm(cipher) as crypto.CipherCCMTypes, key, iv, { authTagLength });
+      ccmDecipher.setAuthTag(transformHeader.signature);
+      ccmDecipher.setAAD(authenticatedData, { plaintextLength: encryptedMessage.length });
+      return Buffer.concat([ccmDecipher.update(encryptedMessage), ccmDecipher.final()]);
+    }
+
+    const gcmDecipher = crypto.createDecipheriv(getCipherAlgorithm(cipher) as crypto.CipherGCMTypes, key, iv);
+    gcmDecipher.setAuthTag(transformHeader.signature);
+    gcmDecipher.setAAD(authenticatedData);
+    return Buffer.concat([gcmDecipher.update(encryptedMessage), gcmDecipher.final()]);
+  } catch (err) {
+    throw new Error("decryption_failed");
+  }
+};
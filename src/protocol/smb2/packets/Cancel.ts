@@ -0,0 +1,30 @@
+import Structure from "../../Structure";
+
+const requestStructure: Structure = {
+  structureSize: {
+    type: Number,
+    size: 2,
+    defaultValue: 4
+  },
+  reserved: {
+    type: Number,
+    size: 2
+  }
+};
+
+// [MS-SMB2] 3.3.5.16: servers never respond to cancel requests, the canceled request completes instead
+const responseStructure: Structure = {
+  structureSize: {
+    type: Number,
+    size: 2
+  },
+  reserved: {
+    type: Number,
+    size: 2
+  }
+};
+
+export default {
+  requestStructure,
+  responseStructure
+};
@@ -1,12 +1,247 @@
 import Structure from "../../Structure";
+import * as structureUtil from "../../structureUtil";
+import type StatusCode from "../StatusCode";
 import ShareAccessType from "../ShareAccessType";
 import CreateDispositionType from "../CreateDispositionType";
 
 export enum CreateOptions {
   None = 0,
-  Directory = 1 << 0
+  Directory = 1 << 0,
+  WriteThrough = 1 << 1,
+  SequentialOnly = 1 << 2,
+  NonDirectoryFile = 1 << 6,
+  OpenReparsePoint = 1 << 21
 }
 
+export enum CreateContextName {
+  DurableHandleRequest = "DHnQ",
+  DurableHandleReconnect = "DHnC",
+  DurableHandleRequestV2 = "DH2Q",
+  DurableHandleReconnectV2 = "DH2C",
+  MaximalAccessRequest = "MxAc",
+  QueryOnDiskId = "QFid",
+  AllocationSize = "AlSi",
+  TimewarpToken = "TWrp"
+}
+
+export enum DurableHandleFlag {
+  None = 0,
+  Persistent = 0x00000002
+}
+
+export interface CreateContext {
+  name: string;
+  data: Buffer;
+}
+
+/**
+ * Asks for the access the user could be granted on the file, optionally as of the timestamp
+ */
+export interface MaximalAccessRequest {
+  name: CreateContextName.MaximalAccessRequest;
+  timestamp?: Date;
+}
+
+/**
+ * Asks for the id of the file on disk and the id of its volume
+ */
+export interface QueryOnDiskIdRequest {
+  name: CreateContextName.QueryOnDiskId;
+}
+
+/**
+ * Reserves space for a file the open creates or overwrites
+ */
+export interface AllocationSizeRequest {
+  name: CreateContextName.AllocationSize;
+  allocationSize: bigint;
+}
+
+/**
+ * Opens the previous version of the file as of the timestamp
+ */
+export interface TimewarpTokenRequest {
+  name: CreateContextName.TimewarpToken;
+  timestamp: Date;
+}
+
+export type CreateContextRequest =
+  MaximalAccessRequest |
+  QueryOnDiskIdRequest |
+  AllocationSizeRequest |
+  TimewarpTokenRequest |
+  CreateContext;
+
+export interface MaximalAccessResponse {
+  queryStatus: StatusCode;
+  maximalAccess: number;
+}
+
+export interface OnDiskIdResponse {
+  diskFileId: bigint;
+  volumeId: bigint;
+}
+
+export interface CreateContextResponse {
+  maximalAccess?: MaximalAccessResponse;
+  onDiskId?: OnDiskIdResponse;
+  /**
+   * Every context of the response, including the ones without a parsed counterpart
+   */
+  createContexts: CreateContext[];
+}
+
+export interface DurableHandleResponseV2 {
+  timeout: number;
+  flags: DurableHandleFlag;
+}
+
+// [MS-SMB2] 2.2.13: the name follows the fixed part of the request
+export const nameOffset = 0x0078;
+
+const createContextAlignment = 8;
+const createContextHeaderSize = 16;
+
+const align = (offset: number) => Math.ceil(offset / createContextAlignment) * createContextAlignment;
+
+/**
+ * [MS-SMB2] 2.2.13.2: serializes create contexts chained by their next offset, each starting on an 8 byte boundary with its data aligned after the name.
+ */
+export const serializeCreateContexts = (createContexts: CreateContext[]) => {
+  const buffers = createContexts.map(({ name, data }, index) => {
+    const nameBuffer = Buffer.from(name, "ascii");
+    const dataOffset = data.length > 0 ? align(createContextHeaderSize + nameBuffer.length) : 0;
+    const length = data.length > 0 ? dataOffset + data.length : createContextHeaderSize + nameBuffer.length;
+    const last = index === createContexts.length - 1;
+
+    const buffer = Buffer.alloc(last ? length : align(length));
+    buffer.writeUInt32LE(last ? 0 : buffer.length, 0);
+    buffer.writeUInt16LE(createContextHeaderSize, 4);
+    buffer.writeUInt16LE(nameBuffer.length, 6);
+    buffer.writeUInt16LE(dataOffset, 10);
+    buffer.writeUInt32LE(data.length, 12);
+    nameBuffer.copy(buffer, createContextHeaderSize);
+    data.copy(buffer, dataOffset);
+    return buffer;
+  });
+  return Buffer.concat(buffers);
+};
+
+export const parseCreateContexts = (buffer: Buffer) => {
+  // the offsets count from the start of the context, before the next offset the entries start after
+  return structureUtil.parseList<CreateContext>(buffer, entryBuffer => {
+    const nameOffset = entryBuffer.readUInt16LE(0) - 4;
+    const nameLength = entryBuffer.readUInt16LE(2);
+    const dataOffset = entryBuffer.readUInt16LE(6) - 4;
+    const dataLength = entryBuffer.readUInt32LE(8);
+    return {
+      name: entryBuffer.slice(nameOffset, nameOffset + nameLength).toString("ascii"),
+      data: dataLength > 0 ?
+        entryBuffer.slice(dataOffset, dataOffset + dataLength) :
+        Buffer.alloc(0)
+    };
+  });
+};
+
+/**
+ * Returns the request fields for the name and create contexts, which follow the name and its 2 reserved bytes on the next 8 byte boundary.
+ */
+export const serializeNameAndCreateContexts = (name: string, createContexts: CreateContext[] = []) => {
+  const buffer = Buffer.from(name, "ucs2");
+  const nameEndOffset = nameOffset + buffer.length + 2;
+  if (createContexts.length === 0) {
+    return {
+      buffer,
+      nameOffset,
+      createContextsOffset: nameEndOffset,
+      createContextsLength: 0
+    };
+  }
+
+  const createContextsOffset = align(nameEndOffset);
+  const createContextsBuffer = serializeCreateContexts(createContexts);
+  return {
+    buffer,
+    nameOffset,
+    createContextsOffset,
+    createContextsLength: createContextsBuffer.length,
+    createContexts: Buffer.concat([Buffer.alloc(createContextsOffset - nameEndOffset), createContextsBuffer])
+  };
+};
+
+export const serializeCreateContextRequest = (createContextRequest: CreateContextRequest): CreateContext => {
+  if ("data" in createContextRequest) return createContextRequest;
+
+  switch (createContextRequest.name) {
+    case CreateContextName.MaximalAccessRequest:
+      return {
+        name: createContextRequest.name,
+        data: createContextRequest.timestamp ?
+          structureUtil.serializeDate(createContextRequest.timestamp) :
+          Buffer.alloc(0)
+      };
+    case CreateContextName.QueryOnDiskId:
+      return { name: createContextRequest.name, data: Buffer.alloc(0) };
+    case CreateContextName.AllocationSize: {
+      const data = Buffer.alloc(8);
+      data.writeBigUInt64LE(createContextRequest.allocationSize);
+      return { name: createContextRequest.name, data };
+    }
+    case CreateContextName.TimewarpToken:
+      return { name: createContextRequest.name, data: structureUtil.serializeDate(createContextRequest.timestamp) };
+  }
+};
+
+export const parseCreateContextResponse = (buffer: Buffer) => {
+  const createContexts = parseCreateContexts(buffer);
+  const createContextResponse: CreateContextResponse = { createContexts };
+
+  for (const { name, data } of createContexts) {
+    if (name === CreateContextName.MaximalAccessRequest) {
+      createContextResponse.maximalAccess = {
+        queryStatus: data.readUInt32LE(0),
+        maximalAccess: data.readUInt32LE(4)
+      };
+    } else if (name === CreateContextName.QueryOnDiskId) {
+      createContextResponse.onDiskId = {
+        diskFileId: data.readBigUInt64LE(0),
+        volumeId: data.readBigUInt64LE(8)
+      };
+    }
+  }
+
+  return createContextResponse;
+};
+
+// [MS-SMB2] 2.2.13.2.3: the durable handle request carries 16 reserved bytes
+export const serializeDurableHandleRequest = () => Buffer.alloc(16);
+
+export const serializeDurableHandleReconnect = (fileId: string) => Buffer.from(fileId, "hex");
+
+export const serializeDurableHandleRequestV2 = (timeout: number, flags: DurableHandleFlag, createGuid: Buffer) => {
+  const buffer = Buffer.alloc(32);
+  buffer.writeUInt32LE(timeout, 0);
+  buffer.writeUInt32LE(flags, 4);
+  createGuid.copy(buffer, 16);
+  return buffer;
+};
+
+export const serializeDurableHandleReconnectV2 = (fileId: string, createGuid: Buffer, flags: DurableHandleFlag) => {
+  const buffer = Buffer.alloc(36);
+  Buffer.from(fileId, "hex").copy(buffer, 0);
+  createGuid.copy(buffer, 16);
+  buffer.writeUInt32LE(flags, 32);
+  return buffer;
+};
+
+export const parseDurableHandleResponseV2 = (buffer: Buffer) => {
+  const durableHandleResponse: DurableHandleResponseV2 = {
+    timeout: buffer.readUInt32LE(0),
+    flags: buffer.readUInt32LE(4)
+  };
+  return durableHandleResponse;
+};
+
 const requestStructure: Structure = {
   structureSize: {
     type: Number,
@@ -86,10 +321,9 @@ const requestStructure: Structure = {
     size: 2,
     defaultValue: 0x4200
   },
+  // padding to the create contexts followed by the contexts, as the create contexts length leaves out the padding
   createContexts: {
-    type: Number,
-    sizeFieldName: "createContextsLength",
-    defaultValue: ""
+    type: Buffer
   }
 };
 
@@ -1,5 +1,10 @@
 import Structure from "../../Structure";
+import Cipher from "../Cipher";
+import Dialect from "../Dialect";
 import Capability from "../Capability";
+import SecurityMode from "../SecurityMode";
+import { headerSize } from "../Header";
+import SigningAlgorithm from "../SigningAlgorithm";
 
 const requestStructure: Structure = {
   structureSize: {
@@ -29,24 +34,37 @@ const requestStructure: Structure = {
     type: Number,
     size: 16
   },
-  clientStartTime: {
+  negotiateContextOffset: {
     type: Number,
-    size: 8
+    size: 4
+  },
+  negotiateContextCount: {
+    type: Number,
+    size: 2
+  },
+  reserved2: {
+    type: Number,
+    size: 2
   },
   dialects: {
     type: Number,
     countFieldName: "dialectCount",
     size: 2
+  },
+  negotiateContextList: {
+    type: Buffer
   }
 };
 
 export interface RequestBody {
   structureSize?: number;
-  dialects: number[];
-  securityMode?: number;
-  capabilities: Capability;
-  clientGuid: string;
-  clientStartDate: Date;
+  dialects: Dialect[];
+  securityMode?: SecurityMode;
+  capabilities?: Capability;
+  clientGuid: Buffer;
+  negotiateContextOffset?: number;
+  negotiateContextCount?: number;
+  negotiateContextList?: Buffer;
 };
 
 const responseStructure: Structure = {
@@ -62,12 +80,12 @@ const responseStructure: Structure = {
     type: Number,
     size: 2
   },
-  reserved: {
+  negotiateContextCount: {
     type: Number,
     size: 2
   },
   serverGuid: {
-    type: Number,
+    type: Buffer,
     size: 16
   },
   capabilities: {
@@ -76,22 +94,25 @@ const responseStructure: Structure = {
   },
   maxTransactSize: {
     type: Number,
+    signedness: "Unsigned",
     size: 4
   },
   maxReadSize: {
     type: Number,
+    signedness: "Unsigned",
     size: 4
   },
   maxWriteSize: {
     type: Number,
+    signedness: "Unsigned",
     size: 4
   },
   systemTime: {
-    type: Number,
+    type: Buffer,
     size: 8
   },
   serverStartTime: {
-    type: Number,
+    type: Buffer,
     size: 8
   },
   securityBufferOffset: {
@@ -102,14 +123,249 @@ const responseStructure: Structure = {
     type: Number,
     size: 2
   },
-  reserved2: {
+  negotiateContextOffset: {
     type: Number,
     size: 4
   },
   buffer: {
     type: Buffer,
     sizeFieldName: "securityBufferLength"
+  },
+  negotiateContextList: {
+    type: Buffer
+  }
+};
+
+export interface ResponseBody {
+  structureSize?: number;
+  securityMode: SecurityMode;
+  dialectRevision: Dialect;
+  negotiateContextCount?: number;
+  serverGuid: Buffer;
+  capabilities: Capability;
+  maxTransactSize: number;
+  maxReadSize: number;
+  maxWriteSize: number;
+  systemTime: Buffer;
+  serverStartTime: Buffer;
+  securityBufferOffset?: number;
+  securityBufferLength?: number;
+  negotiateContextOffset?: number;
+  buffer: Buffer;
+  negotiateContextList?: Buffer;
+};
+
+export enum NegotiateContextType {
+  PreauthIntegrityCapabilities = 0x0001,
+  EncryptionCapabilities = 0x0002,
+  CompressionCapabilities = 0x0003,
+  NetnameNegotiateContextId = 0x0005,
+  TransportCapabilities = 0x0006,
+  RdmaTransformCapabilities = 0x0007,
+  SigningCapabilities = 0x0008
+}
+
+export enum HashAlgorithm {
+  Sha512 = 0x0001
+}
+
+export enum CompressionAlgorithm {
+  None = 0x0000,
+  Lznt1 = 0x0001,
+  Lz77 = 0x0002,
+  Lz77Huffman = 0x0003,
+  PatternV1 = 0x0004,
+  Lz4 = 0x0005
+}
+
+export enum CompressionFlags {
+  None = 0x00000000,
+  Chained = 0x00000001
+}
+
+export interface PreauthIntegrityCapabilities {
+  hashAlgorithms: HashAlgorithm[];
+  salt: Buffer;
+}
+
+export interface EncryptionCapabilities {
+  ciphers: Cipher[];
+}
+
+export interface CompressionCapabilities {
+  compressionAlgorithms: CompressionAlgorithm[];
+  flags?: CompressionFlags;
+}
+
+export interface SigningCapabilities {
+  signingAlgorithms: SigningAlgorithm[];
+}
+
+export interface NegotiateContexts {
+  preauthIntegrityCapabilities?: PreauthIntegrityCapabilities;
+  encryptionCapabilities?: EncryptionCapabilities;
+  compressionCapabilities?: CompressionCapabilities;
+  netname?: string;
+  signingCapabilities?: SigningCapabilities;
+}
+
+const negotiateContextHeaderSize = 8;
+const requestFixedSize = 36;
+const responseFixedSize = 64;
+
+export const getRequestNegotiateContextListOffset = (dialectCount: number) => {
+  return headerSize + requestFixedSize + dialectCount * 2;
+};
+
+export const getResponseNegotiateContextListOffset = (securityBufferLength: number) => {
+  return headerSize + responseFixedSize + securityBufferLength;
+};
+
+const alignOffset = (offset: number) => (offset + 7) & ~7;
+
+const serializeNumberList = (values: number[]) => {
+  const buffer = Buffer.alloc(values.length * 2);
+  values.forEach((value, index) => buffer.writeUInt16LE(value, index * 2));
+  return buffer;
+};
+
+const parseNumberList = (buffer: Buffer, offset: number, count: number) => {
+  const values: number[] = [];
+  for (let index = 0; index < count; index++) values.push(buffer.readUInt16LE(offset + index * 2));
+  return values;
+};
+
+const serializeNegotiateContextData = (contexts: NegotiateContexts) => {
+  const entries: { type: NegotiateContextType; data: Buffer; }[] = [];
+
+  if (contexts.preauthIntegrityCapabilities) {
+    const { hashAlgorithms, salt } = contexts.preauthIntegrityCapabilities;
+    const header = Buffer.alloc(4);
+    header.writeUInt16LE(hashAlgorithms.length, 0);
+    header.writeUInt16LE(salt.length, 2);
+    entries.push({
+      type: NegotiateContextType.PreauthIntegrityCapabilities,
+      data: Buffer.concat([header, serializeNumberList(hashAlgorithms), salt])
+    });
+  }
+
+  if (contexts.encryptionCapabilities) {
+    const { ciphers } = contexts.encryptionCapabilities;
+    const header = Buffer.alloc(2);
+    header.writeUInt16LE(ciphers.length, 0);
+    entries.push({
+      type: NegotiateContextType.EncryptionCapabilities,
+      data: Buffer.concat([header, serializeNumberList(ciphers)])
+    });
+  }
+
+  if (contexts.compressionCapabilities) {
+    const { compressionAlgorithms, flags = CompressionFlags.None } = contexts.compressionCapabilities;
+    const header = Buffer.alloc(8);
+    header.writeUInt16LE(compressionAlgorithms.length, 0);
+    header.writeUInt32LE(flags, 4);
+    entries.push({
+      type: NegotiateContextType.CompressionCapabilities,
+      data: Buffer.concat([header, serializeNumberList(compressionAlgorithms)])
+    });
   }
+
+  if (typeof contexts.netname === "string") {
+    entries.push({
+      type: NegotiateContextType.NetnameNegotiateContextId,
+      data: Buffer.from(contexts.netname, "ucs2")
+    });
+  }
+
+  if (contexts.signingCapabilities) {
+    const { signingAlgorithms } = contexts.signingCapabilities;
+    const header = Buffer.alloc(2);
+    header.writeUInt16LE(signingAlgorithms.length, 0);
+    entries.push({
+      type: NegotiateContextType.SigningCapabilities,
+      data: Buffer.concat([header, serializeNumberList(signingAlgorithms)])
+    });
+  }
+
+  return entries;
+};
+
+/**
+ * Serializes the negotiate contexts including the padding that aligns the first context
+ * to 8 bytes when the list starts at the given offset from the beginning of the header.
+ */
+export const serializeNegotiateContextList = (offset: number, contexts: NegotiateContexts) => {
+  const entries = serializeNegotiateContextData(contexts);
+  const negotiateContextOffset = alignOffset(offset);
+
+  const buffers: Buffer[] = [Buffer.alloc(negotiateContextOffset - offset)];
+  entries.forEach((entry, index) => {
+    const header = Buffer.alloc(negotiateContextHeaderSize);
+    header.writeUInt16LE(entry.type, 0);
+    header.writeUInt16LE(entry.data.length, 2);
+    buffers.push(header, entry.data);
+
+    const isLast = index === entries.length - 1;
+    const contextLength = negotiateContextHeaderSize + entry.data.length;
+    if (!isLast) buffers.push(Buffer.alloc(alignOffset(contextLength) - contextLength));
+  });
+
+  return {
+    negotiateContextOffset: entries.length > 0 ? negotiateContextOffset : 0,
+    negotiateContextCount: entries.length,
+    negotiateContextList: entries.length > 0 ? Buffer.concat(buffers) : Buffer.alloc(0)
+  };
+};
+
+/**
+ * Parses the negotiate contexts from a list that starts at the given offset from the beginning of the header.
+ */
+export const parseNegotiateContextList = (
+  buffer: Buffer,
+  offset: number,
+  negotiateContextOffset: number,
+  negotiateContextCount: number
+) => {
+  const contexts: NegotiateContexts = {};
+
+  let contextOffset = negotiateContextOffset - offset;
+  for (let index = 0; index < negotiateContextCount; index++) {
+    if (contextOffset + negotiateContextHeaderSize > buffer.length) throw new Error("invalid_negotiate_context_list");
+
+    const type = buffer.readUInt16LE(contextOffset) as NegotiateContextType;
+    const dataLength = buffer.readUInt16LE(contextOffset + 2);
+    const dataOffset = contextOffset + negotiateContextHeaderSize;
+    const data = buffer.slice(dataOffset, dataOffset + dataLength);
+
+    if (type === NegotiateContextType.PreauthIntegrityCapabilities) {
+      const hashAlgorithmCount = data.readUInt16LE(0);
+      const saltLength = data.readUInt16LE(2);
+      const saltOffset = 4 + hashAlgorithmCount * 2;
+      contexts.preauthIntegrityCapabilities = {
+        hashAlgorithms: parseNumberList(data, 4, hashAlgorithmCount),
+        salt: data.slice(saltOffset, saltOffset + saltLength)
+      };
+    } else if (type === NegotiateContextType.EncryptionCapabilities) {
+      contexts.encryptionCapabilities = {
+        ciphers: parseNumberList(data, 2, data.readUInt16LE(0))
+      };
+    } else if (type === NegotiateContextType.CompressionCapabilities) {
+      contexts.compressionCapabilities = {
+        compressionAlgorithms: parseNumberList(data, 8, data.readUInt16LE(0)),
+        flags: data.readUInt32LE(4)
+      };
+    } else if (type === NegotiateContextType.NetnameNegotiateContextId) {
+      contexts.netname = data.toString("ucs2");
+    } else if (type === NegotiateContextType.SigningCapabilities) {
+      contexts.signingCapabilities = {
+        signingAlgorithms: parseNumberList(data, 2, data.readUInt16LE(0))
+      };
+    }
+
+    contextOffset = alignOffset(offset + dataOffset + dataLength) - offset;
+  }
+
+  return contexts;
 };
 
 export default {
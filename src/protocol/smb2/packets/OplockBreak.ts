@@ -0,0 +1,56 @@
+import Structure from "../../Structure";
+
+// [MS-SMB2] 2.2.24.1: the acknowledgment has the layout of the notification it answers
+const requestStructure: Structure = {
+  structureSize: {
+    type: Number,
+    size: 2,
+    defaultValue: 24
+  },
+  oplockLevel: {
+    type: Number,
+    size: 1
+  },
+  reserved: {
+    type: Number,
+    size: 1
+  },
+  reserved2: {
+    type: Number,
+    size: 4
+  },
+  fileId: {
+    type: String,
+    encoding: "hex",
+    size: 16
+  }
+};
+
+const responseStructure: Structure = {
+  structureSize: {
+    type: Number,
+    size: 2
+  },
+  oplockLevel: {
+    type: Number,
+    size: 1
+  },
+  reserved: {
+    type: Number,
+    size: 1
+  },
+  reserved2: {
+    type: Number,
+    size: 4
+  },
+  fileId: {
+    type: String,
+    encoding: "hex",
+    size: 16
+  }
+};
+
+export default {
+  requestStructure,
+  responseStructure
+};
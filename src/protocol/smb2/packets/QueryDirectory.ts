@@ -2,7 +2,15 @@ import * as util from "../../util";
 import Structure from "../../Structure";
 import FileAttribute from "../FileAttribute";
 import * as structureUtil from "../../structureUtil";
-import DirectoryEntry from "../../models/DirectoryEntry";
+import { FileInfoClass } from "./SetInfo";
+
+export enum Flags {
+  None,
+  RestartScans = 1 << 0,
+  ReturnSingleEntry = 1 << 1,
+  IndexSpecified = 1 << 2,
+  Reopen = 1 << 4
+}
 
 const requestStructure: Structure = {
   structureSize: {
@@ -13,7 +21,7 @@ const requestStructure: Structure = {
   fileInformationClass: {
     type: Number,
     size: 1,
-    defaultValue: 37 // FileIdBothDirectoryInformation
+    defaultValue: FileInfoClass.IdBothDirectoryInformation
   },
   flags: {
     type: Number,
@@ -67,88 +75,170 @@ const responseStructure: Structure = {
   }
 };
 
-const parseDirectoryEntry = (entryBuffer: Buffer): DirectoryEntry => {
-  let offset = 0;
-  const index = entryBuffer.readUInt32LE(offset);
-  offset += 4;
-
-  const creationTime = structureUtil.parseDate(entryBuffer.slice(offset, offset + 8));
-  offset += 8;
-
-  const lastAccessTime = structureUtil.parseDate(entryBuffer.slice(offset, offset + 8));
-  offset += 8;
-
-  const lastWriteTime = structureUtil.parseDate(entryBuffer.slice(offset, offset + 8));
-  offset += 8;
-
-  const changeTime = structureUtil.parseDate(entryBuffer.slice(offset, offset + 8));
-  offset += 8;
-
-  const fileSize = entryBuffer.readBigUInt64LE(offset);
-  offset += 8;
-
-  const allocationSize = entryBuffer.readBigUInt64LE(offset);
-  offset += 8;
+export interface FileNamesInformation {
+  index: number;
+  filename: string;
+}
+
+export interface FileDirectoryInformation extends FileNamesInformation {
+  type: "File" | "Directory";
+  creationTime: Date;
+  lastAccessTime: Date;
+  lastWriteTime: Date;
+  changeTime: Date;
+  fileSize: bigint;
+  allocationSize: bigint;
+  fileAttributes: string[];
+}
+
+export interface FileFullDirectoryInformation extends FileDirectoryInformation {
+  eaSize: number;
+}
+
+export interface FileBothDirectoryInformation extends FileFullDirectoryInformation {
+  shortFilename?: string;
+}
+
+export interface FileIdBothDirectoryInformation extends FileBothDirectoryInformation {
+  fileId: string;
+}
+
+export interface FileIdFullDirectoryInformation extends FileFullDirectoryInformation {
+  fileId: string;
+}
+
+export interface FileIdExtdDirectoryInformation extends FileFullDirectoryInformation {
+  reparsePointTag: number;
+  /**
+   * 128 bit file id
+   */
+  fileId: string;
+}
+
+export interface DirectoryInformationMap {
+  [FileInfoClass.NamesInformation]: FileNamesInformation;
+  [FileInfoClass.DirectoryInformation]: FileDirectoryInformation;
+  [FileInfoClass.FullDirectoryInformation]: FileFullDirectoryInformation;
+  [FileInfoClass.BothDirectoryInformation]: FileBothDirectoryInformation;
+  [FileInfoClass.IdBothDirectoryInformation]: FileIdBothDirectoryInformation;
+  [FileInfoClass.IdFullDirectoryInformation]: FileIdFullDirectoryInformation;
+  [FileInfoClass.IdExtdDirectoryInformation]: FileIdExtdDirectoryInformation;
+}
+
+export type DirectoryInformationClass = keyof DirectoryInformationMap;
+
+// entry buffers start after the next entry offset
+const parseFilename = (entryBuffer: Buffer, offset: number, length: number) => {
+  return util.toUnixFilePath(
+    entryBuffer
+      .slice(offset, offset + length)
+      .toString("ucs2")
+  );
+};
 
-  const fileAttributes = structureUtil.parseEnumValues(FileAttribute, entryBuffer.readUInt32LE(offset));
-  offset += 4;
+const parseFileId = (entryBuffer: Buffer, offset: number, length: number) => {
+  return structureUtil.parseString(Buffer.from(entryBuffer.slice(offset, offset + length)).reverse(), { type: String, encoding: "hex" });
+};
 
-  const filenameLength = entryBuffer.readUInt32LE(offset);
-  offset += 4;
+const parseNamesInformation = (entryBuffer: Buffer): FileNamesInformation => {
+  return {
+    index: entryBuffer.readUInt32LE(0),
+    filename: parseFilename(entryBuffer, 8, entryBuffer.readUInt32LE(4))
+  };
+};
 
-  const eaSize = entryBuffer.readUInt32LE(offset);
-  offset += 4;
+// [MS-FSCC] 2.4: the directory information classes share their leading fields up to the file name length
+const parseDirectoryInformationFields = (entryBuffer: Buffer) => {
+  const fileAttributes = structureUtil.parseEnumValues(FileAttribute, entryBuffer.readUInt32LE(52));
+  return {
+    index: entryBuffer.readUInt32LE(0),
+    type: fileAttributes.includes("Directory") ? "Directory" as const : "File" as const,
+    creationTime: structureUtil.parseDate(entryBuffer.slice(4, 12)),
+    lastAccessTime: structureUtil.parseDate(entryBuffer.slice(12, 20)),
+    lastWriteTime: structureUtil.parseDate(entryBuffer.slice(20, 28)),
+    changeTime: structureUtil.parseDate(entryBuffer.slice(28, 36)),
+    fileSize: entryBuffer.readBigUInt64LE(36),
+    allocationSize: entryBuffer.readBigUInt64LE(44),
+    fileAttributes
+  };
+};
 
-  const shortNameLength = entryBuffer.readUInt8(offset);
-  offset += 1;
+const parseDirectoryInformation = (entryBuffer: Buffer): FileDirectoryInformation => {
+  return {
+    ...parseDirectoryInformationFields(entryBuffer),
+    filename: parseFilename(entryBuffer, 60, entryBuffer.readUInt32LE(56))
+  };
+};
 
-  offset += 1; // reserved
+const parseFullDirectoryInformation = (entryBuffer: Buffer): FileFullDirectoryInformation => {
+  return {
+    ...parseDirectoryInformationFields(entryBuffer),
+    eaSize: entryBuffer.readUInt32LE(60),
+    filename: parseFilename(entryBuffer, 64, entryBuffer.readUInt32LE(56))
+  };
+};
 
-  let shortFilename: string;
-  if (shortNameLength !== 0) {
-    shortFilename = util.toUnixFilePath(
-      entryBuffer
-        .slice(offset, offset + shortNameLength)
-        .toString("ucs2")
-    );
-  }
-  offset += 24;
+const parseShortFilename = (entryBuffer: Buffer) => {
+  const shortNameLength = entryBuffer.readUInt8(64);
+  if (shortNameLength === 0) return;
+  return parseFilename(entryBuffer, 66, shortNameLength);
+};
 
-  offset += 2; // reserved
+const parseBothDirectoryInformation = (entryBuffer: Buffer): FileBothDirectoryInformation => {
+  return {
+    ...parseDirectoryInformationFields(entryBuffer),
+    eaSize: entryBuffer.readUInt32LE(60),
+    shortFilename: parseShortFilename(entryBuffer),
+    filename: parseFilename(entryBuffer, 90, entryBuffer.readUInt32LE(56))
+  };
+};
 
-  const fileId = structureUtil.parseString(entryBuffer.slice(offset, offset + 8).reverse(), { type: String, encoding: "hex" });
-  offset += 8;
+const parseIdBothDirectoryInformation = (entryBuffer: Buffer): FileIdBothDirectoryInformation => {
+  return {
+    ...parseDirectoryInformationFields(entryBuffer),
+    eaSize: entryBuffer.readUInt32LE(60),
+    shortFilename: parseShortFilename(entryBuffer),
+    fileId: parseFileId(entryBuffer, 92, 8),
+    filename: parseFilename(entryBuffer, 100, entryBuffer.readUInt32LE(56))
+  };
+};
 
-  const filename = util.toUnixFilePath(
-    entryBuffer
-      .slice(offset, offset + filenameLength)
-      .toString("ucs2")
-  );
-  offset += filenameLength;
+const parseIdFullDirectoryInformation = (entryBuffer: Buffer): FileIdFullDirectoryInformation => {
+  return {
+    ...parseDirectoryInformationFields(entryBuffer),
+    eaSize: entryBuffer.readUInt32LE(60),
+    fileId: parseFileId(entryBuffer, 68, 8),
+    filename: parseFilename(entryBuffer, 76, entryBuffer.readUInt32LE(56))
+  };
+};
 
+const parseIdExtdDirectoryInformation = (entryBuffer: Buffer): FileIdExtdDirectoryInformation => {
   return {
-    type: fileAttributes.includes("Directory") ? "Directory" : "File",
-    index,
-    creationTime,
-    lastAccessTime,
-    lastWriteTime,
-    changeTime,
-    fileSize,
-    allocationSize,
-    eaSize,
-    shortFilename,
-    fileId,
-    filename,
-    fileAttributes
+    ...parseDirectoryInformationFields(entryBuffer),
+    eaSize: entryBuffer.readUInt32LE(60),
+    reparsePointTag: entryBuffer.readUInt32LE(64),
+    fileId: parseFileId(entryBuffer, 68, 16),
+    filename: parseFilename(entryBuffer, 84, entryBuffer.readUInt32LE(56))
   };
 };
 
-const parseResponseBuffer = (buffer: Buffer) => {
-  return structureUtil.parseList<DirectoryEntry>(buffer, parseDirectoryEntry);
+const parsers: { [fileInformationClass in DirectoryInformationClass]: (entryBuffer: Buffer) => DirectoryInformationMap[fileInformationClass] } = {
+  [FileInfoClass.NamesInformation]: parseNamesInformation,
+  [FileInfoClass.DirectoryInformation]: parseDirectoryInformation,
+  [FileInfoClass.FullDirectoryInformation]: parseFullDirectoryInformation,
+  [FileInfoClass.BothDirectoryInformation]: parseBothDirectoryInformation,
+  [FileInfoClass.IdBothDirectoryInformation]: parseIdBothDirectoryInformation,
+  [FileInfoClass.IdFullDirectoryInformation]: parseIdFullDirectoryInformation,
+  [FileInfoClass.IdExtdDirectoryInformation]: parseIdExtdDirectoryInformation
+};
+
+export const parseDirectoryInformationList = <C extends DirectoryInformationClass>(buffer: Buffer, fileInformationClass: C) => {
+  const parser = parsers[fileInformationClass] as (entryBuffer: Buffer) => DirectoryInformationMap[C];
+  if (!parser) throw new Error(`file_information_class_not_supported: ${fileInformationClass}`);
+  return structureUtil.parseList<DirectoryInformationMap[C]>(buffer, parser);
 };
 
 export default {
   requestStructure,
-  responseStructure,
-  parseResponseBuffer
+  responseStructure
 };
\ No newline at end of file
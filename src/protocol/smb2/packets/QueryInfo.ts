@@ -0,0 +1,333 @@
+import Structure from "../../Structure";
+import * as structureUtil from "../../structureUtil";
+import { InfoType, FileInfoClass, basicInformationStructure } from "./SetInfo";
+
+export interface FileBasicInformation {
+  creationTime: bigint;
+  lastAccessTime: bigint;
+  lastWriteTime: bigint;
+  changeTime: bigint;
+  fileAttributes: number;
+}
+
+export interface FileStandardInformation {
+  allocationSize: bigint;
+  endOfFile: bigint;
+  numberOfLinks: number;
+  deletePending: boolean;
+  directory: boolean;
+}
+
+export interface FileInternalInformation {
+  fileId: string;
+}
+
+export interface FileNetworkOpenInformation {
+  creationTime: bigint;
+  lastAccessTime: bigint;
+  lastWriteTime: bigint;
+  changeTime: bigint;
+  allocationSize: bigint;
+  endOfFile: bigint;
+  fileAttributes: number;
+}
+
+export interface FileStreamInformation {
+  streamName: string;
+  streamSize: bigint;
+  streamAllocationSize: bigint;
+}
+
+export interface FileAllInformation {
+  basicInformation: FileBasicInformation;
+  standardInformation: FileStandardInformation;
+  internalInformation: FileInternalInformation;
+  eaSize: number;
+  accessFlags: number;
+  currentByteOffset: bigint;
+  mode: number;
+  alignmentRequirement: number;
+  fileName: string;
+}
+
+const requestStructure: Structure = {
+  structureSize: {
+    type: Number,
+    size: 2,
+    defaultValue: 41
+  },
+  infoType: {
+    type: Number,
+    size: 1,
+    defaultValue: InfoType.File
+  },
+  fileInfoClass: {
+    type: Number,
+    size: 1,
+    defaultValue: FileInfoClass.AllInformation
+  },
+  outputBufferLength: {
+    type: Number,
+    size: 4,
+    defaultValue: 0x00010000
+  },
+  inputBufferOffset: {
+    type: Number,
+    size: 2,
+    defaultValue: 104
+  },
+  reserved: {
+    type: Number,
+    size: 2
+  },
+  inputBufferLength: {
+    type: Number,
+    size: 4
+  },
+  additionalInformation: {
+    type: Number,
+    size: 4
+  },
+  flags: {
+    type: Number,
+    size: 4
+  },
+  fileId: {
+    type: String,
+    encoding: "hex",
+    size: 16
+  },
+  buffer: {
+    type: Buffer,
+    sizeFieldName: "inputBufferLength"
+  }
+};
+
+const responseStructure: Structure = {
+  structureSize: {
+    type: Number,
+    size: 2
+  },
+  outputBufferOffset: {
+    type: Number,
+    size: 2
+  },
+  outputBufferLength: {
+    type: Number,
+    size: 4
+  },
+  buffer: {
+    type: Buffer,
+    sizeFieldName: "outputBufferLength"
+  }
+};
+
+// [MS-FSCC] 2.4: sizes and file times are unsigned
+const basicInformationSize = 40;
+
+const standardInformationStructure: Structure = {
+  allocationSize: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 8
+  },
+  endOfFile: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 8
+  },
+  numberOfLinks: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 4
+  },
+  deletePending: {
+    type: Number,
+    size: 1
+  },
+  directory: {
+    type: Number,
+    size: 1
+  },
+  reserved: {
+    type: Number,
+    size: 2
+  }
+};
+const standardInformationSize = 24;
+
+const internalInformationSize = 8;
+
+const networkOpenInformationStructure: Structure = {
+  creationTime: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 8
+  },
+  lastAccessTime: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 8
+  },
+  lastWriteTime: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 8
+  },
+  changeTime: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 8
+  },
+  allocationSize: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 8
+  },
+  endOfFile: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 8
+  },
+  fileAttributes: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 4
+  },
+  reserved: {
+    type: Number,
+    size: 4
+  }
+};
+
+// the stream entries follow their next entry offset, which is consumed by the list parser
+const streamInformationStructure: Structure = {
+  streamNameLength: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 4
+  },
+  streamSize: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 8
+  },
+  streamAllocationSize: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 8
+  },
+  streamName: {
+    type: Buffer,
+    sizeFieldName: "streamNameLength"
+  }
+};
+
+const allInformationTrailerStructure: Structure = {
+  eaSize: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 4
+  },
+  accessFlags: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 4
+  },
+  currentByteOffset: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 8
+  },
+  mode: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 4
+  },
+  alignmentRequirement: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 4
+  },
+  fileNameLength: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 4
+  },
+  fileName: {
+    type: Buffer,
+    sizeFieldName: "fileNameLength"
+  }
+};
+
+export const parseBasicInformation = (buffer: Buffer): FileBasicInformation => {
+  const { reserved, ...basicInformation } = structureUtil.parseStructure(buffer, basicInformationStructure);
+  return basicInformation;
+};
+
+export const parseStandardInformation = (buffer: Buffer): FileStandardInformation => {
+  const data = structureUtil.parseStructure(buffer, standardInformationStructure);
+  return {
+    allocationSize: data.allocationSize,
+    endOfFile: data.endOfFile,
+    numberOfLinks: data.numberOfLinks,
+    deletePending: data.deletePending !== 0,
+    directory: data.directory !== 0
+  };
+};
+
+export const parseInternalInformation = (buffer: Buffer): FileInternalInformation => {
+  // the index number is shown as the big endian hex string used for directory entries
+  return {
+    fileId: structureUtil.parseString(
+      Buffer.from(buffer.slice(0, internalInformationSize)).reverse(),
+      { type: String, encoding: "hex" }
+    )
+  };
+};
+
+export const parseNetworkOpenInformation = (buffer: Buffer): FileNetworkOpenInformation => {
+  const { reserved, ...networkOpenInformation } = structureUtil.parseStructure(buffer, networkOpenInformationStructure);
+  return networkOpenInformation;
+};
+
+export const parseStreamInformation = (buffer: Buffer) => {
+  return structureUtil.parseList<FileStreamInformation>(buffer, entryBuffer => {
+    const data = structureUtil.parseStructure(entryBuffer, streamInformationStructure);
+    return {
+      streamName: (data.streamName as Buffer).toString("ucs2"),
+      streamSize: data.streamSize,
+      streamAllocationSize: data.streamAllocationSize
+    };
+  });
+};
+
+export const parseAllInformation = (buffer: Buffer): FileAllInformation => {
+  let offset = 0;
+  const basicInformation = parseBasicInformation(buffer.slice(offset, offset + basicInformationSize));
+  offset += basicInformationSize;
+
+  const standardInformation = parseStandardInformation(buffer.slice(offset, offset + standardInformationSize));
+  offset += standardInformationSize;
+
+  const internalInformation = parseInternalInformation(buffer.slice(offset, offset + internalInformationSize));
+  offset += internalInformationSize;
+
+  const data = structureUtil.parseStructure(buffer.slice(offset), allInformationTrailerStructure);
+  return {
+    basicInformation,
+    standardInformation,
+    internalInformation,
+    eaSize: data.eaSize,
+    accessFlags: data.accessFlags,
+    currentByteOffset: data.currentByteOffset,
+    mode: data.mode,
+    alignmentRequirement: data.alignmentRequirement,
+    fileName: (data.fileName as Buffer).toString("ucs2")
+  };
+};
+
+export default {
+  requestStructure,
+  responseStructure
+};
@@ -1,4 +1,7 @@
 import Structure from "../../Structure";
+import FileAttribute from "../FileAttribute";
+import * as util from "../../util";
+import * as structureUtil from "../../structureUtil";
 
 export enum InfoType {
   File = 1,
@@ -8,20 +11,109 @@ export enum InfoType {
 }
 
 export enum FileInfoClass {
+  AllInformation = 18,
   AllocationInformation = 19,
   BasicInformation = 4,
+  BothDirectoryInformation = 3,
+  DirectoryInformation = 1,
   DispositionInformation = 13,
   EndOfFileInformation = 20,
+  FullDirectoryInformation = 2,
   FullEaInformation = 15,
+  IdBothDirectoryInformation = 37,
+  IdExtdDirectoryInformation = 60,
+  IdFullDirectoryInformation = 38,
+  InternalInformation = 6,
   LinkInformation = 11,
   ModeInformation = 16,
+  NamesInformation = 12,
+  NetworkOpenInformation = 34,
   PipeInformation = 23,
   PositionInformation = 14,
   RenameInformation = 10,
   ShortNameInformation = 40,
+  StandardInformation = 5,
+  StreamInformation = 22,
   ValidDataLengthInformation = 39
 }
 
+/**
+ * A date or a raw file time in 100 ns intervals since 1601-01-01.
+ * [MS-FSCC] 2.4.7: 0n leaves the time unchanged, -1n stops and -2n resumes its automatic updates for the open handle.
+ */
+export type FileTime = Date | bigint;
+
+export interface BasicInformation {
+  creationTime?: FileTime;
+  lastAccessTime?: FileTime;
+  lastWriteTime?: FileTime;
+  changeTime?: FileTime;
+  /**
+   * Attributes to set, where 0 leaves them unchanged and Normal clears them
+   */
+  fileAttributes?: FileAttribute;
+}
+
+// [MS-FSCC] 2.4.7: file times are 100 ns intervals since 1601
+export const basicInformationStructure: Structure = {
+  creationTime: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 8
+  },
+  lastAccessTime: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 8
+  },
+  lastWriteTime: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 8
+  },
+  changeTime: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 8
+  },
+  fileAttributes: {
+    type: Number,
+    signedness: "Unsigned",
+    size: 4
+  },
+  reserved: {
+    type: Number,
+    size: 4
+  }
+};
+
+const serializeFileTime = (fileTime?: FileTime) => {
+  return fileTime instanceof Date ?
+    structureUtil.serializeDate(fileTime) :
+    fileTime;
+};
+
+// omitted fields are sent as 0 so the server keeps their current values
+export const serializeBasicInformation = (basicInformation: BasicInformation) => {
+  return structureUtil.serializeStructure(basicInformationStructure, {
+    creationTime: serializeFileTime(basicInformation.creationTime),
+    lastAccessTime: serializeFileTime(basicInformation.lastAccessTime),
+    lastWriteTime: serializeFileTime(basicInformation.lastWriteTime),
+    changeTime: serializeFileTime(basicInformation.changeTime),
+    fileAttributes: basicInformation.fileAttributes
+  });
+};
+
+// [MS-FSCC] 2.4.37: the root directory is left 0 and the name is relative to the share
+export const serializeRenameInformation = (newPath: string, replaceIfExists: boolean) => {
+  const fileName = Buffer.from(util.toWindowsFilePath(newPath), "ucs2");
+  const buffer = Buffer.alloc(20 + fileName.length);
+  buffer.writeUInt8(replaceIfExists ? 1 : 0, 0);
+  buffer.writeUInt32LE(fileName.length, 16);
+  fileName.copy(buffer, 20);
+  return buffer;
+};
+
 const requestStructure: Structure = {
   structureSize: {
     type: Number,
@@ -6,9 +6,12 @@ export { default as TreeDisconnect } from "./TreeDisconnect";
 export { default as Create } from "./Create";
 export { default as Close } from "./Close";
 export { default as Flush } from "./Flush";
+export { default as OplockBreak } from "./OplockBreak";
 export { default as Read } from "./Read";
 export { default as Write } from "./Write";
+export { default as Cancel } from "./Cancel";
 export { default as Echo } from "./Echo";
 export { default as QueryDirectory } from "./QueryDirectory";
 export { default as ChangeNotify } from "./ChangeNotify";
-export { default as SetInfo } from "./SetInfo";
\ No newline at end of file
+export { default as SetInfo } from "./SetInfo";
+export { default as QueryInfo } from "./QueryInfo";
\ No newline at end of file
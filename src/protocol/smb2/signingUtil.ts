@@ -0,0 +1,133 @@
+import crypto from "crypto";
+import HeaderFlag from "./HeaderFlag";
+import PacketType from "./PacketType";
+import SigningAlgorithm from "./SigningAlgorithm";
+import * as structureUtil from "../structureUtil";
+import Header, { headerStructure, signatureOffset, signatureSize } from "./Header";
+
+const blockSize = 16;
+const cmacRb = 0x87;
+
+const shiftLeft = (block: Buffer) => {
+  const result = Buffer.alloc(block.length);
+  for (let index = 0; index < block.length; index++) {
+    const next = index + 1 < block.length ? block[index + 1] : 0;
+    result[index] = ((block[index] << 1) | (next >> 7)) & 0xff;
+  }
+  return result;
+};
+
+const createCmacSubkey = (block: Buffer) => {
+  const subkey = shiftLeft(block);
+  if ((block[0] & 0x80) !== 0) subkey[blockSize - 1] ^= cmacRb;
+  return subkey;
+};
+
+const xor = (a: Buffer, b: Buffer) => {
+  const result = Buffer.alloc(a.length);
+  for (let index = 0; index < a.length; index++) result[index] = a[index] ^ b[index];
+  return result;
+};
+
+// [RFC 4493] AES-CMAC
+export const createAesCmac = (key: Buffer, message: Buffer) => {
+  const cipherAlgorithm = `aes-${key.length * 8}-cbc`;
+  const zeroBlock = Buffer.alloc(blockSize);
+
+  const subkeyCipher = crypto.createCipheriv(cipherAlgorithm, key, zeroBlock).setAutoPadding(false);
+  const encryptedZeroBlock = subkeyCipher.update(zeroBlock);
+  const firstSubkey = createCmacSubkey(encryptedZeroBlock);
+  const secondSubkey = createCmacSubkey(firstSubkey);
+
+  const blockCount = Math.max(Math.ceil(message.length / blockSize), 1);
+  const lastBlockComplete = message.length > 0 && message.length % blockSize === 0;
+
+  const lastBlockStart = (blockCount - 1) * blockSize;
+  let lastBlock: Buffer;
+  if (lastBlockComplete) {
+    lastBlock = xor(message.slice(lastBlockStart), firstSubkey);
+  } else {
+    const paddedBlock = Buffer.alloc(blockSize);
+    message.slice(lastBlockStart).copy(paddedBlock);
+    paddedBlock[message.length - lastBlockStart] = 0x80;
+    lastBlock = xor(paddedBlock, secondSubkey);
+  }
+
+  const cipher = crypto.createCipheriv(cipherAlgorithm, key, zeroBlock).setAutoPadding(false);
+  const encrypted = Buffer.concat([
+    cipher.update(message.slice(0, lastBlockStart)),
+    cipher.update(lastBlock)
+  ]);
+  return encrypted.slice(encrypted.length - blockSize);
+};
+
+// [MS-SMB2] 3.1.4.1: the nonce is the message id followed by the sender role and cancel bits
+export const createAesGmac = (key: Buffer, message: Buffer) => {
+  const header = structureUtil.parseStructure(message, headerStructure) as Header;
+
+  let nonceFlags = 0;
+  if ((header.flags & HeaderFlag.Response) !== 0) nonceFlags |= 1 << 0;
+  if (header.type === PacketType.Cancel) nonceFlags |= 1 << 1;
+
+  const nonce = Buffer.alloc(12);
+  nonce.writeBigInt64LE(header.messageId, 0);
+  nonce.writeUInt32LE(nonceFlags, 8);
+
+  const cipher = crypto.createCipheriv(`aes-${key.length * 8}-gcm` as crypto.CipherGCMTypes, key, nonce);
+  cipher.setAAD(message);
+  cipher.final();
+  return cipher.getAuthTag();
+};
+
+export const preauthIntegrityHashValueSize = 64;
+
+// [MS-SMB2] 3.2.5.2: the hash value chains every negotiate and session setup message
+export const updatePreauthIntegrityHashValue = (hashValue: Buffer, message: Buffer) => {
+  return crypto.createHash("sha512")
+    .update(hashValue)
+    .update(message)
+    .digest();
+};
+
+// [MS-SMB2] 3.1.4.2: SP800-108 counter mode KDF with HMAC-SHA256
+export const deriveKey = (key: Buffer, label: Buffer, context: Buffer, length: number = 128) => {
+  const counter = Buffer.alloc(4);
+  counter.writeUInt32BE(1, 0);
+  const separator = Buffer.alloc(1);
+  const lengthBuffer = Buffer.alloc(4);
+  lengthBuffer.writeUInt32BE(length, 0);
+
+  const hmac = crypto.createHmac("sha256", key);
+  hmac.update(Buffer.concat([counter, label, separator, context, lengthBuffer]));
+  return hmac.digest().slice(0, length / 8);
+};
+
+export const createSignature = (
+  message: Buffer,
+  signingKey: Buffer,
+  signingAlgorithm: SigningAlgorithm = SigningAlgorithm.HmacSha256
+) => {
+  const unsignedMessage = Buffer.from(message);
+  unsignedMessage.fill(0, signatureOffset, signatureOffset + signatureSize);
+
+  if (signingAlgorithm === SigningAlgorithm.AesCmac) {
+    return createAesCmac(signingKey, unsignedMessage);
+  }
+  if (signingAlgorithm === SigningAlgorithm.AesGmac) {
+    return createAesGmac(signingKey, unsignedMessage);
+  }
+
+  const hmac = crypto.createHmac("sha256", signingKey);
+  return hmac.update(unsignedMessage).digest().slice(0, signatureSize);
+};
+
+export const sign = (message: Buffer, signingKey: Buffer, signingAlgorithm?: SigningAlgorithm) => {
+  createSignature(message, signingKey, signingAlgorithm).copy(message, signatureOffset);
+  return message;
+};
+
+export const verify = (message: Buffer, signingKey: Buffer, signingAlgorithm?: SigningAlgorithm) => {
+  const signature = message.slice(signatureOffset, signatureOffset + signatureSize);
+  const expectedSignature = createSignature(message, signingKey, signingAlgorithm);
+  return crypto.timingSafeEqual(signature, expectedSignature);
+};
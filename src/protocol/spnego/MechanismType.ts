@@ -0,0 +1,9 @@
+enum MechanismType {
+  Spnego = "1.3.6.1.5.5.2",
+  Kerberos = "1.2.840.113554.1.2.2",
+  MicrosoftKerberos = "1.2.840.48018.1.2.2",
+  Ntlmssp = "1.3.6.1.4.1.311.2.2.10",
+  NegoEx = "1.3.6.1.4.1.311.2.2.30"
+}
+
+export default MechanismType;
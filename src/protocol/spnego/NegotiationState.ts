@@ -0,0 +1,8 @@
+enum NegotiationState {
+  AcceptCompleted = 0,
+  AcceptIncomplete = 1,
+  Reject = 2,
+  RequestMic = 3
+}
+
+export default NegotiationState;
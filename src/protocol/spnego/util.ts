@@ -0,0 +1,111 @@
+import * as derUtil from "../derUtil";
+import MechanismType from "./MechanismType";
+import NegotiationState from "./NegotiationState";
+
+export interface NegTokenInit {
+  mechTypes: string[];
+  mechToken?: Buffer;
+  mechListMic?: Buffer;
+}
+
+export interface NegTokenResp {
+  negState?: NegotiationState;
+  supportedMech?: string;
+  responseToken?: Buffer;
+  mechListMic?: Buffer;
+}
+
+// [RFC 4178] 4.2: the initial token is framed as a GSS-API InitialContextToken
+const initialContextTokenTagNumber = 0;
+const negTokenInitTagNumber = 0;
+const negTokenRespTagNumber = 1;
+
+export const isNegTokenInit = (buffer: Buffer) => buffer.length > 0 && buffer[0] === 0x60;
+
+export const isNegTokenResp = (buffer: Buffer) => buffer.length > 0 && buffer[0] === 0xa1;
+
+export const encodeMechTypeList = (mechTypes: string[]) => {
+  return derUtil.encodeSequence(mechTypes.map(derUtil.encodeObjectIdentifier));
+};
+
+export const encodeNegTokenInit = (token: NegTokenInit) => {
+  const fields = [derUtil.encodeContextSpecific(0, encodeMechTypeList(token.mechTypes))];
+  if (token.mechToken) fields.push(derUtil.encodeContextSpecific(2, derUtil.encodeOctetString(token.mechToken)));
+  if (token.mechListMic) fields.push(derUtil.encodeContextSpecific(3, derUtil.encodeOctetString(token.mechListMic)));
+
+  return derUtil.encodeApplication(
+    initialContextTokenTagNumber,
+    Buffer.concat([
+      derUtil.encodeObjectIdentifier(MechanismType.Spnego),
+      derUtil.encodeContextSpecific(negTokenInitTagNumber, derUtil.encodeSequence(fields))
+    ])
+  );
+};
+
+export const decodeNegTokenInit = (buffer: Buffer) => {
+  const initialContextToken = derUtil.decodeElement(buffer);
+  if (!derUtil.isApplication(initialContextToken, initialContextTokenTagNumber)) throw new Error("invalid_neg_token_init");
+
+  const [thisMech, innerContextToken] = derUtil.decodeElements(initialContextToken.content);
+  if (
+    !thisMech ||
+    thisMech.tag !== derUtil.Tag.ObjectIdentifier ||
+    derUtil.decodeObjectIdentifier(thisMech.content) !== MechanismType.Spnego
+  ) throw new Error("invalid_neg_token_init");
+  if (!innerContextToken || !derUtil.isContextSpecific(innerContextToken, negTokenInitTagNumber)) throw new Error("invalid_neg_token_init");
+
+  const negTokenInit = derUtil.decodeElement(innerContextToken.content);
+  const fields = derUtil.decodeElements(negTokenInit.content);
+
+  const token: NegTokenInit = { mechTypes: [] };
+  const mechTypeList = derUtil.findContextSpecific(fields, 0);
+  if (mechTypeList) {
+    token.mechTypes = derUtil.decodeElements(mechTypeList.content).map(x => derUtil.decodeObjectIdentifier(x.content));
+  }
+  const mechToken = derUtil.findContextSpecific(fields, 2);
+  if (mechToken) token.mechToken = mechToken.content;
+
+  // [MS-SPNG] 2.2.1: servers send NegTokenInit2 with negHints at [3] and the mechListMIC moved to [4]
+  const mechListMic = [derUtil.findContextSpecific(fields, 3), derUtil.findContextSpecific(fields, 4)]
+    .find(x => x && x.tag === derUtil.Tag.OctetString);
+  if (mechListMic) token.mechListMic = mechListMic.content;
+
+  return token;
+};
+
+export const encodeNegTokenResp = (token: NegTokenResp) => {
+  const fields: Buffer[] = [];
+  if (typeof token.negState === "number") fields.push(derUtil.encodeContextSpecific(0, derUtil.encodeEnumerated(token.negState)));
+  if (token.supportedMech) fields.push(derUtil.encodeContextSpecific(1, derUtil.encodeObjectIdentifier(token.supportedMech)));
+  if (token.responseToken) fields.push(derUtil.encodeContextSpecific(2, derUtil.encodeOctetString(token.responseToken)));
+  if (token.mechListMic) fields.push(derUtil.encodeContextSpecific(3, derUtil.encodeOctetString(token.mechListMic)));
+
+  return derUtil.encodeContextSpecific(negTokenRespTagNumber, derUtil.encodeSequence(fields));
+};
+
+export const decodeNegTokenResp = (buffer: Buffer) => {
+  const element = derUtil.decodeElement(buffer);
+  if (!derUtil.isContextSpecific(element, negTokenRespTagNumber)) throw new Error("invalid_neg_token_resp");
+
+  const negTokenResp = derUtil.decodeElement(element.content);
+  const fields = derUtil.decodeElements(negTokenResp.content);
+
+  const token: NegTokenResp = {};
+  const negState = derUtil.findContextSpecific(fields, 0);
+  if (negState) token.negState = derUtil.decodeInteger(negState.content);
+  const supportedMech = derUtil.findContextSpecific(fields, 1);
+  if (supportedMech) token.supportedMech = derUtil.decodeObjectIdentifier(supportedMech.content);
+  const responseToken = derUtil.findContextSpecific(fields, 2);
+  if (responseToken) token.responseToken = responseToken.content;
+  const mechListMic = derUtil.findContextSpecific(fields, 3);
+  if (mechListMic) token.mechListMic = mechListMic.content;
+
+  return token;
+};
+
+/**
+ * Picks the first of the supported mechanisms, in order of preference, that the peer offers.
+ */
+export const selectMechanism = (mechTypes: string[], supportedMechTypes: string[]) => {
+  return supportedMechTypes.find(x => mechTypes.includes(x));
+};
@@ -3,6 +3,15 @@ import Structure from "./Structure";
 import moment from "moment-timezone";
 import StructureField from "./StructureField";
 
+// a buffer field without a size takes up the rest of the structure
+const isRemainderField = (structureField: StructureField) => {
+  return (
+    structureField.type === Buffer &&
+    typeof structureField.size !== "number" &&
+    !structureField.sizeFieldName
+  );
+};
+
 export const parseStructure = (buffer: Buffer, structure: Structure) => {
   let offset = 0;
   const data: any = {};
@@ -16,6 +25,8 @@ export const parseStructure = (buffer: Buffer, structure: Structure) => {
       if (typeof size === "undefined") throw new Error(`invalid_size_field_name: ${structureField.sizeFieldName}`);
     } else if (typeof structureField.size === "number") {
       size = structureField.size;
+    } else if (isRemainderField(structureField)) {
+      size = Math.max(buffer.length - offset, 0);
     } else throw new Error(`unknown_field_size`);
 
     structureField.count = typeof structureField.count === "number" ?
@@ -123,9 +134,10 @@ export const serializeStructure = (structure: Structure, data: any) => {
   for (const structureFieldName of structureFieldNames) {
     const structureField = structure[structureFieldName];
 
-    const value = typeof data[structureFieldName] !== "undefined" ?
+    let value = typeof data[structureFieldName] !== "undefined" ?
       data[structureFieldName] :
       structureField.defaultValue || 0;
+    if (isRemainderField(structureField) && !Buffer.isBuffer(value)) value = Buffer.alloc(0);
 
     normalizedData[structureFieldName] = {};
 
@@ -157,7 +169,9 @@ export const serializeStructure = (structure: Structure, data: any) => {
     }
 
     normalizedData[structureFieldName].value = serializeValue(value, structureField);
-    normalizedData[structureFieldName].size = structureField.size * structureField.count;
+    normalizedData[structureFieldName].size = isRemainderField(structureField) ?
+      normalizedData[structureFieldName].value.length :
+      structureField.size * structureField.count;
   }
 
   const normalizedFields = structureFieldNames.map(x => normalizedData[x]);
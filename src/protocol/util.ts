@@ -53,4 +53,30 @@ export const generateGuid = () => {
   node.copy(buffer, offset);
 
   return buffer;
-};
\ No newline at end of file
+};
+
+/**
+ * Runs the tasks passed to the returned function with at most concurrency of them in flight.
+ */
+export const createLimiter = (concurrency: number) => {
+  let activeCount = 0;
+  const queue: (() => void)[] = [];
+
+  const next = () => {
+    if (activeCount >= concurrency || queue.length === 0) return;
+    activeCount++;
+    queue.shift()();
+  };
+
+  return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+    queue.push(() => {
+      task()
+        .then(resolve, reject)
+        .finally(() => {
+          activeCount--;
+          next();
+        });
+    });
+    next();
+  });
+};
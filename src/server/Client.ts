@@ -6,8 +6,15 @@ import Smb2Request from "./Smb2Request";
 import Packet from "../protocol/Packet";
 import Request from "../protocol/Request";
 import Response from "../protocol/Response";
+import Cipher from "../protocol/smb2/Cipher";
 import Dialect from "../protocol/smb2/Dialect";
+import HeaderFlag from "../protocol/smb2/HeaderFlag";
+import StatusCode from "../protocol/smb2/StatusCode";
 import * as protocolIds from "../protocol/protocolIds";
+import Smb2PacketType from "../protocol/smb2/PacketType";
+import * as signingUtil from "../protocol/smb2/signingUtil";
+import * as encryptionUtil from "../protocol/smb2/encryptionUtil";
+import SigningAlgorithm from "../protocol/smb2/SigningAlgorithm";
 
 interface Client {
   on(event: "request", callback: (req: Request<any>) => void): this;
@@ -19,6 +26,17 @@ class Client extends EventEmitter {
   private restChunk: Buffer;
   public targetDialect: Dialect;
   public targetDialectName: string;
+  public sessionId: string;
+  public serverChallenge: Buffer;
+  public mechTypeList: Buffer;
+  public signingKey: Buffer;
+  public signingAlgorithm: SigningAlgorithm;
+  public preauthIntegrityHashValue: Buffer;
+  public sessionPreauthIntegrityHashValue: Buffer;
+  public cipher: Cipher;
+  public encryptionKey: Buffer;
+  public decryptionKey: Buffer;
+  public encryptData = false;
 
   constructor(
     private server: Server,
@@ -46,21 +64,115 @@ class Client extends EventEmitter {
     this.restChunk = restChunk;
 
     for (const chunk of chunks) {
-      const protocolId = Packet.parseProtocolId(chunk);
-      if (protocolId === protocolIds.smb) {
-        const request = SmbRequest.parse(chunk);
-        this.emit("request", request);
-      } else {
-        const request = Smb2Request.parse(chunk);
-        this.emit("request", request);
+      let request: Request<any>;
+      try {
+        request = this.parseRequest(chunk);
+      } catch (err) {
+        // a message the server can't read ends the connection of this client only
+        this.close();
+        return;
       }
+      this.emit("request", request);
     }
   }
 
-  send(response: Response<any>) {
-    const buffer = response.serialize();
+  private parseRequest(chunk: Buffer) {
+    const protocolId = Packet.parseProtocolId(chunk);
+    if (protocolId === protocolIds.smb) return SmbRequest.parse(chunk);
+    if (protocolId === protocolIds.smb2Transform) {
+      if (!this.decryptionKey) throw new Error("decryption_key_not_found");
+      const request = Smb2Request.parse(encryptionUtil.decrypt(chunk, this.decryptionKey, this.cipher));
+      request.encrypted = true;
+      return request;
+    }
+    return Smb2Request.parse(chunk);
+  }
+
+  close() {
+    this.socket.removeListener("data", this.onData);
+    this.socket.destroy();
+  }
+
+  /**
+   * Derives the keys of the session from the key the authentication agreed on, with the directions of the client swapped.
+   */
+  setSessionKey(fullSessionKey: Buffer) {
+    // [MS-SMB2] 3.3.5.5.3: the session key is the first 16 bytes of the context key, padded with zeros
+    const sessionKey = Buffer.alloc(16);
+    fullSessionKey.copy(sessionKey, 0, 0, 16);
+
+    if (this.targetDialect === Dialect.Smb311) {
+      this.signingKey = signingUtil.deriveKey(sessionKey, Buffer.from("SMBSigningKey\0", "ascii"), this.sessionPreauthIntegrityHashValue);
+      if (typeof this.cipher === "number") {
+        const keyLength = encryptionUtil.getKeyLength(this.cipher);
+        const cipherSessionKey = keyLength === 256 ? fullSessionKey : sessionKey;
+        this.encryptionKey = signingUtil.deriveKey(cipherSessionKey, Buffer.from("SMBS2CCipherKey\0", "ascii"), this.sessionPreauthIntegrityHashValue, keyLength);
+        this.decryptionKey = signingUtil.deriveKey(cipherSessionKey, Buffer.from("SMBC2SCipherKey\0", "ascii"), this.sessionPreauthIntegrityHashValue, keyLength);
+      }
+    } else if (this.targetDialect >= Dialect.Smb300) {
+      this.signingKey = signingUtil.deriveKey(sessionKey, Buffer.from("SMB2AESCMAC\0", "ascii"), Buffer.from("SmbSign\0", "ascii"));
+      if (typeof this.cipher === "number") {
+        this.encryptionKey = signingUtil.deriveKey(sessionKey, Buffer.from("SMB2AESCCM\0", "ascii"), Buffer.from("ServerOut\0", "ascii"));
+        this.decryptionKey = signingUtil.deriveKey(sessionKey, Buffer.from("SMB2AESCCM\0", "ascii"), Buffer.from("ServerIn \0", "ascii"));
+      }
+    } else {
+      this.signingKey = sessionKey;
+    }
+  }
+
+  send(response: Response<any>, request?: Request<any>) {
+    const encrypted = this.shouldEncrypt(response, request);
+    const signed = !encrypted && this.shouldSign(response);
+    if (signed) response.header.flags |= HeaderFlag.Signed;
+
+    let buffer = response.serialize();
+    if (signed) signingUtil.sign(buffer.slice(4), this.signingKey, this.signingAlgorithm);
+    if (
+      this.preauthIntegrityHashValue &&
+      response.header.protocolId === protocolIds.smb2 &&
+      response.header.type === Smb2PacketType.Negotiate
+    ) {
+      this.preauthIntegrityHashValue = signingUtil.updatePreauthIntegrityHashValue(this.preauthIntegrityHashValue, buffer.slice(4));
+    }
+    // the final session setup response is not part of the preauth integrity hash
+    if (
+      this.sessionPreauthIntegrityHashValue &&
+      response.header.protocolId === protocolIds.smb2 &&
+      response.header.type === Smb2PacketType.SessionSetup &&
+      response.header.status === StatusCode.MoreProcessingRequired
+    ) {
+      this.sessionPreauthIntegrityHashValue = signingUtil.updatePreauthIntegrityHashValue(
+        this.sessionPreauthIntegrityHashValue,
+        buffer.slice(4)
+      );
+    }
+    if (encrypted) {
+      buffer = Packet.serializeChunk(
+        encryptionUtil.encrypt(buffer.slice(4), response.header.sessionId, this.encryptionKey, this.cipher)
+      );
+    }
     this.socket.write(buffer);
   }
+
+  private shouldEncrypt(response: Response<any>, request?: Request<any>) {
+    // [MS-SMB2] 3.3.4.1.4: responses are encrypted for sessions that encrypt their data and to encrypted requests
+    return (
+      !!this.encryptionKey &&
+      (this.encryptData || !!(request as Smb2Request)?.encrypted) &&
+      response.header.protocolId === protocolIds.smb2 &&
+      response.header.type !== Smb2PacketType.Negotiate &&
+      response.header.type !== Smb2PacketType.SessionSetup
+    );
+  }
+
+  private shouldSign(response: Response<any>) {
+    return (
+      !!this.signingKey &&
+      response.header.protocolId === protocolIds.smb2 &&
+      response.header.type !== Smb2PacketType.Negotiate &&
+      response.header.status !== StatusCode.Pending
+    );
+  }
 }
 
 export default Client;
\ No newline at end of file
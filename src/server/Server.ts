@@ -9,6 +9,7 @@ import * as util from "../protocol/util";
 import Smb2Response from "./Smb2Response";
 import SmbHeader from "../protocol/smb/Header";
 import Smb2Header from "../protocol/smb2/Header";
+import { Credential } from "../protocol/ntlm/util";
 import requestType from "./middlewares/requestType";
 import * as protocolIds from "../protocol/protocolIds";
 import SmbPacketType from "../protocol/smb/PacketType";
@@ -17,6 +18,17 @@ import * as smbRequestHandlers from "./requestHandlers/smb";
 import * as smb2RequestHandlers from "./requestHandlers/smb2";
 import supportedProtocols from "./middlewares/supportedProtocols";
 
+export interface Options {
+  /**
+   * Users that may authenticate with NTLM, by user name, with their password or NT hash
+   */
+  users?: { [username: string]: string | Credential };
+  /**
+   * Requires sessions to encrypt their messages from SMB 3.0 on
+   */
+  encryptData?: boolean;
+}
+
 export default class Server {
   public port: number;
   private clients: Client[] = [];
@@ -25,7 +37,9 @@ export default class Server {
   public guid = util.generateGuid();
   private middlewares: Middleware[] = [];
 
-  constructor() {
+  constructor(
+    public options: Options = {}
+  ) {
     this.use(supportedProtocols([protocolIds.smb, protocolIds.smb2]));
 
     const smb2RequestHandlerTypes = Object.keys(smb2RequestHandlers);
@@ -74,7 +88,12 @@ export default class Server {
 
   onRequest = (client: Client) => async (req: Request) => {
     this.initRequest(req, client);
-    await this.handleRequest(req);
+    try {
+      await this.handleRequest(req);
+    } catch (err) {
+      // a request the server fails to handle ends the connection of its client only
+      client.close();
+    }
   }
 
   initRequest(req: Request, client: Client) {
@@ -99,10 +118,11 @@ export default class Server {
         protocolId: header.protocolId,
         type: header.type,
         messageId: header.messageId,
+        // grants the credits the client asks for, so it can keep sending
+        credit: Math.max(header.credit, 1),
         clientId: header.clientId,
         treeId: header.treeId,
-        sessionId: header.sessionId,
-        signature: header.signature
+        sessionId: header.sessionId
       });
     }
 
@@ -110,7 +130,7 @@ export default class Server {
 
     for (const middleware of this.middlewares) {
       await middleware(req, res);
-      if (res.sent) return req.client.send(res);
+      if (res.sent) return req.client.send(res, req);
       if (res.redirectedReq) return await this.redirect(req, res.redirectedReq);
     }
   }
@@ -1,37 +1,130 @@
+import crypto from "crypto";
 import moment from "moment-timezone";
 import Request from "../../Smb2Request";
 import Response from "../../Smb2Response";
 import StatusCode from "../../../protocol/smb2/StatusCode";
+import Cipher from "../../../protocol/smb2/Cipher";
 import Capability from "../../../protocol/smb2/Capability";
+import SecurityMode from "../../../protocol/smb2/SecurityMode";
 import Smb2Dialect from "../../../protocol/smb2/Dialect";
+import SigningAlgorithm from "../../../protocol/smb2/SigningAlgorithm";
 import { headerSize } from "../../../protocol/smb2/Header";
 import * as structureUtil from "../../../protocol/structureUtil";
+import * as signingUtil from "../../../protocol/smb2/signingUtil";
+import * as spnegoUtil from "../../../protocol/spnego/util";
+import MechanismType from "../../../protocol/spnego/MechanismType";
+import {
+  HashAlgorithm,
+  NegotiateContexts,
+  parseNegotiateContextList,
+  serializeNegotiateContextList,
+  getRequestNegotiateContextListOffset,
+  getResponseNegotiateContextListOffset
+} from "../../../protocol/smb2/packets/Negotiate";
 
 const supportedDialects = [
+  Smb2Dialect.Smb311,
+  Smb2Dialect.Smb302,
+  Smb2Dialect.Smb300,
   Smb2Dialect.Smb210,
   Smb2Dialect.Smb202,
   Smb2Dialect.Smb2xx
 ];
 
+const supportedCiphers = [
+  Cipher.Aes128Gcm,
+  Cipher.Aes128Ccm,
+  Cipher.Aes256Gcm,
+  Cipher.Aes256Ccm
+];
+
+const supportedSigningAlgorithms = [
+  SigningAlgorithm.AesGmac,
+  SigningAlgorithm.AesCmac,
+  SigningAlgorithm.HmacSha256
+];
+
 export default (req: Request, res: Response) => {
   const dialects = req.body.dialects as Smb2Dialect[];
   const targetDialect = supportedDialects.find(supportedDialect =>
     dialects.find(dialect => dialect === supportedDialect)
   );
   const targetDialectName = structureUtil.parseEnumValue(Smb2Dialect, targetDialect);
+  req.client.targetDialect = targetDialect;
+  req.client.targetDialectName = targetDialectName;
+  req.client.signingAlgorithm = targetDialect >= Smb2Dialect.Smb300 ?
+    SigningAlgorithm.AesCmac :
+    SigningAlgorithm.HmacSha256;
+  // SMB 3.0 and 3.0.2 advertise encryption as a capability, SMB 3.1.1 negotiates a cipher instead
+  const encryptionCapability = targetDialect === Smb2Dialect.Smb300 || targetDialect === Smb2Dialect.Smb302;
+  req.client.cipher = encryptionCapability ?
+    Cipher.Aes128Ccm :
+    undefined;
+
+  const securityBuffer = spnegoUtil.encodeNegTokenInit({ mechTypes: [MechanismType.Ntlmssp] });
+
+  let negotiateContextList = serializeNegotiateContextList(0, {});
+  if (targetDialect === Smb2Dialect.Smb311) {
+    const requestNegotiateContexts = parseNegotiateContextList(
+      req.body.negotiateContextList as Buffer,
+      getRequestNegotiateContextListOffset(dialects.length),
+      req.body.negotiateContextOffset,
+      req.body.negotiateContextCount
+    );
+
+    const preauthIntegrityCapabilities = requestNegotiateContexts.preauthIntegrityCapabilities;
+    if (
+      !preauthIntegrityCapabilities ||
+      !preauthIntegrityCapabilities.hashAlgorithms.includes(HashAlgorithm.Sha512)
+    ) throw new Error("preauth_integrity_hash_algorithm_not_supported");
+
+    const responseNegotiateContexts: NegotiateContexts = {
+      preauthIntegrityCapabilities: {
+        hashAlgorithms: [HashAlgorithm.Sha512],
+        salt: crypto.randomBytes(32)
+      }
+    };
+
+    const signingCapabilities = requestNegotiateContexts.signingCapabilities;
+    if (signingCapabilities) {
+      const signingAlgorithm = signingCapabilities.signingAlgorithms.find(x => supportedSigningAlgorithms.includes(x));
+      if (typeof signingAlgorithm === "number") {
+        req.client.signingAlgorithm = signingAlgorithm;
+        responseNegotiateContexts.signingCapabilities = { signingAlgorithms: [signingAlgorithm] };
+      }
+    }
+
+    const encryptionCapabilities = requestNegotiateContexts.encryptionCapabilities;
+    if (encryptionCapabilities) {
+      const cipher = supportedCiphers.find(x => encryptionCapabilities.ciphers.includes(x));
+      req.client.cipher = cipher;
+      // [MS-SMB2] 3.3.5.4: without a cipher in common the server answers with the single cipher None
+      responseNegotiateContexts.encryptionCapabilities = {
+        ciphers: [typeof cipher === "number" ? cipher : Cipher.None]
+      };
+    }
 
-  const securityBuffer = Buffer.alloc(0);
+    negotiateContextList = serializeNegotiateContextList(
+      getResponseNegotiateContextListOffset(securityBuffer.length),
+      responseNegotiateContexts
+    );
+    req.client.preauthIntegrityHashValue = signingUtil.updatePreauthIntegrityHashValue(
+      Buffer.alloc(signingUtil.preauthIntegrityHashValueSize),
+      req.messageBuffer
+    );
+  }
 
   res.status(StatusCode.Success);
   res.set("clientId", req.header.clientId);
 
   res.send({
     structureSize: 0x0041,
-    securityMode: 0,
+    securityMode: SecurityMode.SigningEnabled,
     dialectRevision: targetDialect,
-    reserved: 0, // NegotiateContextCount
     serverGuid: req.server.guid,
-    capabilities: Capability.DistributedFileSystem | Capability.MultiCreditSupport,
+    capabilities: encryptionCapability ?
+      Capability.DistributedFileSystem | Capability.MultiCreditSupport | Capability.Encryption :
+      Capability.DistributedFileSystem | Capability.MultiCreditSupport,
     maxTransactSize: 0x00100000,
     maxReadSize: 0x00100000,
     maxWriteSize: 0x00100000,
@@ -39,7 +132,7 @@ export default (req: Request, res: Response) => {
     serverStartTime: structureUtil.serializeDate(req.server.startDate),
     securityBufferOffset: headerSize + 64,
     securityBufferLength: securityBuffer.length,
-    reserved2: 0, // NegotiateContextOffset
-    buffer: securityBuffer
+    buffer: securityBuffer,
+    ...negotiateContextList
   });
-};
\ No newline at end of file
+};
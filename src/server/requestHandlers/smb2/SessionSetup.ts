@@ -1,34 +1,150 @@
+import crypto from "crypto";
 import Request from "../../Smb2Request";
 import Response from "../../Smb2Response";
+import { Options } from "../../Server";
 import * as ntlm from "../../../protocol/ntlm/util";
 import StatusCode from "../../../protocol/smb2/StatusCode";
+import SessionFlag from "../../../protocol/smb2/SessionFlag";
 import NegotiateFlag from "../../../protocol/ntlm/NegotiateFlag";
+import * as spnegoUtil from "../../../protocol/spnego/util";
+import * as signingUtil from "../../../protocol/smb2/signingUtil";
+import MechanismType from "../../../protocol/spnego/MechanismType";
+import NegotiationState from "../../../protocol/spnego/NegotiationState";
 
 export default (req: Request, res: Response) => {
-  // console.log(ntlm);
-  // console.log(req.body);
-  // console.log();
-  console.log("SessionSetup");
+  // [MS-SMB2] 3.3.5.5: a new session continues the preauth integrity hash of the negotiation
+  if (req.client.preauthIntegrityHashValue) {
+    const newSession = /^0+$/.test(req.header.sessionId);
+    req.client.sessionPreauthIntegrityHashValue = signingUtil.updatePreauthIntegrityHashValue(
+      newSession ? req.client.preauthIntegrityHashValue : req.client.sessionPreauthIntegrityHashValue,
+      req.messageBuffer
+    );
+  }
+
+  const securityBuffer = req.body.buffer as Buffer;
+  const negTokenInit = spnegoUtil.isNegTokenInit(securityBuffer) ?
+    spnegoUtil.decodeNegTokenInit(securityBuffer) :
+    undefined;
+  const negTokenResp = spnegoUtil.isNegTokenResp(securityBuffer) ?
+    spnegoUtil.decodeNegTokenResp(securityBuffer) :
+    undefined;
+  const mechToken = negTokenInit ?
+    negTokenInit.mechToken :
+    negTokenResp ?
+      negTokenResp.responseToken :
+      securityBuffer;
+
+  res.set("clientId", req.header.clientId);
 
-  const decodedNtlmNegotiation = ntlm.decodeNegotiationMessage(req.body.buffer as Buffer);
-  // console.log(ntlmData);
+  // SPNEGO tokens may leave out the NTLMSSP token the server needs to go on
+  if (!mechToken || mechToken.length < 12) return reject(res);
+
+  // [MS-NLMP] 2.2.1: the message type follows the NTLMSSP signature
+  if (mechToken.readUInt32LE(8) === 0x03) return authenticate(req, res, mechToken, negTokenResp);
+
+  const decodedNtlmNegotiation = ntlm.decodeNegotiationMessage(mechToken);
 
   const ntlmChallengeNegotiationFlags = syncNegotiationFlags(decodedNtlmNegotiation.negotiateFlags);
-  const encodedNtlmChallenge = ntlm.encodeChallengeMessage(ntlmChallengeNegotiationFlags);
+  req.client.serverChallenge = ntlm.generateServerChallenge();
+  req.client.mechTypeList = negTokenInit ?
+    spnegoUtil.encodeMechTypeList(negTokenInit.mechTypes) :
+    undefined;
+  const encodedNtlmChallenge = ntlm.encodeChallengeMessage(ntlmChallengeNegotiationFlags, req.client.serverChallenge);
 
-  // console.log(encodedNtlmChallenge.toString("hex"));
-  res.status(StatusCode.MoreProcessingRequired); // first session setup request (second success)
-  res.set("clientId", req.header.clientId);
+  // the session is identified from the first response on, and keeps its id when it authenticates again
+  if (!isReauthentication(req)) req.client.sessionId = crypto.randomBytes(8).toString("hex");
+  res.status(StatusCode.MoreProcessingRequired);
+  res.set("sessionId", req.client.sessionId);
 
   res.send({
     structureSize: 9,
     sessionFlags: 0,
     securityBufferOffset: 72,
-    securityBufferLength: 178,
-    buffer: encodedNtlmChallenge
+    buffer: negTokenInit || negTokenResp ?
+      spnegoUtil.encodeNegTokenResp({
+        negState: NegotiationState.AcceptIncomplete,
+        supportedMech: MechanismType.Ntlmssp,
+        responseToken: encodedNtlmChallenge
+      }) :
+      encodedNtlmChallenge
   });
 };
 
+const authenticate = (req: Request, res: Response, buffer: Buffer, negTokenResp?: spnegoUtil.NegTokenResp) => {
+  const authenticationMessage = ntlm.decodeAuthenticationMessage(buffer);
+  const { negotiateFlags } = authenticationMessage;
+  // [MS-NLMP] 3.2.5.1.2: anonymous clients send neither a user name nor an NT response
+  const anonymous = !authenticationMessage.username && authenticationMessage.ntResponse.length === 0;
+  const credential = anonymous ?
+    undefined :
+    getCredential(req.server.options.users, authenticationMessage.username);
+  const sessionKey = credential ?
+    ntlm.verifyAuthenticationMessage(authenticationMessage, req.client.serverChallenge, credential) :
+    undefined;
+
+  // [MS-SPNG] 3.2.5.1: a mechListMIC of the client is verified and answered with one of the server
+  const mechListMic = sessionKey && req.client.mechTypeList && negTokenResp ?
+    negTokenResp.mechListMic :
+    undefined;
+  if (
+    (!anonymous && !sessionKey) ||
+    (mechListMic && !mechListMic.equals(
+      ntlm.createMessageSignature(sessionKey, negotiateFlags, "client", 0, req.client.mechTypeList)
+    ))
+  ) return reject(res);
+
+  // [MS-SMB2] 3.3.5.5.3: a session that authenticates again keeps the keys of its first authentication,
+  // and null sessions have no keys at all
+  if (sessionKey && !isReauthentication(req)) {
+    req.client.setSessionKey(sessionKey);
+    req.client.encryptData = !!req.server.options.encryptData && !!req.client.encryptionKey;
+  }
+
+  res.status(StatusCode.Success);
+  res.send({
+    structureSize: 9,
+    sessionFlags: anonymous ?
+      SessionFlag.IsNull :
+      req.client.encryptData ?
+        SessionFlag.EncryptData :
+        0,
+    securityBufferOffset: 72,
+    buffer: negTokenResp ?
+      spnegoUtil.encodeNegTokenResp({
+        negState: NegotiationState.AcceptCompleted,
+        mechListMic: mechListMic ?
+          ntlm.createMessageSignature(sessionKey, negotiateFlags, "server", 0, req.client.mechTypeList) :
+          undefined
+      }) :
+      Buffer.alloc(0)
+  });
+};
+
+const reject = (res: Response) => {
+  res.status(StatusCode.LogonFailure);
+  res.send({
+    structureSize: 9,
+    sessionFlags: 0,
+    securityBufferOffset: 72,
+    buffer: Buffer.alloc(0)
+  });
+};
+
+// user names are compared without regard to case, like Windows does
+const isReauthentication = (req: Request) => {
+  return !!req.client.signingKey && req.header.sessionId === req.client.sessionId;
+};
+
+const getCredential = (users: Options["users"] = {}, username: string) => {
+  const name = Object.keys(users).find(x => x.toLowerCase() === username.toLowerCase());
+  if (typeof name !== "string") return;
+
+  const credential = users[name];
+  return typeof credential === "string" ?
+    { password: credential } as ntlm.Credential :
+    credential;
+};
+
 const syncNegotiationFlags = (negotiationFlags: number) => {
   let challengeNegotiateFlags = NegotiateFlag.TargetTypeServer |
     NegotiateFlag.TargetInfo |
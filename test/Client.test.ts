@@ -0,0 +1,506 @@
+import assert from "assert";
+import { describe, it, afterEach } from "node:test";
+import Client, { Options } from "../src/client/Client";
+import ConnectionError from "../src/client/ConnectionError";
+import Session from "../src/client/Session";
+import Packet from "../src/protocol/Packet";
+import Smb2Packet from "../src/protocol/smb2/Packet";
+import Cipher from "../src/protocol/smb2/Cipher";
+import Dialect from "../src/protocol/smb2/Dialect";
+import Capability from "../src/protocol/smb2/Capability";
+import Request from "../src/protocol/smb2/Request";
+import Response from "../src/protocol/smb2/Response";
+import HeaderFlag from "../src/protocol/smb2/HeaderFlag";
+import StatusCode from "../src/protocol/smb2/StatusCode";
+import PacketType from "../src/protocol/smb2/PacketType";
+import SecurityMode from "../src/protocol/smb2/SecurityMode";
+import { serializeDate } from "../src/protocol/structureUtil";
+import * as encryptionUtil from "../src/protocol/smb2/encryptionUtil";
+import { FakeServer, RequestHandler, createResponse, startFakeServer, waitFor } from "./fakeServer";
+
+describe("createRequest", () => {
+  it("charges one credit per 64 KiB of payload with multi-credit support", () => {
+    const multiCreditClient = new Client("127.0.0.1");
+    multiCreditClient.multiCreditSupport = true;
+
+    const requests = [
+      multiCreditClient.createRequest({ type: PacketType.Echo }),
+      multiCreditClient.createRequest({ type: PacketType.Read }, { length: 0x10000 }),
+      multiCreditClient.createRequest({ type: PacketType.Read }, { length: 0x10001 }),
+      multiCreditClient.createRequest({ type: PacketType.Write }, { buffer: Buffer.alloc(0x30000) }),
+      multiCreditClient.createRequest({ type: PacketType.QueryDirectory }, { outputBufferLength: 0x20000 })
+    ];
+    assert.deepStrictEqual(requests.map(x => x.header.creditCharge), [1, 1, 2, 3, 2]);
+    // each charged credit consumes a message id
+    assert.deepStrictEqual(requests.map(x => x.header.messageId), [0n, 1n, 2n, 4n, 7n]);
+    assert.strictEqual(multiCreditClient.nextMessageId, 9n);
+  });
+
+  it("charges nothing and consumes one message id per request without multi-credit support", () => {
+    const singleCreditClient = new Client("127.0.0.1");
+    const requests = [
+      singleCreditClient.createRequest({ type: PacketType.Read }, { length: 0x30000 }),
+      singleCreditClient.createRequest({ type: PacketType.Echo })
+    ];
+    assert.deepStrictEqual(requests.map(x => x.header.creditCharge), [0, 0]);
+    assert.deepStrictEqual(requests.map(x => x.header.messageId), [0n, 1n]);
+  });
+});
+
+describe("credits", () => {
+  let server: FakeServer;
+  let client: Client;
+
+  const connect = async (handler: RequestHandler, requestTimeout?: number) => {
+    server = await startFakeServer(handler);
+    client = new Client("127.0.0.1", { port: server.port, requestTimeout });
+    await client.connect();
+  };
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it("holds requests back until responses grant the credits for their message ids", async () => {
+    const replies: (() => void)[] = [];
+    await connect((request, reply) => {
+      replies.push(() => reply(createResponse(request, {}, { credit: 1 })));
+    });
+
+    const firstEcho = client.echo();
+    const secondEcho = client.echo();
+    await waitFor(() => server.requests.length === 1);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.strictEqual(server.requests.length, 1);
+
+    replies.shift()();
+    await firstEcho;
+    await waitFor(() => server.requests.length === 2);
+    assert.strictEqual(server.requests[1].header.messageId, 1n);
+
+    replies.shift()();
+    await secondEcho;
+    assert.strictEqual(client.creditLimit, 3n);
+  });
+
+  it("waits for every credit a multi-credit request is charged", async () => {
+    const replies: (() => void)[] = [];
+    await connect((request, reply) => {
+      replies.push(() => reply(createResponse(request, {}, { credit: 2 })));
+    });
+    client.multiCreditSupport = true;
+
+    // the echo leaves the window at message id 1, the write needs ids 1 to 3
+    const echo = client.echo();
+    const write = client.request({ type: PacketType.Write }, { buffer: Buffer.alloc(0x30000) });
+    await waitFor(() => server.requests.length === 1);
+
+    replies.shift()();
+    await echo;
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.strictEqual(server.requests.length, 1);
+
+    // a response granting the missing credit releases the write
+    client.onResponse(createResponse(server.requests[0], {}, { messageId: 100n, credit: 1 }));
+    await waitFor(() => server.requests.length === 2);
+    assert.strictEqual(server.requests[1].header.creditCharge, 3);
+
+    replies.shift()();
+    await write;
+  });
+
+  it("rejects requests that wait for credits longer than the request timeout", async () => {
+    await connect(() => undefined, 100);
+
+    const echo = assert.rejects(client.echo(), /request_timeout: Echo\(0\)/);
+    await assert.rejects(client.echo(), /credit_timeout: Echo\(1\)/);
+    assert.strictEqual(server.requests.length, 1);
+    await echo;
+  });
+});
+
+describe("negotiate", () => {
+  let server: FakeServer;
+  let client: Client;
+
+  const serverGuid = Buffer.from("00112233445566778899aabbccddeeff", "hex");
+  const systemTime = new Date("2024-01-02T03:04:05.000Z");
+  const serverStartTime = new Date("2024-01-01T00:00:00.000Z");
+
+  const connect = async (dialect: Dialect, capabilities: Capability) => {
+    server = await startFakeServer((request, reply) => {
+      reply(createResponse(request, {
+        structureSize: 65,
+        securityMode: SecurityMode.SigningEnabled | SecurityMode.SigningRequired,
+        dialectRevision: dialect,
+        serverGuid,
+        capabilities,
+        maxTransactSize: 0x100000,
+        maxReadSize: 0x800000,
+        maxWriteSize: 0x800000,
+        systemTime: serializeDate(systemTime),
+        serverStartTime: serializeDate(serverStartTime),
+        securityBufferOffset: 128,
+        buffer: Buffer.from("token")
+      }));
+    });
+    client = new Client("127.0.0.1", { port: server.port });
+  };
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it("parses the negotiate response into the server info", async () => {
+    await connect(Dialect.Smb210, Capability.DistributedFileSystem | Capability.MultiCreditSupport);
+
+    const serverInfo = await client.negotiate();
+    assert.strictEqual(serverInfo.dialect, Dialect.Smb210);
+    assert.strictEqual(serverInfo.dialectName, "Smb210");
+    assert.strictEqual(serverInfo.serverGuid, serverGuid.toString("hex"));
+    assert.strictEqual(serverInfo.signingEnabled, true);
+    assert.strictEqual(serverInfo.signingRequired, true);
+    assert.deepStrictEqual(serverInfo.capabilityNames, ["DistributedFileSystem", "MultiCreditSupport"]);
+    assert.deepStrictEqual(serverInfo.systemTime, systemTime);
+    assert.deepStrictEqual(serverInfo.serverStartTime, serverStartTime);
+    assert.deepStrictEqual(serverInfo.securityBuffer, Buffer.from("token"));
+    assert.strictEqual(client.serverInfo, serverInfo);
+  });
+
+  it("negotiates once for concurrent callers", async () => {
+    await connect(Dialect.Smb210, Capability.MultiCreditSupport);
+    await client.connect();
+
+    const [serverInfo, otherServerInfo] = await Promise.all([client.negotiate(), client.negotiate()]);
+    assert.strictEqual(serverInfo, otherServerInfo);
+    assert.strictEqual(server.requests.filter(x => x.header.type === PacketType.Negotiate).length, 1);
+  });
+
+  it("sizes reads and writes from the negotiated limits with multi-credit support", async () => {
+    await connect(Dialect.Smb210, Capability.MultiCreditSupport);
+    await client.negotiate();
+
+    assert.strictEqual(client.multiCreditSupport, true);
+    assert.strictEqual(client.maxReadSize, 0x800000);
+    assert.strictEqual(client.maxWriteSize, 0x800000);
+    assert.strictEqual(client.maxTransactSize, 0x100000);
+  });
+
+  it("limits reads and writes to a single credit without multi-credit support", async () => {
+    await connect(Dialect.Smb202, Capability.MultiCreditSupport);
+    await client.negotiate();
+
+    assert.strictEqual(client.multiCreditSupport, false);
+    assert.strictEqual(client.maxReadSize, 0x10000);
+    assert.strictEqual(client.maxWriteSize, 0x10000);
+  });
+});
+
+describe("encrypted responses", () => {
+  let server: FakeServer;
+  let client: Client;
+
+  const sessionId = "1100000000e40800";
+  const key = Buffer.alloc(16, 0x11);
+
+  // the server never answers, so the echo stays pending until the client reads the frames of the test
+  const connect = async () => {
+    server = await startFakeServer(() => undefined);
+    client = new Client("127.0.0.1", { port: server.port });
+    await client.connect();
+
+    const session = new Session(client);
+    session._id = sessionId;
+    session.decryptionKey = key;
+    session.cipher = Cipher.Aes128Gcm;
+    client.sessions.push(session);
+  };
+
+  const createTransformFrame = (request: Request) => {
+    const response = createResponse(request, { structureSize: 4 }, { sessionId });
+    return Packet.serializeChunk(
+      encryptionUtil.encrypt(response.serialize().slice(4), sessionId, key, Cipher.Aes128Gcm)
+    );
+  };
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it("passes on the responses it decrypts", async () => {
+    await connect();
+
+    const echo = client.echo();
+    await waitFor(() => server.requests.length === 1);
+    client.onData(createTransformFrame(server.requests[0]));
+
+    const response = await echo;
+    assert.strictEqual(response.encrypted, true);
+  });
+
+  it("rejects pending requests and closes the connection when a response fails to decrypt", async () => {
+    await connect();
+
+    const echo = client.echo();
+    await waitFor(() => server.requests.length === 1);
+    const frame = createTransformFrame(server.requests[0]);
+    frame[frame.length - 1] ^= 1;
+    client.onData(frame);
+
+    await assert.rejects(echo, /decryption_failed/);
+    assert.strictEqual(client.connected, false);
+    assert.strictEqual(client.socket, undefined);
+  });
+
+  it("rejects pending requests when a response is encrypted for an unknown session", async () => {
+    await connect();
+    client.sessions.splice(0);
+
+    const echo = client.echo();
+    await waitFor(() => server.requests.length === 1);
+    client.onData(createTransformFrame(server.requests[0]));
+
+    await assert.rejects(echo, /decryption_key_not_found/);
+    assert.strictEqual(client.connected, false);
+  });
+});
+
+describe("compound responses", () => {
+  let server: FakeServer;
+  let client: Client;
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it("resolves each request with its message of the compound", async () => {
+    server = await startFakeServer(() => undefined);
+    client = new Client("127.0.0.1", { port: server.port });
+    await client.connect();
+    client.creditLimit = 2n;
+
+    const compound = client.requestCompound([
+      { header: { type: PacketType.Echo } },
+      { header: { type: PacketType.Echo } }
+    ]);
+    await waitFor(() => server.requests.length === 2);
+    assert.strictEqual(server.requests[0].header.nextCommand, 72);
+
+    const responses = server.requests.map(request => createResponse(request, { structureSize: 4 }));
+    client.onData(Packet.serializeChunk(Buffer.concat(Smb2Packet.serializeCompound(responses))));
+
+    const [first, second] = await compound;
+    assert.strictEqual(first.header.messageId, server.requests[0].header.messageId);
+    assert.strictEqual(second.header.messageId, server.requests[1].header.messageId);
+  });
+});
+
+/**
+ * Answers that the server went async on the request, which completes with a later response.
+ */
+const createInterimResponse = (request: Request) => createResponse(request, { structureSize: 9 }, {
+  status: StatusCode.Pending,
+  flags: HeaderFlag.Async,
+  asyncId: "0100000000000000"
+});
+
+describe("cancel", () => {
+  let server: FakeServer;
+  let client: Client;
+  let replies: Map<bigint, (response: Response) => void>;
+
+  // keeps the replies so the test decides when and how each request completes
+  const connect = async () => {
+    replies = new Map();
+    server = await startFakeServer((request, reply) => {
+      replies.set(request.header.messageId, reply);
+    });
+    client = new Client("127.0.0.1", { port: server.port });
+    await client.connect();
+  };
+
+  const getCancelRequests = () => server.requests.filter(x => x.header.type === PacketType.Cancel);
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it("sends a cancel for the message id and rejects once aborted", async () => {
+    await connect();
+    const controller = new AbortController();
+
+    const echo = client.request({ type: PacketType.Echo }, {}, { signal: controller.signal });
+    await waitFor(() => server.requests.length === 1);
+    controller.abort();
+    await assert.rejects(echo, { name: "AbortError", message: "request_aborted: Echo(0)" });
+
+    await waitFor(() => getCancelRequests().length === 1);
+    const [cancel] = getCancelRequests();
+    assert.strictEqual(cancel.header.messageId, 0n);
+    assert.strictEqual(cancel.header.creditCharge, 0);
+    assert.strictEqual(cancel.header.flags & HeaderFlag.Async, 0);
+
+    // the canceled request completes later, which the client discards
+    replies.get(0n)(createResponse(server.requests[0], {}, { status: StatusCode.Cancelled }));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.strictEqual(client.responseMap.has(0n), false);
+  });
+
+  it("sends nothing for signals that are already aborted", async () => {
+    await connect();
+    const controller = new AbortController();
+    controller.abort();
+
+    await assert.rejects(client.request({ type: PacketType.Echo }, {}, { signal: controller.signal }), { name: "AbortError" });
+    assert.strictEqual(server.requests.length, 0);
+  });
+
+  it("cancels requests the server went async on with their async id", async () => {
+    await connect();
+
+    const request = client.createRequest({ type: PacketType.ChangeNotify }, { fileId: "0".repeat(32) });
+    const interimResponses: Response[] = [];
+    client.send(request, { onInterimResponse: response => interimResponses.push(response) }).catch(() => undefined);
+    await waitFor(() => server.requests.length === 1);
+    replies.get(request.header.messageId)(createInterimResponse(request));
+    await waitFor(() => interimResponses.length === 1);
+
+    client.cancel(request);
+    await waitFor(() => getCancelRequests().length === 1);
+    const [cancel] = getCancelRequests();
+    assert.strictEqual(cancel.header.messageId, request.header.messageId);
+    assert.ok((cancel.header.flags & HeaderFlag.Async) !== 0);
+    assert.strictEqual(cancel.header.asyncId, "0100000000000000");
+  });
+});
+
+describe("interim responses", () => {
+  let server: FakeServer;
+  let client: Client;
+
+  // answers each request with an interim response and then the final response after their delays
+  const connect = async (interimResponseDelay: number, finalResponseDelay: number, requestTimeout: number) => {
+    server = await startFakeServer((request, reply) => {
+      setTimeout(() => reply(createInterimResponse(request)), interimResponseDelay);
+      setTimeout(() => reply(createResponse(request, { structureSize: 4 })), finalResponseDelay);
+    });
+    client = new Client("127.0.0.1", { port: server.port, requestTimeout });
+    await client.connect();
+  };
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it("keeps the request pending until the final response", async () => {
+    await connect(0, 50, 1000);
+    const interimResponses: Response[] = [];
+
+    const response = await client.request({ type: PacketType.Echo }, {}, {
+      onInterimResponse: interimResponse => interimResponses.push(interimResponse)
+    });
+    assert.strictEqual(response.header.status, StatusCode.Success);
+    assert.strictEqual(interimResponses.length, 1);
+    assert.strictEqual(interimResponses[0].header.asyncId, "0100000000000000");
+    assert.strictEqual(client.responseMap.size, 0);
+    assert.strictEqual(client.asyncIdMap.size, 0);
+  });
+
+  it("restarts the request timeout once the server went async", async () => {
+    await connect(60, 130, 100);
+
+    assert.strictEqual((await client.echo()).header.status, StatusCode.Success);
+  });
+
+  it("times out requests whose final response takes longer than the timeout", async () => {
+    await connect(0, 150, 100);
+
+    await assert.rejects(client.echo(), /request_timeout: Echo\(0\)/);
+  });
+
+  it("waits for change notifications without a timeout once the server went async", async () => {
+    await connect(0, 150, 100);
+
+    const response = await client.request({ type: PacketType.ChangeNotify }, { fileId: "0".repeat(32) });
+    assert.strictEqual(response.header.status, StatusCode.Success);
+  });
+});
+
+describe("connection errors", () => {
+  let server: FakeServer;
+  let client: Client;
+
+  // the server never answers, so requests stay in flight until the connection closes
+  const connect = async (options: Options = {}) => {
+    server = await startFakeServer(() => undefined);
+    client = new Client("127.0.0.1", { port: server.port, ...options });
+    await client.connect();
+  };
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it("rejects the requests in flight and the requests sent while disconnected", async () => {
+    await connect();
+    let disconnected = false;
+    client.on("disconnect", () => disconnected = true);
+
+    const echo = client.echo();
+    await waitFor(() => server.requests.length === 1);
+    server.dropConnections();
+
+    await assert.rejects(echo, (err: Error) => err instanceof ConnectionError && /connection_closed: Echo\(0\)/.test(err.message));
+    await assert.rejects(client.echo(), (err: Error) => err instanceof ConnectionError && err.message === "not_connected");
+    assert.strictEqual(disconnected, true);
+    assert.strictEqual(client.responseCallbackMap.size, 0);
+  });
+
+  it("rejects the requests in flight when the client closes", async () => {
+    await connect();
+
+    const echo = client.echo();
+    await waitFor(() => server.requests.length === 1);
+    await client.close();
+
+    await assert.rejects(echo, ConnectionError);
+  });
+
+  it("connects again after the connection dropped", async () => {
+    await connect({ reconnect: { initialDelay: 10 } });
+    const events: string[] = [];
+    client.on("disconnect", () => events.push("disconnect"));
+    client.on("reconnect", () => events.push("reconnect"));
+
+    server.dropConnections();
+    await waitFor(() => events.length === 2);
+    assert.deepStrictEqual(events, ["disconnect", "reconnect"]);
+    assert.strictEqual(client.connected, true);
+
+    client.echo().catch(() => undefined);
+    await waitFor(() => server.requests.length === 1);
+    // the new connection starts over with its message ids
+    assert.strictEqual(server.requests[0].header.messageId, 0n);
+  });
+
+  it("gives up once every attempt failed", async () => {
+    await connect({ reconnect: { maxAttempts: 2, initialDelay: 10 } });
+    const errors: Error[] = [];
+    client.on("reconnectFailed", err => errors.push(err));
+    let reconnected = false;
+    client.on("reconnect", () => reconnected = true);
+
+    await server.close();
+    await waitFor(() => errors.length === 1);
+    assert.strictEqual((errors[0] as NodeJS.ErrnoException).code, "ECONNREFUSED");
+    assert.strictEqual(reconnected, false);
+    assert.strictEqual(client.connected, false);
+  });
+});
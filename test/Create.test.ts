@@ -0,0 +1,127 @@
+import assert from "assert";
+import { describe, it } from "node:test";
+import {
+  CreateContextName,
+  DurableHandleFlag,
+  serializeCreateContexts,
+  parseCreateContexts,
+  parseCreateContextResponse,
+  serializeNameAndCreateContexts,
+  serializeCreateContextRequest,
+  serializeDurableHandleRequestV2,
+  serializeDurableHandleReconnectV2,
+  parseDurableHandleResponseV2
+} from "../src/protocol/smb2/packets/Create";
+
+const hex = (value: string) => Buffer.from(value.replace(/\s/g, ""), "hex");
+
+describe("serializeCreateContexts", () => {
+  it("chains contexts on 8 byte boundaries", () => {
+    const buffer = serializeCreateContexts([
+      { name: CreateContextName.DurableHandleRequest, data: Buffer.alloc(0) },
+      { name: CreateContextName.DurableHandleReconnect, data: Buffer.alloc(0) }
+    ]);
+    assert.deepStrictEqual(buffer, hex(`
+      18000000 1000 0400 0000 0000 00000000 44486e51 00000000
+      00000000 1000 0400 0000 0000 00000000 44486e43
+    `));
+  });
+
+  it("aligns the data after the name", () => {
+    const buffer = serializeCreateContexts([
+      { name: CreateContextName.DurableHandleReconnect, data: hex("0102030405060708090a0b0c0d0e0f10") }
+    ]);
+    assert.deepStrictEqual(buffer, hex(`
+      00000000 1000 0400 0000 1800 10000000 44486e43 00000000
+      0102030405060708090a0b0c0d0e0f10
+    `));
+  });
+});
+
+describe("serializeCreateContextRequest", () => {
+  it("serializes the allocation size after the aligned name", () => {
+    const buffer = serializeCreateContexts([
+      serializeCreateContextRequest({ name: CreateContextName.AllocationSize, allocationSize: 0x1000n })
+    ]);
+    assert.deepStrictEqual(buffer, hex(`
+      00000000 1000 0400 0000 1800 08000000 416c5369 00000000
+      0010000000000000
+    `));
+  });
+
+  it("leaves the data of maximal access and on disk id requests empty", () => {
+    assert.deepStrictEqual(serializeCreateContextRequest({ name: CreateContextName.MaximalAccessRequest }), {
+      name: CreateContextName.MaximalAccessRequest,
+      data: Buffer.alloc(0)
+    });
+    assert.deepStrictEqual(serializeCreateContextRequest({ name: CreateContextName.QueryOnDiskId }), {
+      name: CreateContextName.QueryOnDiskId,
+      data: Buffer.alloc(0)
+    });
+  });
+});
+
+describe("parseCreateContextResponse", () => {
+  it("parses the maximal access and on disk id responses", () => {
+    // [MS-SMB2] 2.2.14.2.5 and 2.2.14.2.9
+    const createContextResponse = parseCreateContextResponse(hex(`
+      20000000 1000 0400 0000 1800 08000000 4d784163 00000000
+      00000000 ff011f00
+      00000000 1000 0400 0000 1800 20000000 51466964 00000000
+      2a00000000000000 8877665544332211 00000000000000000000000000000000
+    `));
+
+    assert.deepStrictEqual(createContextResponse.maximalAccess, { queryStatus: 0, maximalAccess: 0x001f01ff });
+    assert.deepStrictEqual(createContextResponse.onDiskId, { diskFileId: 42n, volumeId: 0x1122334455667788n });
+    assert.deepStrictEqual(createContextResponse.createContexts.map(x => x.name), ["MxAc", "QFid"]);
+  });
+});
+
+describe("parseCreateContexts", () => {
+  it("parses the names and data of chained contexts", () => {
+    const createContexts = [
+      { name: CreateContextName.DurableHandleRequestV2, data: hex("60ea0000 02000000") },
+      { name: CreateContextName.DurableHandleRequest, data: Buffer.alloc(0) }
+    ];
+    assert.deepStrictEqual(parseCreateContexts(serializeCreateContexts(createContexts)), createContexts);
+  });
+});
+
+describe("serializeNameAndCreateContexts", () => {
+  it("starts the create contexts on the next 8 byte boundary after the name", () => {
+    const fields = serializeNameAndCreateContexts("a", [{ name: CreateContextName.DurableHandleRequest, data: Buffer.alloc(0) }]);
+    assert.deepStrictEqual(fields.buffer, Buffer.from("a", "ucs2"));
+    assert.strictEqual(fields.createContextsOffset, 0x80);
+    assert.strictEqual(fields.createContextsLength, 20);
+    assert.deepStrictEqual(fields.createContexts.slice(0, 4), Buffer.alloc(4));
+  });
+
+  it("leaves the create contexts out without any", () => {
+    const fields = serializeNameAndCreateContexts("a");
+    assert.strictEqual(fields.createContextsLength, 0);
+    assert.strictEqual(fields.createContexts, undefined);
+  });
+});
+
+describe("durable handles v2", () => {
+  const createGuid = hex("000102030405060708090a0b0c0d0e0f");
+
+  it("serializes the request with the timeout, flags and create guid", () => {
+    assert.deepStrictEqual(serializeDurableHandleRequestV2(60000, DurableHandleFlag.Persistent, createGuid), hex(`
+      60ea0000 02000000 0000000000000000 000102030405060708090a0b0c0d0e0f
+    `));
+  });
+
+  it("serializes the reconnect with the file id, create guid and flags", () => {
+    assert.deepStrictEqual(serializeDurableHandleReconnectV2("ffeeddccbbaa99887766554433221100", createGuid, DurableHandleFlag.None), hex(`
+      ffeeddccbbaa99887766554433221100 000102030405060708090a0b0c0d0e0f 00000000
+    `));
+  });
+
+  it("parses the response", () => {
+    assert.deepStrictEqual(parseDurableHandleResponseV2(hex("60ea0000 02000000")), {
+      timeout: 60000,
+      flags: DurableHandleFlag.Persistent
+    });
+  });
+});
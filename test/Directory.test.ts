@@ -0,0 +1,116 @@
+import assert from "assert";
+import { describe, it, afterEach } from "node:test";
+import Tree from "../src/client/Tree";
+import PacketType from "../src/protocol/smb2/PacketType";
+import StatusCode from "../src/protocol/smb2/StatusCode";
+import DirectoryEntry from "../src/protocol/models/DirectoryEntry";
+import { Flags as QueryDirectoryFlags } from "../src/protocol/smb2/packets/QueryDirectory";
+import { FakeServer, RequestHandler, createResponse, createTree, startFakeServer } from "./fakeServer";
+import { ShareOptions, createShare, createShareHandler } from "./fakeShare";
+
+describe("directory listings", () => {
+  let server: FakeServer;
+  let tree: Tree;
+
+  const connect = async (handler: RequestHandler) => {
+    server = await startFakeServer(handler);
+    tree = await createTree(server);
+  };
+
+  const connectShare = async (fileCount: number, options?: ShareOptions) => {
+    const paths: { [path: string]: string | null } = { dir: null };
+    for (let index = 0; index < fileCount; index++) paths[`dir/file${index}.txt`] = "";
+    await connect(createShareHandler(createShare(paths), options));
+  };
+
+  const getQueryDirectoryRequests = () => server.requests.filter(x => x.header.type === PacketType.QueryDirectory);
+
+  afterEach(async () => {
+    await tree.session.client.close();
+    await server.close();
+  });
+
+  it("queries the directory until the server has no more files", async () => {
+    await connectShare(5, { pageSize: 2 });
+
+    const entries = await tree.readDirectory("dir");
+    assert.deepStrictEqual(entries.map(x => x.filename), ["./file0.txt", "./file1.txt", "./file2.txt", "./file3.txt", "./file4.txt"]);
+
+    // three pages, then the NoMoreFiles that ends the listing
+    const queryDirectoryRequests = getQueryDirectoryRequests();
+    assert.strictEqual(queryDirectoryRequests.length, 4);
+    assert.strictEqual(queryDirectoryRequests[0].body.flags, QueryDirectoryFlags.RestartScans);
+    assert.ok(queryDirectoryRequests.slice(1).every(x => x.body.flags === QueryDirectoryFlags.None));
+    assert.strictEqual(server.requests[server.requests.length - 1].header.type, PacketType.Close);
+  });
+
+  it("lists empty directories without entries", async () => {
+    await connectShare(0);
+
+    assert.deepStrictEqual(await tree.readDirectory("dir"), []);
+    assert.strictEqual(getQueryDirectoryRequests().length, 1);
+  });
+
+  it("leaves out the entries of the directory itself and its parent", async () => {
+    await connect(createShareHandler(createShare({ ".": null, "..": null, "file.txt": "" })));
+
+    const entries = await tree.readDirectory("/");
+    assert.deepStrictEqual(entries.map(x => x.filename), ["./file.txt"]);
+  });
+
+  it("rejects other failures of the listing", async () => {
+    await connect((request, reply) => {
+      if (request.header.type === PacketType.QueryDirectory) {
+        reply(createResponse(request, { structureSize: 9 }, { status: StatusCode.AccessDenied }));
+        return;
+      }
+      reply(createResponse(request, { structureSize: 89, fileId: Buffer.alloc(16, 1) }));
+    });
+
+    await assert.rejects(tree.readDirectory("dir"), (response: any) => response.header.status === StatusCode.AccessDenied);
+  });
+
+  it("lets the server match the names against a pattern", async () => {
+    await connect(createShareHandler(createShare({ "a.log": "", "b.log": "", "c.txt": "" })));
+
+    const entries = await tree.readDirectory("/", { pattern: "*.log" });
+    assert.deepStrictEqual(entries.map(x => x.filename), ["./a.log", "./b.log"]);
+    assert.strictEqual((getQueryDirectoryRequests()[0].body.buffer as Buffer).toString("ucs2"), "*.log");
+
+    // patterns without matches fail the first query
+    assert.deepStrictEqual(await tree.readDirectory("/", { pattern: "*.bin" }), []);
+  });
+
+  describe("iterateDirectory", () => {
+    it("queries the next page only once the entries of the previous page are used", async () => {
+      await connectShare(4, { pageSize: 2 });
+
+      const iterator = tree.iterateDirectory("dir");
+      const nextFilename = async () => ((await iterator.next()).value as DirectoryEntry).filename;
+      assert.strictEqual(await nextFilename(), "./file0.txt");
+      assert.strictEqual(await nextFilename(), "./file1.txt");
+      assert.strictEqual(getQueryDirectoryRequests().length, 1);
+
+      assert.strictEqual(await nextFilename(), "./file2.txt");
+      assert.strictEqual(getQueryDirectoryRequests().length, 2);
+      await iterator.return(undefined);
+      assert.strictEqual(server.requests[server.requests.length - 1].header.type, PacketType.Close);
+      assert.deepStrictEqual(tree.openDirectories, []);
+    });
+
+    it("resumes at a file index and asks for single entries", async () => {
+      await connectShare(4);
+
+      const filenames: string[] = [];
+      for await (const entry of tree.iterateDirectory("dir", { fileIndex: 2, singleEntry: true })) {
+        filenames.push(entry.filename);
+      }
+      assert.deepStrictEqual(filenames, ["./file2.txt", "./file3.txt"]);
+
+      const [first, ...rest] = getQueryDirectoryRequests();
+      assert.strictEqual(first.body.flags, QueryDirectoryFlags.IndexSpecified | QueryDirectoryFlags.ReturnSingleEntry);
+      assert.strictEqual(first.body.fileIndex, 2);
+      assert.ok(rest.every(x => x.body.flags === QueryDirectoryFlags.ReturnSingleEntry && x.body.fileIndex === 0));
+    });
+  });
+});
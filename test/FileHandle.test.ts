@@ -0,0 +1,156 @@
+import assert from "assert";
+import { describe, it, afterEach } from "node:test";
+import Tree from "../src/client/Tree";
+import FileHandle, { getOpenOptions } from "../src/client/FileHandle";
+import PacketType from "../src/protocol/smb2/PacketType";
+import StatusCode from "../src/protocol/smb2/StatusCode";
+import ShareAccessType from "../src/protocol/smb2/ShareAccessType";
+import { CreateOptions } from "../src/protocol/smb2/packets/Create";
+import CreateDispositionType from "../src/protocol/smb2/CreateDispositionType";
+import FilePipePrinterAccess from "../src/protocol/smb2/FilePipePrinterAccess";
+import { FakeServer, createResponse, createTree, startFakeServer } from "./fakeServer";
+
+describe("getOpenOptions", () => {
+  it("maps the node open flags onto the create disposition", () => {
+    assert.deepStrictEqual(
+      (["r", "r+", "w", "wx", "a"] as const).map(x => getOpenOptions(x).createDisposition),
+      [
+        CreateDispositionType.Open,
+        CreateDispositionType.Open,
+        CreateDispositionType.OverwriteIf,
+        CreateDispositionType.Create,
+        CreateDispositionType.OpenIf
+      ]
+    );
+  });
+
+  it("asks for the access the flags need", () => {
+    const { desiredAccess: readAccess } = getOpenOptions("r");
+    assert.ok((readAccess & FilePipePrinterAccess.ReadData) !== 0);
+    assert.strictEqual(readAccess & FilePipePrinterAccess.WriteData, 0);
+
+    const { desiredAccess: readWriteAccess } = getOpenOptions("r+");
+    assert.ok((readWriteAccess & FilePipePrinterAccess.ReadData) !== 0);
+    assert.ok((readWriteAccess & FilePipePrinterAccess.WriteData) !== 0);
+
+    // without write data access the server appends every write
+    const { desiredAccess: appendAccess } = getOpenOptions("a");
+    assert.ok((appendAccess & FilePipePrinterAccess.AppendData) !== 0);
+    assert.strictEqual(appendAccess & FilePipePrinterAccess.WriteData, 0);
+  });
+
+  it("shares files for writing only while they are opened for reading", () => {
+    assert.ok((getOpenOptions("r").shareAccess & ShareAccessType.Write) !== 0);
+    assert.strictEqual(getOpenOptions("w").shareAccess, ShareAccessType.Read);
+  });
+
+  it("opens files and never directories", () => {
+    assert.strictEqual(getOpenOptions("r").createOptions, CreateOptions.NonDirectoryFile);
+  });
+
+  it("rejects unknown flags", () => {
+    assert.throws(() => getOpenOptions("x" as any), /invalid_open_flags: x/);
+  });
+});
+
+describe("FileHandle", () => {
+  let server: FakeServer;
+  let tree: Tree;
+  let content: Buffer;
+
+  // keeps the content of a single file like a share would
+  const connect = async (initialContent: string) => {
+    content = Buffer.from(initialContent);
+    server = await startFakeServer((request, reply) => {
+      const offset = BigInt.asUintN(64, BigInt(request.body.offset || 0));
+      if (request.header.type === PacketType.Create) {
+        reply(createResponse(request, { structureSize: 89, fileId: Buffer.alloc(16, 1), endOfFile: BigInt(content.length) }));
+      } else if (request.header.type === PacketType.Read) {
+        if (offset >= BigInt(content.length)) {
+          reply(createResponse(request, { structureSize: 9 }, { status: StatusCode.EndOfFile }));
+          return;
+        }
+        const buffer = content.slice(Number(offset), Number(offset) + request.body.length);
+        reply(createResponse(request, { structureSize: 17, dataOffset: 80, buffer }));
+      } else if (request.header.type === PacketType.Write) {
+        const buffer = request.body.buffer as Buffer;
+        // [MS-SMB2] 2.2.21: an offset of all ones writes to the end of the file
+        const writeOffset = offset === 0xffffffffffffffffn ? content.length : Number(offset);
+        content = Buffer.concat([
+          content.slice(0, writeOffset),
+          Buffer.alloc(Math.max(writeOffset - content.length, 0)),
+          buffer,
+          content.slice(writeOffset + buffer.length)
+        ]);
+        reply(createResponse(request, { structureSize: 17, count: buffer.length }));
+      } else {
+        reply(createResponse(request, { structureSize: 4 }));
+      }
+    });
+    tree = await createTree(server);
+  };
+
+  const read = async (fileHandle: FileHandle, length: number, position?: number) => {
+    const { bytesRead, buffer } = await fileHandle.read(Buffer.alloc(length), 0, length, position);
+    return buffer.slice(0, bytesRead).toString();
+  };
+
+  afterEach(async () => {
+    await tree.session.client.close();
+    await server.close();
+  });
+
+  it("moves the position only for reads and writes without a position", async () => {
+    await connect("0123456789");
+    const fileHandle = await tree.open("file.txt", "r+");
+    assert.strictEqual(server.requests[0].body.createDisposition, CreateDispositionType.Open);
+    assert.strictEqual(server.requests[0].body.createOptions, CreateOptions.NonDirectoryFile);
+
+    assert.strictEqual(await read(fileHandle, 3), "012");
+    assert.strictEqual(await read(fileHandle, 3, 7), "789");
+    assert.strictEqual(fileHandle.position, 3n);
+
+    await fileHandle.write("ab");
+    assert.strictEqual(fileHandle.position, 5n);
+    await fileHandle.write("z", 0);
+    assert.strictEqual(fileHandle.position, 5n);
+    assert.strictEqual(content.toString(), "z12ab56789");
+
+    await fileHandle.close();
+  });
+
+  it("reads less than asked for at the end of the file", async () => {
+    await connect("0123");
+    const fileHandle = await tree.open("file.txt");
+
+    assert.strictEqual(await read(fileHandle, 3, 2), "23");
+    assert.strictEqual(await read(fileHandle, 3, 4), "");
+    await fileHandle.close();
+  });
+
+  it("appends every write of append handles", async () => {
+    await connect("0123");
+    const fileHandle = await tree.open("file.txt", "a");
+
+    await fileHandle.write("ab", 0);
+    await fileHandle.write("cd");
+    assert.strictEqual(content.toString(), "0123abcd");
+    assert.strictEqual(fileHandle.position, 0n);
+    await fileHandle.close();
+  });
+
+  it("truncates, syncs and closes the file", async () => {
+    await connect("0123");
+    const fileHandle = await tree.open("file.txt", "r+");
+
+    await fileHandle.truncate(2);
+    await fileHandle.sync();
+    await fileHandle.close();
+    assert.deepStrictEqual(
+      server.requests.map(x => x.header.type),
+      [PacketType.Create, PacketType.SetInfo, PacketType.Flush, PacketType.Close]
+    );
+    assert.strictEqual((server.requests[1].body.buffer as Buffer).readBigInt64LE(0), 2n);
+    assert.deepStrictEqual(tree.openFiles, []);
+  });
+});
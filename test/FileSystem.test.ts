@@ -0,0 +1,190 @@
+import assert from "assert";
+import fs from "fs";
+import os from "os";
+import { describe, it, afterEach } from "node:test";
+import Tree from "../src/client/Tree";
+import FileSystem, { NodeError } from "../src/client/FileSystem";
+import PacketType from "../src/protocol/smb2/PacketType";
+import StatusCode from "../src/protocol/smb2/StatusCode";
+import FileAttribute from "../src/protocol/smb2/FileAttribute";
+import { FakeServer, RequestHandler, createResponse, createTree, startFakeServer } from "./fakeServer";
+import { Share, createShare, createShareHandler } from "./fakeShare";
+
+describe("FileSystem", () => {
+  let server: FakeServer;
+  let tree: Tree;
+  let fileSystem: FileSystem;
+
+  const connect = async (handler: RequestHandler) => {
+    server = await startFakeServer(handler);
+    tree = await createTree(server);
+    fileSystem = new FileSystem(tree);
+  };
+
+  const connectShare = async (share: Share) => await connect(createShareHandler(share));
+
+  afterEach(async () => {
+    await tree.session.client.close();
+    await server.close();
+  });
+
+  describe("errors", () => {
+    const failCreate = (status: StatusCode): RequestHandler => (request, reply) => {
+      reply(createResponse(request, { structureSize: 9 }, { status }));
+    };
+
+    for (const [status, code] of [
+      [StatusCode.FileNameNotFound, "ENOENT"],
+      [StatusCode.FilePathNotFound, "ENOENT"],
+      [StatusCode.ObjectNameCollision, "EEXIST"],
+      [StatusCode.AccessDenied, "EACCES"],
+      [StatusCode.SharingViolation, "EBUSY"],
+      [StatusCode.DirectoryNotEmpty, "ENOTEMPTY"],
+      [StatusCode.FileIsADirectory, "EISDIR"],
+      [StatusCode.NotADirectory, "ENOTDIR"],
+      [StatusCode.LogonFailure, "EIO"]
+    ] as [StatusCode, string][]) {
+      it(`rejects ${StatusCode[status]} with ${code}`, async () => {
+        await connect(failCreate(status));
+
+        await assert.rejects(fileSystem.stat("dir/file.txt"), (err: NodeError) => {
+          assert.ok(err instanceof Error);
+          assert.strictEqual(err.code, code);
+          assert.strictEqual(err.errno, -os.constants.errno[code]);
+          assert.strictEqual(err.syscall, "stat");
+          assert.strictEqual(err.path, "dir/file.txt");
+          assert.strictEqual(err.status, status);
+          assert.strictEqual(err.message.startsWith(`${code}: `), true);
+          return true;
+        });
+      });
+    }
+
+    it("names both paths of failed renames", async () => {
+      await connect(failCreate(StatusCode.FileNameNotFound));
+
+      await assert.rejects(fileSystem.rename("a.txt", "b.txt"), (err: any) => {
+        assert.strictEqual(err.message, "ENOENT: no such file or directory, rename 'a.txt' -> 'b.txt'");
+        assert.strictEqual(err.dest, "b.txt");
+        return true;
+      });
+    });
+  });
+
+  it("writes, appends and reads files", async () => {
+    const share = createShare({ dir: null });
+    await connectShare(share);
+
+    await fileSystem.writeFile("dir/file.txt", "hello");
+    await fileSystem.appendFile("dir/file.txt", Buffer.from(" world"));
+    assert.strictEqual(share.get("dir\\file.txt").content.toString(), "hello world");
+    assert.strictEqual(await fileSystem.readFile("dir/file.txt", "utf8"), "hello world");
+    assert.deepStrictEqual(await fileSystem.readFile("dir/file.txt"), Buffer.from("hello world"));
+
+    await fileSystem.writeFile("dir/file.txt", "replaced");
+    assert.strictEqual(await fileSystem.readFile("dir/file.txt", { encoding: "utf8" }), "replaced");
+    await assert.rejects(fileSystem.writeFile("dir/file.txt", "", { flag: "wx" }), { code: "EEXIST", syscall: "open" });
+    assert.deepStrictEqual(tree.openFiles, []);
+  });
+
+  it("lists directories with their file types", async () => {
+    await connectShare(createShare({ dir: null, "dir/sub": null, "dir/file.txt": "content" }));
+
+    assert.deepStrictEqual((await fileSystem.readdir("dir")).sort(), ["file.txt", "sub"]);
+    const dirents = await fileSystem.readdir("dir", { withFileTypes: true });
+    assert.deepStrictEqual(
+      dirents.map(x => [x.name, x.isDirectory(), x.isFile()]).sort(),
+      [["file.txt", false, true], ["sub", true, false]]
+    );
+  });
+
+  describe("mkdir", () => {
+    it("creates the missing directories and returns the first one when recursive", async () => {
+      const share = createShare({ a: null });
+      await connectShare(share);
+
+      assert.strictEqual(await fileSystem.mkdir("a/b/c", { recursive: true }), "a/b");
+      assert.ok(share.has("a\\b\\c"));
+      assert.strictEqual(await fileSystem.mkdir("a/b/c", { recursive: true }), undefined);
+    });
+
+    it("fails on files in the way", async () => {
+      await connectShare(createShare({ a: null, "a/file.txt": "" }));
+
+      await assert.rejects(fileSystem.mkdir("a/file.txt/b", { recursive: true }), { code: "ENOTDIR", syscall: "mkdir" });
+      await assert.rejects(fileSystem.mkdir("a/file.txt", { recursive: true }), { code: "EEXIST" });
+      await assert.rejects(fileSystem.mkdir("a"), { code: "EEXIST" });
+    });
+  });
+
+  describe("rm", () => {
+    it("removes directories with their contents only when recursive", async () => {
+      const share = createShare({ dir: null, "dir/sub": null, "dir/sub/file.txt": "", "dir/file.txt": "" });
+      await connectShare(share);
+
+      await assert.rejects(fileSystem.rm("dir"), { code: "EISDIR", syscall: "rm" });
+      await assert.rejects(fileSystem.rmdir("dir"), { code: "ENOTEMPTY", syscall: "rmdir" });
+      await fileSystem.rm("dir", { recursive: true });
+      assert.deepStrictEqual([...share.keys()], [""]);
+    });
+
+    it("ignores missing paths only when forced", async () => {
+      await connectShare(createShare());
+
+      await assert.rejects(fileSystem.rm("missing.txt"), { code: "ENOENT", syscall: "lstat" });
+      await fileSystem.rm("missing.txt", { force: true });
+    });
+  });
+
+  it("replaces the destination of renames", async () => {
+    const share = createShare({ "a.txt": "a", "b.txt": "b" });
+    await connectShare(share);
+
+    await fileSystem.rename("a.txt", "b.txt");
+    assert.deepStrictEqual([...share.keys()].sort(), ["", "b.txt"]);
+    assert.strictEqual(share.get("b.txt").content.toString(), "a");
+  });
+
+  it("copies files and keeps existing destinations with COPYFILE_EXCL", async () => {
+    const share = createShare({ "a.txt": "content", "b.txt": "" });
+    await connectShare(share);
+
+    await fileSystem.copyFile("a.txt", "c.txt");
+    assert.strictEqual(share.get("c.txt").content.toString(), "content");
+    await assert.rejects(fileSystem.copyFile("a.txt", "b.txt", fs.constants.COPYFILE_EXCL), { code: "EEXIST" });
+    assert.strictEqual(share.get("b.txt").content.toString(), "");
+  });
+
+  it("denies write access to read-only files", async () => {
+    const share = createShare({ "file.txt": "", dir: null });
+    share.get("file.txt").fileAttributes = FileAttribute.ReadOnly;
+    share.get("dir").fileAttributes |= FileAttribute.ReadOnly;
+    await connectShare(share);
+
+    await fileSystem.access("file.txt", fs.constants.R_OK);
+    await assert.rejects(fileSystem.access("file.txt", fs.constants.W_OK), { code: "EACCES", syscall: "access" });
+    await fileSystem.access("dir", fs.constants.W_OK);
+    await assert.rejects(fileSystem.access("missing.txt"), { code: "ENOENT" });
+  });
+
+  it("streams files in chunks", async () => {
+    const share = createShare({ "file.txt": "0123456789" });
+    await connectShare(share);
+
+    const chunks: string[] = [];
+    for await (const chunk of fileSystem.createReadStream("file.txt", { start: 2, end: 8, highWaterMark: 3 })) {
+      chunks.push(chunk.toString());
+    }
+    assert.deepStrictEqual(chunks, ["234", "567", "8"]);
+    assert.strictEqual(server.requests.filter(x => x.header.type === PacketType.Read).length, 3);
+
+    await new Promise<void>((resolve, reject) => {
+      const stream = fileSystem.createWriteStream("copy.txt");
+      stream.on("error", reject);
+      stream.on("finish", resolve);
+      stream.write("ab");
+      stream.end("cd");
+    });
+    assert.strictEqual(share.get("copy.txt").content.toString(), "abcd");
+  });
+});
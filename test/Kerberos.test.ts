@@ -0,0 +1,166 @@
+import path from "path";
+import assert from "assert";
+import { promises as fs } from "fs";
+import { describe, it, before, after } from "node:test";
+import * as kdc from "./kdc";
+import Kerberos from "../src/client/Kerberos";
+import KeyUsage from "../src/protocol/kerberos/KeyUsage";
+import MessageType from "../src/protocol/kerberos/MessageType";
+import EncryptionType from "../src/protocol/kerberos/EncryptionType";
+import * as kerberosUtil from "../src/protocol/kerberos/util";
+import * as kerberosFileUtil from "../src/protocol/kerberos/fileUtil";
+import * as kerberosCryptoUtil from "../src/protocol/kerberos/cryptoUtil";
+import { GssTokenId } from "../src/protocol/kerberos/util";
+
+const hex = (value: string) => Buffer.from(value.replace(/\s/g, ""), "hex");
+
+// user.keytab: keys of user@EXAMPLE.COM (kvno 1 from "old password", kvno 2 from "password"),
+// a deleted entry and the key of cifs/server@EXAMPLE.COM
+// user.ccache: a configuration entry, a ticket granting ticket valid until 2100 and an expired ticket for cifs/server
+const keytabPath = path.join(__dirname, "fixtures", "user.keytab");
+const credentialCachePath = path.join(__dirname, "fixtures", "user.ccache");
+
+describe("cryptoUtil", () => {
+  it("n-folds the RFC 3961 vectors", () => {
+    // [RFC 3961] A.1
+    assert.deepStrictEqual(kerberosCryptoUtil.nfold(Buffer.from("012345"), 8), hex("be072631276b1955"));
+    assert.deepStrictEqual(kerberosCryptoUtil.nfold(Buffer.from("password"), 7), hex("78a07b6caf85fa"));
+    assert.deepStrictEqual(
+      kerberosCryptoUtil.nfold(Buffer.from("kerberos"), 16),
+      hex("6b65726265726f737b9b5b2b93132b93")
+    );
+    assert.deepStrictEqual(
+      kerberosCryptoUtil.nfold(Buffer.from("kerberos"), 21),
+      hex("8372c236344e5f1550cd0747e15d62ca7a5a3bcea4")
+    );
+  });
+
+  it("derives keys from passwords like the RFC 3962 vectors", () => {
+    // [RFC 3962] B
+    const salt = "ATHENA.MIT.EDUraeburn";
+    assert.deepStrictEqual(
+      kerberosCryptoUtil.createKeyFromPassword(EncryptionType.Aes128CtsHmacSha196, "password", salt, 1).value,
+      hex("42263c6e89f4fc28b8df68ee09799f15")
+    );
+    assert.deepStrictEqual(
+      kerberosCryptoUtil.createKeyFromPassword(EncryptionType.Aes256CtsHmacSha196, "password", salt, 1).value,
+      hex("fe697b52bc0d3ce14432ba036a92e65b bb52280990a2fa27883998d72af30161")
+    );
+    assert.deepStrictEqual(
+      kerberosCryptoUtil.createKeyFromPassword(EncryptionType.Aes256CtsHmacSha196, "password", salt, 1200).value,
+      hex("55a6ac740ad17b4846941051e1e8b0a7 548d93b0ab30a8bc3ff16280382b8c2a")
+    );
+  });
+
+  it("encrypts and decrypts with integrity protection", () => {
+    const plaintext = Buffer.from("a message longer than one block");
+    const ciphertext = kerberosCryptoUtil.encrypt(kdc.serverKey, KeyUsage.ApReqAuthenticator, plaintext);
+    assert.deepStrictEqual(kerberosCryptoUtil.decrypt(kdc.serverKey, KeyUsage.ApReqAuthenticator, ciphertext), plaintext);
+    assert.throws(
+      () => kerberosCryptoUtil.decrypt(kdc.serverKey, KeyUsage.ApRepEncryptedPart, ciphertext),
+      /integrity_check_failed/
+    );
+  });
+});
+
+describe("fileUtil", () => {
+  it("parses the keytab", async () => {
+    const entries = kerberosFileUtil.parseKeytab(await fs.readFile(keytabPath));
+    assert.deepStrictEqual(entries.map(x => [x.principal, x.keyVersion, x.key.type]), [
+      [kdc.client, 1, EncryptionType.Aes256CtsHmacSha196],
+      [kdc.client, 2, EncryptionType.Aes256CtsHmacSha196],
+      [kdc.client, 2, EncryptionType.Aes128CtsHmacSha196],
+      [kdc.server, 3, EncryptionType.Aes256CtsHmacSha196]
+    ]);
+    assert.deepStrictEqual(entries[0].timestamp, new Date("2024-01-01T00:00:00Z"));
+    assert.deepStrictEqual(
+      entries[1].key,
+      kerberosCryptoUtil.createKeyFromPassword(EncryptionType.Aes256CtsHmacSha196, kdc.password, kdc.salt)
+    );
+    assert.deepStrictEqual(
+      entries[2].key,
+      kerberosCryptoUtil.createKeyFromPassword(EncryptionType.Aes128CtsHmacSha196, kdc.password, kdc.salt)
+    );
+    assert.deepStrictEqual(entries[3].key, kdc.serverKey);
+  });
+
+  it("parses the credential cache without its configuration entries", async () => {
+    const credentialCache = kerberosFileUtil.parseCredentialCache(await fs.readFile(credentialCachePath));
+    assert.deepStrictEqual(credentialCache.defaultPrincipal, kdc.client);
+    assert.deepStrictEqual(credentialCache.credentials.map(x => [x.client, x.server]), [
+      [kdc.client, kdc.ticketGrantingServer],
+      [kdc.client, kdc.server]
+    ]);
+
+    const [ticketGrantingCredential] = credentialCache.credentials;
+    assert.deepStrictEqual(ticketGrantingCredential.key, kdc.ticketGrantingSessionKey);
+    assert.deepStrictEqual(ticketGrantingCredential.authTime, new Date("2024-01-01T00:00:00Z"));
+    assert.deepStrictEqual(ticketGrantingCredential.endTime, new Date("2100-01-01T00:00:00Z"));
+    assert.deepStrictEqual(ticketGrantingCredential.renewTill, new Date("2100-01-08T00:00:00Z"));
+    assert.strictEqual(ticketGrantingCredential.flags, 0x40e10000);
+
+    const ticket = kerberosUtil.decodeTicket(ticketGrantingCredential.ticket);
+    assert.strictEqual(ticket.realm, kdc.realm);
+    assert.deepStrictEqual(ticket.serverName, kdc.ticketGrantingServer.name);
+  });
+
+  it("rejects unsupported versions", () => {
+    assert.throws(() => kerberosFileUtil.parseKeytab(hex("0501")), /keytab_version_not_supported/);
+    assert.throws(() => kerberosFileUtil.parseCredentialCache(hex("0502")), /credential_cache_version_not_supported/);
+  });
+});
+
+describe("Kerberos", () => {
+  let kdcStandIn: kdc.KdcStandIn;
+
+  before(async () => {
+    kdcStandIn = await kdc.startKdc();
+  });
+
+  after(async () => {
+    await kdcStandIn.close();
+  });
+
+  // completes the context like the service: the AP-REQ has to decrypt with the service key
+  const authenticate = async (kerberos: Kerberos) => {
+    kdcStandIn.requests.length = 0;
+
+    const { tokenId, token } = kerberosUtil.decodeGssToken(await kerberos.createApRequestToken());
+    assert.strictEqual(tokenId, GssTokenId.ApReq);
+
+    const apRequest = kdc.acceptApRequest(token, kdc.serverKey, KeyUsage.ApReqAuthenticator);
+    assert.deepStrictEqual(apRequest.client, kdc.client);
+    assert.deepStrictEqual(kerberos.getSessionKey(), apRequest.authenticator.subkey.value);
+
+    const acceptorSubkey = kerberosCryptoUtil.generateKey(EncryptionType.Aes256CtsHmacSha196);
+    const sessionKey = kerberos.getSessionKey(kdc.encodeApReplyToken(apRequest.key, acceptorSubkey));
+    assert.strictEqual(sessionKey.length, 32);
+    assert.deepStrictEqual(sessionKey, acceptorSubkey.value);
+  };
+
+  it("authenticates with a password after the KDC asks for preauthentication", async () => {
+    await authenticate(new Kerberos("server", kdc.user, kdc.realm, kdc.password, { kdc: kdcStandIn.address }));
+    assert.deepStrictEqual(kdcStandIn.requests, [MessageType.AsReq, MessageType.AsReq, MessageType.TgsReq]);
+  });
+
+  it("authenticates with the latest key of the keytab", async () => {
+    await authenticate(new Kerberos("server", kdc.user, kdc.realm, undefined, {
+      kdc: kdcStandIn.address,
+      keytab: keytabPath
+    }));
+    assert.deepStrictEqual(kdcStandIn.requests, [MessageType.AsReq, MessageType.AsReq, MessageType.TgsReq]);
+  });
+
+  it("requests a service ticket with the ticket granting ticket of the credential cache", async () => {
+    await authenticate(new Kerberos("server", kdc.user, kdc.realm, undefined, {
+      kdc: kdcStandIn.address,
+      credentialCache: `FILE:${credentialCachePath}`
+    }));
+    assert.deepStrictEqual(kdcStandIn.requests, [MessageType.TgsReq]);
+  });
+
+  it("fails with a wrong password", async () => {
+    const kerberos = new Kerberos("server", kdc.user, kdc.realm, "wrong password", { kdc: kdcStandIn.address });
+    await assert.rejects(kerberos.createApRequestToken(), /kerberos_error: PreauthenticationFailed/);
+  });
+});
@@ -0,0 +1,78 @@
+import assert from "assert";
+import { describe, it } from "node:test";
+import Cipher from "../src/protocol/smb2/Cipher";
+import SigningAlgorithm from "../src/protocol/smb2/SigningAlgorithm";
+import {
+  HashAlgorithm,
+  NegotiateContexts,
+  serializeNegotiateContextList,
+  parseNegotiateContextList,
+  getRequestNegotiateContextListOffset,
+  getResponseNegotiateContextListOffset
+} from "../src/protocol/smb2/packets/Negotiate";
+
+const hex = (value: string) => Buffer.from(value.replace(/\s/g, ""), "hex");
+
+const salt = Buffer.alloc(32, 0x11);
+
+describe("serializeNegotiateContextList", () => {
+  it("aligns each context to 8 bytes from the beginning of the header", () => {
+    const offset = getRequestNegotiateContextListOffset(5);
+    const negotiateContextList = serializeNegotiateContextList(offset, {
+      preauthIntegrityCapabilities: { hashAlgorithms: [HashAlgorithm.Sha512], salt },
+      encryptionCapabilities: { ciphers: [Cipher.Aes128Gcm, Cipher.Aes128Ccm] }
+    });
+
+    assert.strictEqual(offset, 110);
+    assert.strictEqual(negotiateContextList.negotiateContextOffset, 112);
+    assert.strictEqual(negotiateContextList.negotiateContextCount, 2);
+    assert.deepStrictEqual(negotiateContextList.negotiateContextList, Buffer.concat([
+      hex("0000"),
+      hex("0100 2600 00000000 0100 2000 0100"),
+      salt,
+      hex("0000"),
+      hex("0200 0600 00000000 0200 0200 0100")
+    ]));
+  });
+
+  it("leaves the list out without contexts", () => {
+    assert.deepStrictEqual(serializeNegotiateContextList(110, {}), {
+      negotiateContextOffset: 0,
+      negotiateContextCount: 0,
+      negotiateContextList: Buffer.alloc(0)
+    });
+  });
+});
+
+describe("parseNegotiateContextList", () => {
+  it("parses the contexts it serialized", () => {
+    const offset = getResponseNegotiateContextListOffset(74);
+    const negotiateContexts: NegotiateContexts = {
+      preauthIntegrityCapabilities: { hashAlgorithms: [HashAlgorithm.Sha512], salt },
+      encryptionCapabilities: { ciphers: [Cipher.Aes256Gcm] },
+      netname: "server",
+      signingCapabilities: { signingAlgorithms: [SigningAlgorithm.AesGmac] }
+    };
+    const negotiateContextList = serializeNegotiateContextList(offset, negotiateContexts);
+
+    assert.deepStrictEqual(
+      parseNegotiateContextList(
+        negotiateContextList.negotiateContextList,
+        offset,
+        negotiateContextList.negotiateContextOffset,
+        negotiateContextList.negotiateContextCount
+      ),
+      negotiateContexts
+    );
+  });
+
+  it("parses the cipher of servers without a cipher in common", () => {
+    // [MS-SMB2] 2.2.4.1.2
+    const negotiateContexts = parseNegotiateContextList(hex("0200 0400 00000000 0100 0000"), 200, 200, 1);
+    assert.deepStrictEqual(negotiateContexts.encryptionCapabilities, { ciphers: [Cipher.None] });
+  });
+
+  it("rejects lists shorter than their count", () => {
+    assert.throws(() => parseNegotiateContextList(hex("0200 0400 00000000 0100 0000"), 200, 200, 2), /invalid_negotiate_context_list/);
+  });
+});
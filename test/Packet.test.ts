@@ -0,0 +1,38 @@
+import assert from "assert";
+import { describe, it } from "node:test";
+import Packet from "../src/protocol/smb2/Packet";
+import HeaderFlag from "../src/protocol/smb2/HeaderFlag";
+import PacketType from "../src/protocol/smb2/PacketType";
+import { nextCommandOffset } from "../src/protocol/smb2/Header";
+
+describe("serializeCompound", () => {
+  it("pads all but the last message to 8 bytes and points at the next one", () => {
+    const messages = Packet.serializeCompound([
+      { header: { type: PacketType.Echo, messageId: 1n }, body: {} },
+      { header: { type: PacketType.Echo, messageId: 2n, flags: HeaderFlag.Chained }, body: {} }
+    ]);
+
+    assert.deepStrictEqual(messages.map(x => x.length), [72, 68]);
+    assert.strictEqual(messages[0].readUInt32LE(nextCommandOffset), 72);
+    assert.strictEqual(messages[1].readUInt32LE(nextCommandOffset), 0);
+  });
+});
+
+describe("splitCompound", () => {
+  it("splits a compound into its messages including their padding", () => {
+    const messages = Packet.serializeCompound([
+      { header: { type: PacketType.Echo, messageId: 1n }, body: {} },
+      { header: { type: PacketType.Echo, messageId: 2n }, body: {} },
+      { header: { type: PacketType.Echo, messageId: 3n }, body: {} }
+    ]);
+
+    const splitMessages = Packet.splitCompound(Buffer.concat(messages));
+    assert.deepStrictEqual(splitMessages, messages);
+    assert.deepStrictEqual(splitMessages.map(x => Packet.parse(x).header.messageId), [1n, 2n, 3n]);
+  });
+
+  it("returns a single message as is", () => {
+    const message = Packet.serializeMessage({ type: PacketType.Echo, messageId: 1n }, {});
+    assert.deepStrictEqual(Packet.splitCompound(message), [message]);
+  });
+});
@@ -0,0 +1,108 @@
+import assert from "assert";
+import { describe, it } from "node:test";
+import FileAttribute from "../src/protocol/smb2/FileAttribute";
+import { FileInfoClass } from "../src/protocol/smb2/packets/SetInfo";
+import { parseDirectoryInformationList } from "../src/protocol/smb2/packets/QueryDirectory";
+
+// 2020-01-01T00:00:00Z in 100 nanosecond intervals since 1601
+const fileTime = 132223104000000000n;
+const date = new Date("2020-01-01T00:00:00Z");
+
+/**
+ * Chains the entries by their next entry offset, padding each but the last to 8 bytes.
+ */
+const chainEntries = (entries: Buffer[]) => {
+  return Buffer.concat(entries.map((entry, index) => {
+    if (index === entries.length - 1) return entry;
+
+    const paddedEntry = Buffer.concat([entry, Buffer.alloc((8 - entry.length % 8) % 8)]);
+    paddedEntry.writeUInt32LE(paddedEntry.length, 0);
+    return paddedEntry;
+  }));
+};
+
+// [MS-FSCC] 2.4.17: the directory fields followed by the short name and the 64 bit file id
+const createIdBothDirectoryEntry = (filename: string, fileAttributes: number, shortFilename = "") => {
+  const filenameBuffer = Buffer.from(filename, "ucs2");
+  const entry = Buffer.alloc(104 + filenameBuffer.length);
+  entry.writeUInt32LE(7, 4);
+  for (const offset of [8, 16, 24, 32]) entry.writeBigUInt64LE(fileTime, offset);
+  entry.writeBigUInt64LE(1234n, 40);
+  entry.writeBigUInt64LE(4096n, 48);
+  entry.writeUInt32LE(fileAttributes, 56);
+  entry.writeUInt32LE(filenameBuffer.length, 60);
+  entry.writeUInt8(Buffer.byteLength(shortFilename, "ucs2"), 68);
+  entry.write(shortFilename, 70, "ucs2");
+  entry.writeBigUInt64LE(0x0001000000000abcn, 96);
+  filenameBuffer.copy(entry, 104);
+  return entry;
+};
+
+// names come back as unix paths relative to the directory
+describe("parseDirectoryInformationList", () => {
+  it("parses FileIdBothDirectoryInformation entries", () => {
+    const entries = parseDirectoryInformationList(chainEntries([
+      createIdBothDirectoryEntry("folder", FileAttribute.Directory),
+      createIdBothDirectoryEntry("Long file name.txt", FileAttribute.Archive, "LONGFI~1.TXT")
+    ]), FileInfoClass.IdBothDirectoryInformation);
+
+    assert.strictEqual(entries.length, 2);
+    assert.deepStrictEqual(entries[0], {
+      index: 7,
+      type: "Directory",
+      creationTime: date,
+      lastAccessTime: date,
+      lastWriteTime: date,
+      changeTime: date,
+      fileSize: 1234n,
+      allocationSize: 4096n,
+      fileAttributes: ["Directory"],
+      eaSize: 0,
+      shortFilename: undefined,
+      fileId: "0001000000000abc",
+      filename: "./folder"
+    });
+    assert.strictEqual(entries[1].type, "File");
+    assert.strictEqual(entries[1].shortFilename, "./LONGFI~1.TXT");
+    assert.strictEqual(entries[1].filename, "./Long file name.txt");
+  });
+
+  it("parses FileNamesInformation entries", () => {
+    // [MS-FSCC] 2.4.33: the file index and the name
+    const createNamesEntry = (filename: string) => {
+      const filenameBuffer = Buffer.from(filename, "ucs2");
+      const entry = Buffer.alloc(12 + filenameBuffer.length);
+      entry.writeUInt32LE(filenameBuffer.length, 8);
+      filenameBuffer.copy(entry, 12);
+      return entry;
+    };
+
+    const entries = parseDirectoryInformationList(
+      chainEntries([createNamesEntry("."), createNamesEntry(".."), createNamesEntry("file")]),
+      FileInfoClass.NamesInformation
+    );
+    assert.deepStrictEqual(entries.map(x => x.filename), [".", "..", "./file"]);
+  });
+
+  it("parses FileIdExtdDirectoryInformation entries", () => {
+    // [MS-FSCC] 2.4.20: the reparse point tag and the 128 bit file id follow the extended attributes size
+    const filenameBuffer = Buffer.from("link", "ucs2");
+    const entry = Buffer.alloc(88 + filenameBuffer.length);
+    entry.writeUInt32LE(FileAttribute.ReparsePoint, 56);
+    entry.writeUInt32LE(filenameBuffer.length, 60);
+    entry.writeUInt32LE(0xa000000c, 68);
+    entry.writeBigUInt64LE(2n, 72);
+    entry.writeBigUInt64LE(1n, 80);
+    filenameBuffer.copy(entry, 88);
+
+    const [directoryInformation] = parseDirectoryInformationList(entry, FileInfoClass.IdExtdDirectoryInformation);
+    assert.strictEqual(directoryInformation.reparsePointTag, 0xa000000c);
+    assert.strictEqual(directoryInformation.fileId, "00000000000000010000000000000002");
+    assert.deepStrictEqual(directoryInformation.fileAttributes, ["ReparsePoint"]);
+    assert.strictEqual(directoryInformation.filename, "./link");
+  });
+
+  it("returns no entries for an empty buffer", () => {
+    assert.deepStrictEqual(parseDirectoryInformationList(Buffer.alloc(0), FileInfoClass.DirectoryInformation), []);
+  });
+});
@@ -0,0 +1,127 @@
+import assert from "assert";
+import { describe, it } from "node:test";
+import Stats from "../src/client/Stats";
+import FileAttribute from "../src/protocol/smb2/FileAttribute";
+import {
+  parseAllInformation,
+  parseNetworkOpenInformation,
+  parseStreamInformation
+} from "../src/protocol/smb2/packets/QueryInfo";
+
+// 2020-01-01T00:00:00Z in 100 nanosecond intervals since 1601
+const fileTime = 132223104000000000n;
+const date = new Date("2020-01-01T00:00:00Z");
+
+// [MS-FSCC] 2.4.2: the basic, standard, internal, EA, access, position, mode, alignment and name information in a row
+const createAllInformation = (fileAttributes: number, endOfFile: bigint, fileName: string) => {
+  const fileNameBuffer = Buffer.from(fileName, "ucs2");
+  const buffer = Buffer.alloc(100 + fileNameBuffer.length);
+  buffer.writeBigUInt64LE(fileTime, 0);
+  buffer.writeBigUInt64LE(fileTime + 10000000n, 8);
+  buffer.writeBigUInt64LE(fileTime + 20000000n, 16);
+  buffer.writeBigUInt64LE(fileTime + 30000000n, 24);
+  buffer.writeUInt32LE(fileAttributes, 32);
+  buffer.writeBigUInt64LE(0x1000n, 40);
+  buffer.writeBigUInt64LE(endOfFile, 48);
+  buffer.writeUInt32LE(2, 56);
+  buffer.writeUInt8((fileAttributes & FileAttribute.Directory) !== 0 ? 1 : 0, 61);
+  buffer.writeBigUInt64LE(0x0001000000000abcn, 64);
+  buffer.writeUInt32LE(0x001f01ff, 76);
+  buffer.writeBigUInt64LE(42n, 80);
+  buffer.writeUInt32LE(fileNameBuffer.length, 96);
+  fileNameBuffer.copy(buffer, 100);
+  return buffer;
+};
+
+describe("parseAllInformation", () => {
+  it("parses each part of the all information", () => {
+    const allInformation = parseAllInformation(createAllInformation(FileAttribute.Archive, 0x1234n, "\\dir\\file.txt"));
+
+    assert.deepStrictEqual(allInformation.basicInformation, {
+      creationTime: fileTime,
+      lastAccessTime: fileTime + 10000000n,
+      lastWriteTime: fileTime + 20000000n,
+      changeTime: fileTime + 30000000n,
+      fileAttributes: FileAttribute.Archive
+    });
+    assert.deepStrictEqual(allInformation.standardInformation, {
+      allocationSize: 0x1000n,
+      endOfFile: 0x1234n,
+      numberOfLinks: 2,
+      deletePending: false,
+      directory: false
+    });
+    assert.strictEqual(allInformation.internalInformation.fileId, "0001000000000abc");
+    assert.strictEqual(allInformation.accessFlags, 0x001f01ff);
+    assert.strictEqual(allInformation.currentByteOffset, 42n);
+    assert.strictEqual(allInformation.fileName, "\\dir\\file.txt");
+  });
+});
+
+describe("parseNetworkOpenInformation", () => {
+  it("parses the times, sizes and attributes", () => {
+    // [MS-FSCC] 2.4.29
+    const buffer = Buffer.alloc(56);
+    for (const offset of [0, 8, 16, 24]) buffer.writeBigUInt64LE(fileTime, offset);
+    buffer.writeBigUInt64LE(0x2000n, 32);
+    buffer.writeBigUInt64LE(0x1800n, 40);
+    buffer.writeUInt32LE(FileAttribute.Directory, 48);
+
+    assert.deepStrictEqual(parseNetworkOpenInformation(buffer), {
+      creationTime: fileTime,
+      lastAccessTime: fileTime,
+      lastWriteTime: fileTime,
+      changeTime: fileTime,
+      allocationSize: 0x2000n,
+      endOfFile: 0x1800n,
+      fileAttributes: FileAttribute.Directory
+    });
+  });
+});
+
+describe("parseStreamInformation", () => {
+  it("parses the chained stream entries", () => {
+    // [MS-FSCC] 2.4.43: entries start on 8 byte boundaries
+    const createEntry = (streamName: string, streamSize: bigint) => {
+      const streamNameBuffer = Buffer.from(streamName, "ucs2");
+      const entry = Buffer.alloc(24 + streamNameBuffer.length);
+      entry.writeUInt32LE(streamNameBuffer.length, 4);
+      entry.writeBigUInt64LE(streamSize, 8);
+      entry.writeBigUInt64LE(0x1000n, 16);
+      streamNameBuffer.copy(entry, 24);
+      return entry;
+    };
+    const firstEntry = Buffer.concat([createEntry("::$DATA", 5n), Buffer.alloc(2)]);
+    firstEntry.writeUInt32LE(firstEntry.length, 0);
+
+    assert.deepStrictEqual(parseStreamInformation(Buffer.concat([firstEntry, createEntry(":stream:$DATA", 12n)])), [
+      { streamName: "::$DATA", streamSize: 5n, streamAllocationSize: 0x1000n },
+      { streamName: ":stream:$DATA", streamSize: 12n, streamAllocationSize: 0x1000n }
+    ]);
+  });
+});
+
+describe("Stats", () => {
+  it("exposes the all information like fs.Stats", () => {
+    const stats = new Stats(parseAllInformation(createAllInformation(FileAttribute.Archive, 0x1234n, "file.txt")));
+
+    assert.strictEqual(stats.size, 0x1234n);
+    assert.strictEqual(stats.allocationSize, 0x1000n);
+    assert.strictEqual(stats.nlink, 2);
+    assert.strictEqual(stats.ino, 0x0001000000000abcn);
+    assert.deepStrictEqual(stats.birthtime, date);
+    assert.deepStrictEqual(stats.mtime, new Date(date.getTime() + 2000));
+    assert.deepStrictEqual(stats.attributes, ["Archive"]);
+    assert.strictEqual(stats.isFile(), true);
+    assert.strictEqual(stats.isDirectory(), false);
+  });
+
+  it("tells directories and reparse points apart from files", () => {
+    const directoryStats = new Stats(parseAllInformation(createAllInformation(FileAttribute.Directory, 0n, "dir")));
+    assert.strictEqual(directoryStats.isDirectory(), true);
+    assert.strictEqual(directoryStats.isFile(), false);
+
+    const linkStats = new Stats(parseAllInformation(createAllInformation(FileAttribute.ReparsePoint, 0n, "link")));
+    assert.strictEqual(linkStats.isSymbolicLink(), true);
+  });
+});
@@ -0,0 +1,206 @@
+import assert from "assert";
+import { AddressInfo, Server as NetServer, Socket } from "net";
+import { describe, it, afterEach } from "node:test";
+import Client from "../src/client/Client";
+import Packet from "../src/protocol/Packet";
+import Server, { Options } from "../src/server/Server";
+import * as protocolIds from "../src/protocol/protocolIds";
+import Dialect from "../src/protocol/smb2/Dialect";
+import HeaderFlag from "../src/protocol/smb2/HeaderFlag";
+import PacketType from "../src/protocol/smb2/PacketType";
+import StatusCode from "../src/protocol/smb2/StatusCode";
+import ShareFlag from "../src/protocol/smb2/ShareFlag";
+import Cipher from "../src/protocol/smb2/Cipher";
+import SigningAlgorithm from "../src/protocol/smb2/SigningAlgorithm";
+import requestType from "../src/server/middlewares/requestType";
+import * as ntlm from "../src/protocol/ntlm/util";
+import * as encryptionUtil from "../src/protocol/smb2/encryptionUtil";
+import * as spnegoUtil from "../src/protocol/spnego/util";
+import MechanismType from "../src/protocol/spnego/MechanismType";
+import NegotiationState from "../src/protocol/spnego/NegotiationState";
+
+describe("server", () => {
+  let netServer: NetServer;
+  let client: Client;
+
+  const start = async (options: Options, shareFlags: number = 0) => {
+    const server = new Server(options);
+    for (const type of [PacketType.Echo, PacketType.LogOff, PacketType.TreeDisconnect]) {
+      server.use(requestType(protocolIds.smb2, type, (req, res) => {
+        res.status(StatusCode.Success);
+        res.send({ structureSize: 4 });
+      }));
+    }
+    server.use(requestType(protocolIds.smb2, PacketType.TreeConnect, (req, res) => {
+      res.status(StatusCode.Success);
+      res.set("treeId", 1);
+      res.send({ structureSize: 16, shareType: 1, shareFlags, maximalAccess: 0x001f01ff });
+    }));
+    netServer = await server.listen(0);
+    client = new Client("127.0.0.1", { port: getPort(), requireSigning: true });
+  };
+
+  const getPort = () => (netServer.address() as AddressInfo).port;
+
+  afterEach(async () => {
+    await client.close();
+    await new Promise(resolve => netServer.close(resolve));
+  });
+
+  it("signs the responses of sessions authenticated with NTLM", async () => {
+    await start({ users: { user: "Password" } });
+
+    const session = await client.authenticate({ domain: "DOMAIN", username: "User", password: "Password" });
+    assert.strictEqual(session.authenticated, true);
+
+    const response = await session.request({ type: PacketType.Echo });
+    assert.ok((response.header.flags & HeaderFlag.Signed) !== 0);
+  });
+
+  it("negotiates SMB 3.1.1 and signs with keys derived from the preauth integrity hash", async () => {
+    await start({ users: { user: "Password" } });
+
+    const serverInfo = await client.negotiate();
+    assert.strictEqual(serverInfo.dialect, Dialect.Smb311);
+    assert.strictEqual(serverInfo.signingAlgorithm, SigningAlgorithm.AesGmac);
+    assert.ok(serverInfo.negotiateContexts.preauthIntegrityCapabilities);
+
+    // both sides hash the session setup exchange, so signatures only verify when the hashes agree
+    const session = await client.authenticate({ domain: "DOMAIN", username: "User", password: "Password", forceNtlmVersion: "v2" });
+    const response = await session.request({ type: PacketType.Echo });
+    assert.ok((response.header.flags & HeaderFlag.Signed) !== 0);
+  });
+
+  it("authenticates NTLMv2 responses", async () => {
+    await start({ users: { user: "Password" } });
+
+    const session = await client.authenticate({ domain: "DOMAIN", username: "User", password: "Password", forceNtlmVersion: "v2" });
+    assert.strictEqual(session.authenticated, true);
+  });
+
+  it("authenticates with NT hashes instead of passwords", async () => {
+    await start({ users: { user: { ntHash: ntlm.createNtHash("Password") } } });
+
+    const ntHash = ntlm.createNtHash("Password").toString("hex");
+    const session = await client.authenticate({ domain: "DOMAIN", username: "User", ntHash, forceNtlmVersion: "v2" });
+    const response = await session.request({ type: PacketType.Echo });
+    assert.ok((response.header.flags & HeaderFlag.Signed) !== 0);
+  });
+
+  it("asks the credential provider again when the session authenticates again", async () => {
+    await start({ users: { user: "Password" } });
+
+    const passwords = ["Password", "Password", "password"];
+    let calls = 0;
+    const session = await client.authenticate({
+      credentialProvider: async () => ({ domain: "DOMAIN", username: "User", password: passwords[calls++] })
+    });
+    const sessionId = session._id;
+
+    await session.reauthenticate();
+    assert.strictEqual(calls, 2);
+    // the session keeps its id and keys, so its requests are still signed
+    assert.strictEqual(session._id, sessionId);
+    const response = await session.request({ type: PacketType.Echo });
+    assert.ok((response.header.flags & HeaderFlag.Signed) !== 0);
+
+    await assert.rejects(
+      session.reauthenticate(),
+      (response: any) => response.header.status === StatusCode.LogonFailure
+    );
+    assert.strictEqual(calls, 3);
+  });
+
+  it("establishes null sessions without keys for anonymous clients", async () => {
+    await start({ users: { user: "Password" } });
+    await client.close();
+    client = new Client("127.0.0.1", { port: getPort() });
+
+    const session = await client.authenticate({ anonymous: true });
+    assert.strictEqual(session.anonymous, true);
+    assert.strictEqual(session.guest, false);
+    assert.strictEqual(session.signingKey, undefined);
+
+    const response = await session.request({ type: PacketType.Echo });
+    assert.strictEqual(response.header.flags & HeaderFlag.Signed, 0);
+  });
+
+  it("refuses null sessions when signing is required", async () => {
+    await start({ users: { user: "Password" } });
+
+    await assert.rejects(client.authenticate({ anonymous: true }), /signing_not_supported_for_guest_session/);
+  });
+
+  it("rejects wrong passwords with STATUS_LOGON_FAILURE", async () => {
+    await start({ users: { user: "Password" } });
+
+    await assert.rejects(
+      client.authenticate({ domain: "DOMAIN", username: "User", password: "password" }),
+      (response: any) => response.header.status === StatusCode.LogonFailure
+    );
+  });
+
+  it("encrypts the messages of shares that require encryption", async () => {
+    await start({ users: { user: "Password" } }, ShareFlag.EncryptData);
+
+    const session = await client.authenticate({ domain: "DOMAIN", username: "User", password: "Password" });
+    const tree = await session.connectTree("share");
+    assert.strictEqual(tree.encryptData, true);
+
+    const request = session.createRequest({ type: PacketType.Echo, treeId: tree._id });
+    const response = await client.send(request);
+    assert.strictEqual(request.encrypted, true);
+    assert.strictEqual(response.encrypted, true);
+  });
+
+  it("encrypts every message of sessions when the server requires encryption", async () => {
+    await start({ users: { user: "Password" }, encryptData: true });
+
+    const session = await client.authenticate({ domain: "DOMAIN", username: "User", password: "Password" });
+    assert.strictEqual(session.encryptData, true);
+
+    const response = await session.request({ type: PacketType.Echo });
+    assert.strictEqual(response.encrypted, true);
+  });
+
+  it("closes only the connection that sends a message it can't decrypt", async () => {
+    await start({ users: { user: "Password" } });
+
+    const socket = new Socket();
+    await new Promise<void>(resolve => socket.connect(getPort(), "127.0.0.1", () => resolve()));
+    const closed = new Promise(resolve => socket.once("close", resolve));
+    // a transform header before any session has keys to decrypt it
+    socket.write(Packet.serializeChunk(
+      encryptionUtil.encrypt(Buffer.alloc(64), "1100000000e40800", Buffer.alloc(16), Cipher.Aes128Gcm)
+    ));
+    await closed;
+
+    const session = await client.authenticate({ domain: "DOMAIN", username: "User", password: "Password" });
+    assert.strictEqual(session.authenticated, true);
+  });
+
+  it("authenticates NTLMSSP tokens wrapped in SPNEGO", async () => {
+    await start({ users: { user: "Password" } });
+
+    const serverInfo = await client.negotiate();
+    assert.deepStrictEqual(serverInfo.mechanismTypes, [MechanismType.Ntlmssp]);
+
+    const session = await client.authenticate({ domain: "DOMAIN", username: "User", password: "Password" });
+    assert.strictEqual(session.authenticated, true);
+  });
+
+  for (const [name, securityBuffer] of [
+    ["a NegTokenInit", spnegoUtil.encodeNegTokenInit({ mechTypes: [MechanismType.Ntlmssp] })],
+    ["a NegTokenResp", spnegoUtil.encodeNegTokenResp({ negState: NegotiationState.AcceptIncomplete })]
+  ] as [string, Buffer][]) {
+    it(`rejects ${name} without an NTLMSSP token with STATUS_LOGON_FAILURE`, async () => {
+      await start({ users: { user: "Password" } });
+      await client.negotiate();
+
+      await assert.rejects(
+        client.request({ type: PacketType.SessionSetup }, { buffer: securityBuffer }),
+        (response: any) => response.header.status === StatusCode.LogonFailure
+      );
+    });
+  }
+});
@@ -0,0 +1,31 @@
+import assert from "assert";
+import { describe, it } from "node:test";
+import FileAttribute from "../src/protocol/smb2/FileAttribute";
+import { serializeBasicInformation } from "../src/protocol/smb2/packets/SetInfo";
+
+const hex = (value: string) => Buffer.from(value.replace(/\s/g, ""), "hex");
+
+describe("serializeBasicInformation", () => {
+  it("sends the fields that are left out as 0 so the server keeps them", () => {
+    // [MS-FSCC] 2.4.7
+    assert.deepStrictEqual(serializeBasicInformation({}), Buffer.alloc(40));
+  });
+
+  it("writes dates as file times", () => {
+    // 2020-01-01T00:00:00Z in 100 nanosecond intervals since 1601
+    const buffer = serializeBasicInformation({ lastWriteTime: new Date("2020-01-01T00:00:00Z") });
+    assert.strictEqual(buffer.readBigUInt64LE(16), 132223104000000000n);
+    assert.strictEqual(buffer.readBigUInt64LE(0), 0n);
+  });
+
+  it("writes the sentinels that stop and resume the automatic updates", () => {
+    const buffer = serializeBasicInformation({ lastAccessTime: -1n, lastWriteTime: -2n });
+    assert.deepStrictEqual(buffer.slice(8, 24), hex("ffffffffffffffff feffffffffffffff"));
+  });
+
+  it("writes the attributes after the times", () => {
+    const buffer = serializeBasicInformation({ fileAttributes: FileAttribute.ReadOnly | FileAttribute.Hidden });
+    assert.strictEqual(buffer.readUInt32LE(32), 0x00000003);
+    assert.strictEqual(buffer.readUInt32LE(36), 0);
+  });
+});
@@ -0,0 +1,425 @@
+import assert from "assert";
+import { describe, it, afterEach } from "node:test";
+import Tree, { WalkOptions } from "../src/client/Tree";
+import type ServerInfo from "../src/protocol/models/ServerInfo";
+import Request from "../src/protocol/smb2/Request";
+import Response from "../src/protocol/smb2/Response";
+import Dialect from "../src/protocol/smb2/Dialect";
+import Capability from "../src/protocol/smb2/Capability";
+import OplockLevel from "../src/protocol/smb2/OplockLevel";
+import PacketType from "../src/protocol/smb2/PacketType";
+import StatusCode from "../src/protocol/smb2/StatusCode";
+import HeaderFlag from "../src/protocol/smb2/HeaderFlag";
+import FileAttribute from "../src/protocol/smb2/FileAttribute";
+import FilePipePrinterAccess from "../src/protocol/smb2/FilePipePrinterAccess";
+import { relatedFileId } from "../src/protocol/smb2/Packet";
+import { FileInfoClass } from "../src/protocol/smb2/packets/SetInfo";
+import CreateDispositionType from "../src/protocol/smb2/CreateDispositionType";
+import {
+  CreateOptions,
+  CreateContextName,
+  serializeCreateContexts,
+  parseCreateContexts
+} from "../src/protocol/smb2/packets/Create";
+import { FakeServer, RequestHandler, createResponse, createTree, startFakeServer, waitFor } from "./fakeServer";
+import { Share, createShare, createShareHandler } from "./fakeShare";
+
+const fileId = Buffer.from("0102030405060708090a0b0c0d0e0f10", "hex");
+
+/**
+ * Answers the create and close of the file an operation opens, passing the other requests on to the handler.
+ */
+const answerOpen = (handler: RequestHandler, fileAttributes: number = FileAttribute.Archive): RequestHandler => (request, reply) => {
+  if (request.header.type === PacketType.Create) {
+    reply(createResponse(request, { structureSize: 89, fileAttributes, fileId, endOfFile: 5n }));
+  } else if (request.header.type === PacketType.Close) {
+    reply(createResponse(request, { structureSize: 60 }));
+  } else {
+    handler(request, reply);
+  }
+};
+
+// the create contexts follow the padding after the name
+const getCreateContexts = (request: Request) => {
+  const { createContexts, createContextsLength } = request.body;
+  if (!createContextsLength) return [];
+  return parseCreateContexts((createContexts as Buffer).slice((createContexts as Buffer).length - createContextsLength));
+};
+
+describe("stat", () => {
+  let server: FakeServer;
+  let tree: Tree;
+
+  const connect = async (handler: RequestHandler) => {
+    server = await startFakeServer(handler);
+    tree = await createTree(server);
+  };
+
+  afterEach(async () => {
+    await tree.session.client.close();
+    await server.close();
+  });
+
+  it("opens the path, queries all information and closes it in one related compound", async () => {
+    await connect(answerOpen((request, reply) => {
+      // [MS-FSCC] 2.4.2: only the sizes and the attributes are filled in
+      const buffer = Buffer.alloc(100);
+      buffer.writeUInt32LE(0x20, 32);
+      buffer.writeBigUInt64LE(4096n, 40);
+      buffer.writeBigUInt64LE(5n, 48);
+      buffer.writeUInt32LE(1, 56);
+      reply(createResponse(request, { structureSize: 9, outputBufferOffset: 72, buffer }));
+    }));
+
+    const stats = await tree.stat("dir/file.txt");
+    assert.strictEqual(stats.size, 5n);
+    assert.strictEqual(stats.allocationSize, 4096n);
+    assert.strictEqual(stats.nlink, 1);
+    assert.strictEqual(stats.isFile(), true);
+
+    const [create, queryInfo, close] = server.requests;
+    assert.deepStrictEqual(server.requests.map(x => x.header.type), [PacketType.Create, PacketType.QueryInfo, PacketType.Close]);
+    assert.strictEqual(create.body.desiredAccess, FilePipePrinterAccess.ReadAttributes);
+    assert.strictEqual((create.body.buffer as Buffer).toString("ucs2"), "dir\\file.txt");
+    assert.strictEqual(queryInfo.body.fileInfoClass, FileInfoClass.AllInformation);
+    // each message points at the next one, and the related ones refer to the file the create opened
+    assert.deepStrictEqual(server.requests.map(x => x.header.nextCommand > 0), [true, true, false]);
+    assert.deepStrictEqual(server.requests.map(x => (x.header.flags & HeaderFlag.Chained) !== 0), [false, true, true]);
+    assert.strictEqual(queryInfo.body.fileId, relatedFileId);
+    assert.strictEqual(close.body.fileId, relatedFileId);
+  });
+
+  it("closes the file when the query fails", async () => {
+    await connect(answerOpen((request, reply) => {
+      reply(createResponse(request, { structureSize: 9 }, { status: StatusCode.FileNameNotFound }));
+    }));
+
+    await assert.rejects(tree.stat("file.txt"), (response: any) => response.header.status === StatusCode.FileNameNotFound);
+    assert.strictEqual(server.requests[server.requests.length - 1].header.type, PacketType.Close);
+    assert.deepStrictEqual(tree.openFiles, []);
+  });
+});
+
+describe("utimes and setAttributes", () => {
+  let server: FakeServer;
+  let tree: Tree;
+
+  const connect = async (fileAttributes?: number) => {
+    server = await startFakeServer(answerOpen((request, reply) => {
+      reply(createResponse(request, { structureSize: 2 }));
+    }, fileAttributes));
+    tree = await createTree(server);
+  };
+
+  const getBasicInformation = () => {
+    const setInfo = server.requests.find(x => x.header.type === PacketType.SetInfo);
+    assert.strictEqual(setInfo.body.fileInfoClass, FileInfoClass.BasicInformation);
+    return setInfo.body.buffer as Buffer;
+  };
+
+  afterEach(async () => {
+    await tree.session.client.close();
+    await server.close();
+  });
+
+  it("sets the access and write times and leaves the other times unchanged", async () => {
+    await connect();
+
+    await tree.utimes("file.txt", new Date("2020-01-01T00:00:00Z"), -1n);
+    assert.strictEqual(server.requests[0].body.desiredAccess, FilePipePrinterAccess.WriteAttributes);
+    const basicInformation = getBasicInformation();
+    assert.strictEqual(basicInformation.readBigUInt64LE(0), 0n);
+    assert.strictEqual(basicInformation.readBigUInt64LE(8), 132223104000000000n);
+    assert.strictEqual(basicInformation.readBigInt64LE(16), -1n);
+    assert.strictEqual(basicInformation.readUInt32LE(32), 0);
+    assert.strictEqual(server.requests[server.requests.length - 1].header.type, PacketType.Close);
+  });
+
+  it("clears the attributes of files with Normal", async () => {
+    await connect();
+
+    await tree.setAttributes("file.txt", 0);
+    assert.strictEqual(getBasicInformation().readUInt32LE(32), FileAttribute.Normal);
+  });
+
+  it("keeps the directory attribute of directories", async () => {
+    await connect(FileAttribute.Directory);
+
+    await tree.setAttributes("dir", FileAttribute.Hidden);
+    assert.strictEqual(getBasicInformation().readUInt32LE(32), FileAttribute.Hidden | FileAttribute.Directory);
+  });
+});
+
+describe("recursive operations", () => {
+  let server: FakeServer;
+  let tree: Tree;
+  let share: Share;
+  let maxOpenCount: number;
+
+  // counts the files and directories open at once, which the removal concurrency limits
+  const connect = async (paths: { [path: string]: string | null }) => {
+    share = createShare(paths);
+    const handler = createShareHandler(share);
+    let openCount = 0;
+    maxOpenCount = 0;
+    server = await startFakeServer((request, reply) => {
+      if (request.header.type === PacketType.Create) maxOpenCount = Math.max(maxOpenCount, ++openCount);
+      if (request.header.type === PacketType.Close) openCount--;
+      handler(request, reply);
+    });
+    tree = await createTree(server);
+  };
+
+  afterEach(async () => {
+    await tree.session.client.close();
+    await server.close();
+  });
+
+  describe("walk", () => {
+    const paths = {
+      a: null,
+      "a/b": null,
+      "a/b/c.txt": "ccc",
+      "a/d.txt": "d",
+      "a/link": null,
+      "a/link/e.txt": "e"
+    };
+
+    const walk = async (options?: WalkOptions) => {
+      const walkEntries: [string, number][] = [];
+      for await (const { path, depth } of tree.walk("a", options)) walkEntries.push([path, depth]);
+      return walkEntries.sort();
+    };
+
+    it("lists the entries below the path with their depths, leaving links alone", async () => {
+      await connect(paths);
+      share.get("a\\link").fileAttributes |= FileAttribute.ReparsePoint;
+
+      assert.deepStrictEqual(await walk(), [["a/b", 0], ["a/b/c.txt", 1], ["a/d.txt", 0], ["a/link", 0]]);
+      assert.deepStrictEqual(await walk({ followReparsePoints: true }), [
+        ["a/b", 0], ["a/b/c.txt", 1], ["a/d.txt", 0], ["a/link", 0], ["a/link/e.txt", 1]
+      ]);
+    });
+
+    it("stops at the maximum depth and skips what the filter rejects", async () => {
+      await connect(paths);
+
+      assert.deepStrictEqual(await walk({ maxDepth: 0 }), [["a/b", 0], ["a/d.txt", 0], ["a/link", 0]]);
+      assert.deepStrictEqual(await walk({ filter: x => !x.path.endsWith("/b") }), [
+        ["a/d.txt", 0], ["a/link", 0], ["a/link/e.txt", 1]
+      ]);
+      assert.deepStrictEqual(tree.openDirectories, []);
+    });
+
+    it("sums the sizes of the files", async () => {
+      await connect(paths);
+
+      assert.deepStrictEqual(await tree.getDiskUsage("a"), {
+        size: 5n,
+        allocationSize: 5n,
+        fileCount: 3,
+        directoryCount: 2
+      });
+    });
+  });
+
+  describe("createDirectory", () => {
+    it("creates the missing parents and returns the first directory created when recursive", async () => {
+      await connect({ a: null });
+
+      assert.strictEqual(await tree.createDirectory("/a/b/c", { recursive: true }), "/a/b");
+      assert.ok(share.has("a\\b\\c"));
+      assert.strictEqual(await tree.createDirectory("/a/b/c", { recursive: true }), undefined);
+      assert.deepStrictEqual(tree.openDirectories, []);
+    });
+
+    it("fails on files in the way", async () => {
+      await connect({ a: null, "a/file.txt": "" });
+
+      await assert.rejects(
+        tree.createDirectory("a/file.txt/b", { recursive: true }),
+        (response: any) => response.header.status === StatusCode.NotADirectory
+      );
+      assert.ok(!share.has("a\\file.txt\\b"));
+      await assert.rejects(
+        tree.createDirectory("a/file.txt", { recursive: true }),
+        (response: any) => response.header.status === StatusCode.ObjectNameCollision
+      );
+    });
+  });
+
+  describe("removeDirectory", () => {
+    const paths: { [path: string]: string | null } = { a: null, "a/link": null };
+    for (const directory of ["a/b", "a/c"]) {
+      paths[directory] = null;
+      for (let index = 0; index < 4; index++) paths[`${directory}/${index}.txt`] = "";
+    }
+
+    it("removes the contents first when recursive, leaving the targets of links alone", async () => {
+      await connect(paths);
+      share.get("a\\link").fileAttributes |= FileAttribute.ReparsePoint;
+
+      await assert.rejects(tree.removeDirectory("a"), (response: any) => response.header.status === StatusCode.DirectoryNotEmpty);
+      await tree.removeDirectory("a", { recursive: true });
+      assert.deepStrictEqual([...share.keys()], [""]);
+      assert.ok(maxOpenCount > 1);
+
+      const linkCreate = server.requests.find(x => (
+        x.header.type === PacketType.Create &&
+        (x.body.buffer as Buffer).toString("ucs2") === "a\\link"
+      ));
+      assert.ok((linkCreate.body.createOptions & CreateOptions.OpenReparsePoint) !== 0);
+    });
+
+    it("keeps at most concurrency listings and removals in flight", async () => {
+      await connect(paths);
+
+      await tree.removeDirectory("a", { recursive: true, concurrency: 1 });
+      assert.deepStrictEqual([...share.keys()], [""]);
+      assert.strictEqual(maxOpenCount, 1);
+    });
+  });
+});
+
+describe("durable handles", () => {
+  let server: FakeServer;
+  let tree: Tree;
+  let reclaimStatus: StatusCode;
+  let replyToCreate: (response: Response) => void;
+
+  // grants the durable handles it is asked for and answers their reclaims with the reclaim status
+  const connect = async () => {
+    reclaimStatus = StatusCode.Success;
+    server = await startFakeServer((request, reply) => {
+      if (request.header.type === PacketType.Create) {
+        const [createContext] = getCreateContexts(request);
+        if (createContext && createContext.name === CreateContextName.DurableHandleReconnectV2 && reclaimStatus !== StatusCode.Success) {
+          return reply(createResponse(request, { structureSize: 9 }, { status: reclaimStatus }));
+        }
+        replyToCreate = reply;
+        const createContexts = createContext && createContext.name === CreateContextName.DurableHandleRequestV2 ?
+          serializeCreateContexts([{ name: CreateContextName.DurableHandleRequestV2, data: Buffer.from("60ea000000000000", "hex") }]) :
+          Buffer.alloc(0);
+        reply(createResponse(request, {
+          structureSize: 89,
+          oplockLevel: OplockLevel.Batch,
+          fileId,
+          createContextsOffset: createContexts.length > 0 ? 152 : 0,
+          buffer: createContexts
+        }));
+      } else if (request.header.type === PacketType.TreeConnect) {
+        reply(createResponse(request, { structureSize: 16 }, { treeId: 2 }));
+      } else {
+        reply(createResponse(request, { structureSize: 60 }));
+      }
+    });
+    tree = await createTree(server);
+    tree.session.client.serverInfo = { dialect: Dialect.Smb302, capabilities: Capability.PersistentHandles } as ServerInfo;
+  };
+
+  const getCreateRequests = () => server.requests.filter(x => x.header.type === PacketType.Create);
+
+  afterEach(async () => {
+    await tree.session.client.close();
+    await server.close();
+  });
+
+  it("requests a durable handle with a batch oplock", async () => {
+    await connect();
+
+    const { file } = await tree.open("file.txt", "r", { durable: { timeout: 60000 } });
+    const [create] = getCreateRequests();
+    assert.strictEqual(create.body.requestedOplockLevel, OplockLevel.Batch);
+    const [createContext] = getCreateContexts(create);
+    assert.strictEqual(createContext.name, CreateContextName.DurableHandleRequestV2);
+    assert.strictEqual(createContext.data.readUInt32LE(0), 60000);
+
+    assert.strictEqual(file.oplockLevel, OplockLevel.Batch);
+    assert.strictEqual(file.durableHandle.version, 2);
+    assert.strictEqual(file.durableHandle.timeout, 60000);
+    assert.strictEqual(file.durableHandle.persistent, false);
+  });
+
+  it("reclaims the handle by its file id and create guid after reconnecting", async () => {
+    await connect();
+    const { file } = await tree.open("file.txt", "r", { durable: true });
+
+    await tree.reconnect();
+    const reclaim = getCreateRequests()[1];
+    assert.strictEqual((reclaim.body.buffer as Buffer).toString("ucs2"), "file.txt");
+    assert.strictEqual(reclaim.body.createDisposition, CreateDispositionType.Open);
+    const [createContext] = getCreateContexts(reclaim);
+    assert.strictEqual(createContext.name, CreateContextName.DurableHandleReconnectV2);
+    assert.deepStrictEqual(createContext.data.slice(0, 16), fileId);
+    assert.deepStrictEqual(createContext.data.slice(16, 32), file.durableHandle.createGuid);
+    assert.strictEqual(tree._id, 2);
+    assert.strictEqual(file.isOpen, true);
+  });
+
+  it("closes the file when the server didn't keep the handle", async () => {
+    await connect();
+    const { file } = await tree.open("file.txt", "r", { durable: true });
+    let closed = false;
+    file.on("close", () => closed = true);
+
+    reclaimStatus = StatusCode.FileNameNotFound;
+    await tree.reconnect();
+    assert.strictEqual(closed, true);
+    assert.strictEqual(file.isOpen, false);
+    assert.strictEqual(file.durableHandle, undefined);
+    assert.strictEqual(tree.session.client.oplockBreakCallbackMap.size, 0);
+  });
+
+  it("acknowledges oplock breaks and stops being durable without a batch oplock", async () => {
+    await connect();
+    const { file } = await tree.open("file.txt", "r", { durable: true });
+
+    const [create] = getCreateRequests();
+    replyToCreate(createResponse(create, { structureSize: 24, oplockLevel: OplockLevel.II, fileId }, {
+      type: PacketType.OplockBreak,
+      messageId: -1n
+    }));
+    await waitFor(() => server.requests.some(x => x.header.type === PacketType.OplockBreak));
+
+    const acknowledgment = server.requests.find(x => x.header.type === PacketType.OplockBreak);
+    assert.strictEqual(acknowledgment.body.oplockLevel, OplockLevel.II);
+    assert.strictEqual(acknowledgment.body.fileId, fileId.toString("hex"));
+    assert.strictEqual(file.oplockLevel, OplockLevel.II);
+    assert.strictEqual(file.durableHandle, undefined);
+  });
+});
+
+describe("create contexts", () => {
+  let server: FakeServer;
+  let tree: Tree;
+
+  afterEach(async () => {
+    await tree.session.client.close();
+    await server.close();
+  });
+
+  it("sends the typed contexts and parses the contexts of the response", async () => {
+    // [MS-SMB2] 2.2.14.2.5 and 2.2.14.2.9
+    const createContexts = serializeCreateContexts([
+      { name: CreateContextName.MaximalAccessRequest, data: Buffer.from("00000000ff011f00", "hex") },
+      { name: CreateContextName.QueryOnDiskId, data: Buffer.concat([Buffer.from("2a00000000000000", "hex"), Buffer.alloc(24)]) }
+    ]);
+    server = await startFakeServer((request, reply) => {
+      reply(createResponse(request, request.header.type === PacketType.Create ?
+        { structureSize: 89, fileId, createContextsOffset: 152, buffer: createContexts } :
+        { structureSize: 60 }));
+    });
+    tree = await createTree(server);
+
+    const { file } = await tree.open("file.txt", "w", {
+      createContexts: [
+        { name: CreateContextName.MaximalAccessRequest },
+        { name: CreateContextName.AllocationSize, allocationSize: 0x1000n }
+      ]
+    });
+    const [create] = server.requests;
+    assert.deepStrictEqual(getCreateContexts(create).map(x => x.name), ["MxAc", "AlSi"]);
+    assert.deepStrictEqual(file.createContextResponse.maximalAccess, { queryStatus: 0, maximalAccess: 0x001f01ff });
+    assert.strictEqual(file.createContextResponse.onDiskId.diskFileId, 42n);
+  });
+});
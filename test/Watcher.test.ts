@@ -0,0 +1,202 @@
+import assert from "assert";
+import { describe, it, afterEach } from "node:test";
+import Tree from "../src/client/Tree";
+import Watcher, { WatcherOptions } from "../src/client/Watcher";
+import Request from "../src/protocol/smb2/Request";
+import PacketType from "../src/protocol/smb2/PacketType";
+import StatusCode from "../src/protocol/smb2/StatusCode";
+import HeaderFlag from "../src/protocol/smb2/HeaderFlag";
+import FileAction from "../src/protocol/smb2/FileAction";
+import { CompletionFilter, Flags as ChangeNotifyFlags } from "../src/protocol/smb2/packets/ChangeNotify";
+import { FakeServer, createResponse, createTree, startFakeServer, waitFor } from "./fakeServer";
+
+// [MS-FSCC] 2.7.1: the entries are chained by their next entry offset on 4 byte boundaries
+const createChangeInformation = (changes: [FileAction, string][]) => {
+  const entries = changes.map(([action, filename]) => {
+    const filenameBuffer = Buffer.from(filename, "ucs2");
+    const entry = Buffer.alloc(12 + filenameBuffer.length + (4 - filenameBuffer.length % 4) % 4);
+    entry.writeUInt32LE(action, 4);
+    entry.writeUInt32LE(filenameBuffer.length, 8);
+    filenameBuffer.copy(entry, 12);
+    return entry;
+  });
+  entries.forEach((entry, index) => {
+    if (index < entries.length - 1) entry.writeUInt32LE(entry.length, 0);
+  });
+  return Buffer.concat(entries);
+};
+
+describe("Watcher", () => {
+  let server: FakeServer;
+  let tree: Tree;
+  let watcher: Watcher;
+  let events: string[];
+  let pendingChangeNotify: { request: Request, reply: (response: any) => void };
+  let changeNotifyStatus: StatusCode;
+  let asyncId = 1;
+
+  // leaves the change notify pending until the test completes it with changes
+  const createWatcher = async (options?: WatcherOptions) => {
+    changeNotifyStatus = StatusCode.Pending;
+    server = await startFakeServer((request, reply) => {
+      if (request.header.type === PacketType.ChangeNotify) {
+        pendingChangeNotify = { request, reply };
+        reply(createResponse(request, { structureSize: 9 }, changeNotifyStatus === StatusCode.Pending ?
+          { status: changeNotifyStatus, flags: HeaderFlag.Async, asyncId: asyncId.toString(16).padStart(16, "0") } :
+          { status: changeNotifyStatus }));
+        asyncId++;
+      } else if (request.header.type === PacketType.Create) {
+        reply(createResponse(request, { structureSize: 89, fileId: Buffer.alloc(16, 1) }));
+      } else {
+        reply(createResponse(request, { structureSize: 60 }));
+      }
+    });
+    tree = await createTree(server);
+
+    events = [];
+    watcher = await tree.createWatcher("dir", options);
+    for (const event of ["add", "unlink", "change"]) {
+      watcher.on(event as "add", entry => events.push(`${event} ${entry.filename}`));
+    }
+    watcher.on("rename", (oldEntry, newEntry) => events.push(`rename ${oldEntry.filename} ${newEntry.filename}`));
+    watcher.on("overflow", () => events.push("overflow"));
+  };
+
+  const getChangeNotifyRequests = () => server.requests.filter(x => x.header.type === PacketType.ChangeNotify);
+
+  const notify = async (changes: [FileAction, string][], status: StatusCode = StatusCode.Success) => {
+    const changeNotifyCount = getChangeNotifyRequests().length;
+    const { request, reply } = pendingChangeNotify;
+    const buffer = createChangeInformation(changes);
+    reply(createResponse(request, { structureSize: 9, outputBufferOffset: 72, buffer }, { status }));
+    // the directory watches again after every completed change notify
+    await waitFor(() => getChangeNotifyRequests().length > changeNotifyCount);
+  };
+
+  afterEach(async () => {
+    await tree.session.client.close();
+    await server.close();
+  });
+
+  it("watches with the completion filter", async () => {
+    await createWatcher({ recursive: false, completionFilter: CompletionFilter.LastWriteChange });
+
+    const [changeNotify] = getChangeNotifyRequests();
+    assert.strictEqual(changeNotify.body.flags, ChangeNotifyFlags.None);
+    assert.strictEqual(changeNotify.body.completionFilter, CompletionFilter.LastWriteChange);
+    await watcher.close();
+    assert.strictEqual(server.requests[server.requests.length - 1].header.type, PacketType.Close);
+  });
+
+  it("emits each change as it arrives and pairs the names of renames", async () => {
+    await createWatcher();
+    assert.strictEqual(getChangeNotifyRequests()[0].body.flags, ChangeNotifyFlags.WatchTreeRecursively);
+
+    await notify([
+      [FileAction.Added, "a.txt"],
+      [FileAction.Modified, "b.txt"],
+      [FileAction.RenamedOldName, "c.txt"],
+      [FileAction.RenamedNewName, "d.txt"],
+      [FileAction.RemovedByDelete, "e.txt"],
+      // renamed out of the watched directory
+      [FileAction.RenamedOldName, "f.txt"]
+    ]);
+    assert.deepStrictEqual(events, [
+      "add ./a.txt",
+      "change ./b.txt",
+      "rename ./c.txt ./d.txt",
+      "unlink ./e.txt",
+      "unlink ./f.txt"
+    ]);
+    await watcher.close();
+  });
+
+  it("merges the changes of each file until the debounce passes", async () => {
+    await createWatcher({ debounce: 50 });
+
+    await notify([[FileAction.Added, "a.txt"], [FileAction.Modified, "b.txt"], [FileAction.Removed, "c.txt"]]);
+    await notify([[FileAction.Modified, "a.txt"], [FileAction.Added, "c.txt"], [FileAction.Added, "d.txt"]]);
+    await notify([[FileAction.Removed, "d.txt"]]);
+    assert.deepStrictEqual(events, []);
+
+    await waitFor(() => events.length > 0);
+    assert.deepStrictEqual(events, ["change ./b.txt", "add ./a.txt", "change ./c.txt"]);
+    await watcher.close();
+  });
+
+  it("emits the pending changes before overflows and renames", async () => {
+    await createWatcher({ debounce: 10000 });
+
+    await notify([[FileAction.Added, "a.txt"]]);
+    await notify([], StatusCode.NotifyEnumDir);
+    assert.deepStrictEqual(events, ["add ./a.txt", "overflow"]);
+
+    await notify([[FileAction.Modified, "b.txt"], [FileAction.RenamedOldName, "c.txt"], [FileAction.RenamedNewName, "d.txt"]]);
+    assert.deepStrictEqual(events.slice(2), ["change ./b.txt", "rename ./c.txt ./d.txt"]);
+
+    await notify([[FileAction.Modified, "e.txt"]]);
+    await watcher.close();
+    assert.deepStrictEqual(events.slice(4), ["change ./e.txt"]);
+  });
+
+  it("emits failures to watch again as errors", async () => {
+    await createWatcher();
+    const errors: Error[] = [];
+    watcher.on("error", err => errors.push(err));
+
+    changeNotifyStatus = StatusCode.AccessDenied;
+    await notify([[FileAction.Added, "a.txt"]]);
+    await waitFor(() => errors.length > 0);
+    assert.match(errors[0].message, /ChangeNotify: AccessDenied/);
+    await watcher.close();
+  });
+
+  it("drops failures to watch again without error listeners", async () => {
+    await createWatcher();
+    const changes: string[] = [];
+    await watcher.close();
+    const unwatch = await tree.watchDirectory("dir", response => changes.push(response.data[0].filename));
+
+    changeNotifyStatus = StatusCode.AccessDenied;
+    await notify([[FileAction.Added, "a.txt"]]);
+    // lets the rejection of the new change notify reach the directory
+    await new Promise(resolve => setImmediate(resolve));
+    assert.deepStrictEqual(changes, ["./a.txt"]);
+    await unwatch();
+  });
+
+  it("ends the watch quietly when the server cancels the change notify", async () => {
+    await createWatcher();
+    const errors: Error[] = [];
+    watcher.on("error", err => errors.push(err));
+
+    changeNotifyStatus = StatusCode.Cancelled;
+    await notify([[FileAction.Added, "a.txt"]]);
+    await new Promise(resolve => setImmediate(resolve));
+    assert.deepStrictEqual(errors, []);
+    await watcher.close();
+  });
+
+  it("cancels the pending change notify by its async id when closed", async () => {
+    await createWatcher();
+    const { request } = pendingChangeNotify;
+
+    await watcher.close();
+    await waitFor(() => server.requests.some(x => x.header.type === PacketType.Cancel));
+    const cancel = server.requests.find(x => x.header.type === PacketType.Cancel);
+    assert.strictEqual(cancel.header.messageId, request.header.messageId);
+    assert.strictEqual(cancel.header.asyncId, (asyncId - 1).toString(16).padStart(16, "0"));
+  });
+
+  it("closes once the signal aborts", async () => {
+    const controller = new AbortController();
+    await createWatcher({ signal: controller.signal });
+    let closed = false;
+    watcher.on("close", () => closed = true);
+
+    controller.abort();
+    await waitFor(() => closed);
+    assert.ok(server.requests.some(x => x.header.type === PacketType.Cancel));
+    assert.strictEqual(server.requests[server.requests.length - 1].header.type, PacketType.Close);
+  });
+});
@@ -0,0 +1,76 @@
+import crypto from "crypto";
+import assert from "assert";
+import { describe, it } from "node:test";
+import Cipher from "../src/protocol/smb2/Cipher";
+import * as protocolIds from "../src/protocol/protocolIds";
+import * as encryptionUtil from "../src/protocol/smb2/encryptionUtil";
+
+const hex = (value: string) => Buffer.from(value.replace(/\s/g, ""), "hex");
+
+const sessionId = "1100000000e40800";
+const message = Buffer.from("fe534d4240000100000000000d0000000000000000000000", "hex");
+
+describe("getKeyLength", () => {
+  it("uses 256 bit keys only for the AES-256 ciphers", () => {
+    assert.strictEqual(encryptionUtil.getKeyLength(Cipher.Aes128Ccm), 128);
+    assert.strictEqual(encryptionUtil.getKeyLength(Cipher.Aes128Gcm), 128);
+    assert.strictEqual(encryptionUtil.getKeyLength(Cipher.Aes256Ccm), 256);
+    assert.strictEqual(encryptionUtil.getKeyLength(Cipher.Aes256Gcm), 256);
+  });
+});
+
+describe("encrypt", () => {
+  for (const cipher of [Cipher.Aes128Ccm, Cipher.Aes128Gcm, Cipher.Aes256Ccm, Cipher.Aes256Gcm]) {
+    const key = crypto.randomBytes(encryptionUtil.getKeyLength(cipher) / 8);
+
+    it(`wraps messages in a transform header that decrypts with ${Cipher[cipher]}`, () => {
+      const encryptedMessage = encryptionUtil.encrypt(message, sessionId, key, cipher);
+      const transformHeader = encryptionUtil.parseTransformHeader(encryptedMessage);
+
+      assert.strictEqual(transformHeader.protocolId, protocolIds.smb2Transform);
+      assert.strictEqual(transformHeader.originalMessageSize, message.length);
+      assert.strictEqual(transformHeader.flags, 1);
+      assert.strictEqual(transformHeader.sessionId, sessionId);
+      assert.deepStrictEqual(encryptionUtil.decrypt(encryptedMessage, key, cipher), message);
+    });
+
+    it(`rejects tampered messages with ${Cipher[cipher]}`, () => {
+      const encryptedMessage = encryptionUtil.encrypt(message, sessionId, key, cipher);
+      encryptedMessage[encryptedMessage.length - 1] ^= 1;
+
+      assert.throws(() => encryptionUtil.decrypt(encryptedMessage, key, cipher), /decryption_failed/);
+    });
+  }
+});
+
+describe("decrypt", () => {
+  it("authenticates the transform header from the nonce on", () => {
+    // [MS-SMB2] 2.2.41: AES-128-CCM with an 11 byte nonce over the header fields after the signature
+    const key = hex("261b72350558f2e9dcf613070383edbf");
+    const nonce = hex("66e69a111892584fb5ed524a744da3ee");
+    const transformHeader = Buffer.concat([
+      hex("fd534d42"),
+      Buffer.alloc(16),
+      nonce,
+      hex("18000000 0000 0100"),
+      Buffer.from(sessionId, "hex")
+    ]);
+    const cipher = crypto.createCipheriv("aes-128-ccm", key, nonce.slice(0, 11), { authTagLength: 16 });
+    cipher.setAAD(transformHeader.slice(20), { plaintextLength: message.length });
+    const encryptedMessage = Buffer.concat([cipher.update(message), cipher.final()]);
+    cipher.getAuthTag().copy(transformHeader, 4);
+
+    const decryptedMessage = encryptionUtil.decrypt(Buffer.concat([transformHeader, encryptedMessage]), key, Cipher.Aes128Ccm);
+    assert.deepStrictEqual(decryptedMessage, message);
+  });
+
+  it("rejects messages of another size than the transform header states", () => {
+    const key = crypto.randomBytes(16);
+    const encryptedMessage = encryptionUtil.encrypt(message, sessionId, key, Cipher.Aes128Gcm);
+
+    assert.throws(
+      () => encryptionUtil.decrypt(encryptedMessage.slice(0, -1), key, Cipher.Aes128Gcm),
+      /invalid_transform_message_size/
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { AddressInfo, Server, Socket, createServer } from "net";
+import Client from "../src/client/Client";
+import Session from "../src/client/Session";
+import Tree from "../src/client/Tree";
+import Packet from "../src/protocol/Packet";
+import Smb2Packet from "../src/protocol/smb2/Packet";
+import Header from "../src/protocol/smb2/Header";
+import Request from "../src/protocol/smb2/Request";
+import Response from "../src/protocol/smb2/Response";
+
+export type RequestHandler = (request: Request, reply: (response: Response) => void) => void;
+
+export interface FakeServer {
+  port: number;
+  requests: Request[];
+  /**
+   * Closes the open connections like a server going away
+   */
+  dropConnections(): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Answers the request, replenishing the credits it was charged unless the header says otherwise.
+ */
+export const createResponse = (request: Request, body: any = {}, header: Header = {}) => {
+  return new Response(
+    {
+      type: request.header.type,
+      messageId: request.header.messageId,
+      credit: Math.max(request.header.creditCharge, 1),
+      treeId: request.header.treeId,
+      sessionId: request.header.sessionId,
+      ...header
+    },
+    body
+  );
+};
+
+/**
+ * Starts a server on a local port, which passes every request it receives to the handler.
+ */
+export const startFakeServer = async (handler: RequestHandler) => {
+  const requests: Request[] = [];
+  const sockets = new Set<Socket>();
+  const server: Server = createServer(socket => {
+    sockets.add(socket);
+    socket.once("close", () => sockets.delete(socket));
+
+    let restChunk = Buffer.alloc(0);
+    socket.on("data", (data: Buffer) => {
+      const chunks = Packet.getChunks(Buffer.concat([restChunk, data]));
+      restChunk = chunks.restChunk;
+
+      // the messages of a compound are answered one by one
+      const messageBuffers = chunks.chunks.reduce((buffers, chunk) => buffers.concat(Smb2Packet.splitCompound(chunk)), [] as Buffer[]);
+      for (const messageBuffer of messageBuffers) {
+        const request = Request.parse(messageBuffer);
+        requests.push(request);
+        handler(request, response => {
+          if (!socket.destroyed) socket.write(response.serialize());
+        });
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", () => resolve()));
+
+  const fakeServer: FakeServer = {
+    port: (server.address() as AddressInfo).port,
+    requests,
+    dropConnections: () => {
+      for (const socket of sockets) socket.destroy();
+    },
+    close: () => {
+      for (const socket of sockets) socket.destroy();
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  };
+  return fakeServer;
+};
+
+/**
+ * Creates a tree of a new client of the server, as if its session was authenticated and the tree connected.
+ */
+export const createTree = async (server: FakeServer) => {
+  const client = new Client("127.0.0.1", { port: server.port });
+  await client.connect();
+  // the negotiate and session setup responses would have granted the credits for compound requests
+  client.creditLimit = 8n;
+
+  const session = new Session(client);
+  session._id = "1100000000e40800";
+  const tree = new Tree(session);
+  tree._id = 1;
+  tree.connected = true;
+  return tree;
+};
+
+export const waitFor = async (condition: () => boolean) => {
+  while (!condition()) await new Promise(resolve => setTimeout(resolve, 5));
+};
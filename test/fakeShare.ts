@@ -0,0 +1,235 @@
+import StatusCode from "../src/protocol/smb2/StatusCode";
+import PacketType from "../src/protocol/smb2/PacketType";
+import HeaderFlag from "../src/protocol/smb2/HeaderFlag";
+import FileAttribute from "../src/protocol/smb2/FileAttribute";
+import { relatedFileId } from "../src/protocol/smb2/Packet";
+import { CreateOptions } from "../src/protocol/smb2/packets/Create";
+import { FileInfoClass } from "../src/protocol/smb2/packets/SetInfo";
+import { Flags as QueryDirectoryFlags } from "../src/protocol/smb2/packets/QueryDirectory";
+import CreateDispositionType from "../src/protocol/smb2/CreateDispositionType";
+import { RequestHandler, createResponse } from "./fakeServer";
+
+export interface ShareEntry {
+  fileAttributes: number;
+  content: Buffer;
+}
+
+/**
+ * Files and directories of a share by their windows path, where the root is the empty path.
+ */
+export type Share = Map<string, ShareEntry>;
+
+export interface ShareOptions {
+  /**
+   * Number of entries per QueryDirectory response, all of them when left out
+   */
+  pageSize?: number;
+}
+
+interface OpenEntry {
+  path: string;
+  deletePending: boolean;
+  /**
+   * Index of the next entry the enumeration of the directory returns
+   */
+  fileIndex: number;
+}
+
+const getParentPath = (path: string) => path.includes("\\") ? path.slice(0, path.lastIndexOf("\\")) : "";
+
+const getName = (path: string) => path.slice(path.lastIndexOf("\\") + 1);
+
+const isDirectory = (entry: ShareEntry) => (entry.fileAttributes & FileAttribute.Directory) !== 0;
+
+const getChildPaths = (share: Share, path: string, pattern: string = "*") => {
+  // only the * and ? wildcards, without the DOS wildcards
+  const patternSource = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  const patternRegExp = new RegExp(`^${patternSource}$`, "i");
+  return [...share.keys()].filter(x => x !== "" && getParentPath(x) === path && patternRegExp.test(getName(x)));
+};
+
+/**
+ * Creates a share from its paths, with null for directories and the content for files.
+ */
+export const createShare = (paths: { [path: string]: string | null } = {}): Share => {
+  const share: Share = new Map([["", { fileAttributes: FileAttribute.Directory, content: Buffer.alloc(0) }]]);
+  for (const path of Object.keys(paths)) {
+    share.set(path.replace(/\//g, "\\"), paths[path] === null ?
+      { fileAttributes: FileAttribute.Directory, content: Buffer.alloc(0) } :
+      { fileAttributes: FileAttribute.Archive, content: Buffer.from(paths[path]) });
+  }
+  return share;
+};
+
+// [MS-FSCC] 2.4.2: only the attributes, the sizes and the link count are filled in
+const createAllInformation = (entry: ShareEntry) => {
+  const buffer = Buffer.alloc(100);
+  buffer.writeUInt32LE(entry.fileAttributes, 32);
+  buffer.writeBigUInt64LE(BigInt(entry.content.length), 40);
+  buffer.writeBigUInt64LE(BigInt(entry.content.length), 48);
+  buffer.writeUInt32LE(1, 56);
+  buffer.writeUInt8(isDirectory(entry) ? 1 : 0, 61);
+  return buffer;
+};
+
+// [MS-FSCC] 2.4.17: the entries are chained by their next entry offset on 8 byte boundaries
+const createDirectoryInformation = (share: Share, paths: string[], firstFileIndex: number) => {
+  const entries = paths.map((path, index) => {
+    const entry = share.get(path);
+    const name = Buffer.from(getName(path), "ucs2");
+    const buffer = Buffer.alloc(104 + name.length + (8 - (104 + name.length) % 8) % 8);
+    buffer.writeUInt32LE(firstFileIndex + index, 4);
+    buffer.writeBigUInt64LE(BigInt(entry.content.length), 40);
+    buffer.writeBigUInt64LE(BigInt(entry.content.length), 48);
+    buffer.writeUInt32LE(entry.fileAttributes, 56);
+    buffer.writeUInt32LE(name.length, 60);
+    name.copy(buffer, 104);
+    return buffer;
+  });
+  entries.forEach((entry, index) => {
+    if (index < entries.length - 1) entry.writeUInt32LE(entry.length, 0);
+  });
+  return Buffer.concat(entries);
+};
+
+/**
+ * Answers requests like a share with the given files and directories, changing them as the requests ask.
+ */
+export const createShareHandler = (share: Share, options: ShareOptions = {}): RequestHandler => {
+  const openEntries = new Map<string, OpenEntry>();
+  let nextFileId = 1;
+  // the outcome of the last create, which the related requests of a compound refer to
+  let createdFileId: string;
+  let relatedStatus: StatusCode | number = StatusCode.Success;
+
+  return (request, reply) => {
+    const fail = (status: StatusCode | number) => {
+      if (request.header.type === PacketType.Create) relatedStatus = status;
+      reply(createResponse(request, { structureSize: 9 }, { status }));
+    };
+    // [MS-SMB2] 3.3.5.2.7.2: related requests fail like the create they follow
+    const related = (request.header.flags & HeaderFlag.Chained) !== 0;
+    if (related && relatedStatus !== StatusCode.Success) return fail(relatedStatus);
+    const fileId = related && request.body.fileId === relatedFileId ? createdFileId : request.body.fileId;
+    const openEntry = openEntries.get(fileId);
+    const entry = openEntry && share.get(openEntry.path);
+
+    switch (request.header.type) {
+      case PacketType.Create: {
+        const path = (request.body.buffer as Buffer).toString("ucs2");
+        const { createDisposition, createOptions } = request.body;
+        let existingEntry = share.get(path);
+        if (path !== "" && !share.has(getParentPath(path))) return fail(StatusCode.FilePathNotFound);
+        if (existingEntry && createDisposition === CreateDispositionType.Create) return fail(StatusCode.ObjectNameCollision);
+        if (!existingEntry && createDisposition === CreateDispositionType.Open) return fail(StatusCode.FileNameNotFound);
+        if (existingEntry && isDirectory(existingEntry) && (createOptions & CreateOptions.NonDirectoryFile) !== 0) {
+          return fail(StatusCode.FileIsADirectory);
+        }
+        if (existingEntry && !isDirectory(existingEntry) && (createOptions & CreateOptions.Directory) !== 0) {
+          return fail(StatusCode.NotADirectory);
+        }
+
+        if (!existingEntry) {
+          existingEntry = {
+            fileAttributes: (createOptions & CreateOptions.Directory) !== 0 ? FileAttribute.Directory : FileAttribute.Archive,
+            content: Buffer.alloc(0)
+          };
+          share.set(path, existingEntry);
+        } else if (createDisposition === CreateDispositionType.OverwriteIf) {
+          existingEntry.content = Buffer.alloc(0);
+        }
+
+        const newFileId = Buffer.alloc(16);
+        newFileId.writeUInt32LE(nextFileId++, 0);
+        createdFileId = newFileId.toString("hex");
+        relatedStatus = StatusCode.Success;
+        openEntries.set(createdFileId, { path, deletePending: false, fileIndex: 0 });
+        return reply(createResponse(request, {
+          structureSize: 89,
+          fileId: newFileId,
+          fileAttributes: existingEntry.fileAttributes,
+          endOfFile: BigInt(existingEntry.content.length)
+        }));
+      }
+      case PacketType.Close: {
+        if (!openEntry) return fail(StatusCode.FileClosed);
+        openEntries.delete(fileId);
+        if (openEntry.deletePending) share.delete(openEntry.path);
+        return reply(createResponse(request, { structureSize: 60 }));
+      }
+      case PacketType.QueryInfo: {
+        if (!entry) return fail(StatusCode.FileClosed);
+        return reply(createResponse(request, { structureSize: 9, outputBufferOffset: 72, buffer: createAllInformation(entry) }));
+      }
+      case PacketType.QueryDirectory: {
+        if (!entry) return fail(StatusCode.FileClosed);
+        const { flags } = request.body;
+        if ((flags & QueryDirectoryFlags.RestartScans) !== 0) openEntry.fileIndex = 0;
+        if ((flags & QueryDirectoryFlags.IndexSpecified) !== 0) openEntry.fileIndex = request.body.fileIndex;
+
+        const pageSize = (flags & QueryDirectoryFlags.ReturnSingleEntry) !== 0 ? 1 : options.pageSize || Infinity;
+        const pattern = (request.body.buffer as Buffer).toString("ucs2");
+        const matchingPaths = getChildPaths(share, openEntry.path, pattern);
+        // the first query of a pattern without matches fails with no such file
+        if (matchingPaths.length === 0 && openEntry.fileIndex === 0) return fail(StatusCode.NoSuchFile);
+
+        const childPaths = matchingPaths.slice(openEntry.fileIndex, openEntry.fileIndex + pageSize);
+        if (childPaths.length === 0) return fail(StatusCode.NoMoreFiles);
+        const buffer = createDirectoryInformation(share, childPaths, openEntry.fileIndex);
+        openEntry.fileIndex += childPaths.length;
+        return reply(createResponse(request, { structureSize: 9, outputBufferOffset: 72, buffer }));
+      }
+      case PacketType.SetInfo: {
+        if (!entry) return fail(StatusCode.FileClosed);
+        const buffer = request.body.buffer as Buffer;
+        if (request.body.fileInfoClass === FileInfoClass.DispositionInformation) {
+          if (getChildPaths(share, openEntry.path).length > 0) return fail(StatusCode.DirectoryNotEmpty);
+          openEntry.deletePending = buffer.readUInt8(0) !== 0;
+        } else if (request.body.fileInfoClass === FileInfoClass.RenameInformation) {
+          // [MS-FSCC] 2.4.37: the replace flag, the root directory and the length precede the new name
+          const newPath = buffer.slice(20, 20 + buffer.readUInt32LE(16)).toString("ucs2");
+          if (share.has(newPath) && buffer.readUInt8(0) === 0) return fail(StatusCode.ObjectNameCollision);
+          for (const path of [...share.keys()]) {
+            if (path !== openEntry.path && !path.startsWith(`${openEntry.path}\\`)) continue;
+            share.set(newPath + path.slice(openEntry.path.length), share.get(path));
+            share.delete(path);
+          }
+          openEntry.path = newPath;
+        } else if (request.body.fileInfoClass === FileInfoClass.BasicInformation) {
+          const fileAttributes = buffer.readUInt32LE(32);
+          if (fileAttributes !== 0) entry.fileAttributes = fileAttributes & ~FileAttribute.Normal;
+        } else if (request.body.fileInfoClass === FileInfoClass.EndOfFileInformation) {
+          const endOfFile = Number(buffer.readBigInt64LE(0));
+          entry.content = Buffer.concat([entry.content, Buffer.alloc(Math.max(endOfFile - entry.content.length, 0))]).slice(0, endOfFile);
+        }
+        return reply(createResponse(request, { structureSize: 2 }));
+      }
+      case PacketType.Read: {
+        if (!entry) return fail(StatusCode.FileClosed);
+        const offset = Number(request.body.offset);
+        if (offset >= entry.content.length) return fail(StatusCode.EndOfFile);
+        const buffer = entry.content.slice(offset, offset + request.body.length);
+        return reply(createResponse(request, { structureSize: 17, dataOffset: 80, buffer }));
+      }
+      case PacketType.Write: {
+        if (!entry) return fail(StatusCode.FileClosed);
+        const buffer = request.body.buffer as Buffer;
+        // [MS-SMB2] 2.2.21: an offset of all ones writes to the end of the file
+        const offset = BigInt.asUintN(64, BigInt(request.body.offset));
+        const writeOffset = offset === 0xffffffffffffffffn ? entry.content.length : Number(offset);
+        entry.content = Buffer.concat([
+          entry.content.slice(0, writeOffset),
+          Buffer.alloc(Math.max(writeOffset - entry.content.length, 0)),
+          buffer,
+          entry.content.slice(writeOffset + buffer.length)
+        ]);
+        return reply(createResponse(request, { structureSize: 17, count: buffer.length }));
+      }
+      default:
+        return reply(createResponse(request, { structureSize: 4 }));
+    }
+  };
+};
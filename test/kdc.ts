@@ -0,0 +1,390 @@
+import { AddressInfo, createServer } from "net";
+import * as derUtil from "../src/protocol/derUtil";
+import { DerElement } from "../src/protocol/derUtil";
+import ErrorCode from "../src/protocol/kerberos/ErrorCode";
+import KeyUsage from "../src/protocol/kerberos/KeyUsage";
+import MessageType from "../src/protocol/kerberos/MessageType";
+import EncryptionType from "../src/protocol/kerberos/EncryptionType";
+import PrincipalNameType from "../src/protocol/kerberos/PrincipalNameType";
+import PreauthenticationDataType from "../src/protocol/kerberos/PreauthenticationDataType";
+import * as kerberosUtil from "../src/protocol/kerberos/util";
+import * as kerberosCryptoUtil from "../src/protocol/kerberos/cryptoUtil";
+import { EncryptionKey } from "../src/protocol/kerberos/cryptoUtil";
+import { Principal, GssTokenId } from "../src/protocol/kerberos/util";
+
+export const realm = "EXAMPLE.COM";
+export const user = "user";
+export const password = "password";
+export const salt = realm + user;
+
+export const client: Principal = {
+  realm,
+  name: { type: PrincipalNameType.Principal, components: [user] }
+};
+export const ticketGrantingServer: Principal = {
+  realm,
+  name: { type: PrincipalNameType.ServiceInstance, components: ["krbtgt", realm] }
+};
+export const server: Principal = {
+  realm,
+  name: { type: PrincipalNameType.ServiceInstance, components: ["cifs", "server"] }
+};
+
+const hex = (value: string) => Buffer.from(value.replace(/\s/g, ""), "hex");
+
+// long term keys of the KDC and the service, the service key is also in the keytab fixture
+export const ticketGrantingServerKey: EncryptionKey = {
+  type: EncryptionType.Aes256CtsHmacSha196,
+  value: hex("8f1e6a2c4d7b9e03f5a1c7d92b6e4f80 13579bdf02468acefedcba9876543210")
+};
+export const serverKey: EncryptionKey = {
+  type: EncryptionType.Aes256CtsHmacSha196,
+  value: hex("1a2b3c4d5e6f708192a3b4c5d6e7f809 0f1e2d3c4b5a69788796a5b4c3d2e1f0")
+};
+// session key of the ticket granting ticket in the credential cache fixture
+export const ticketGrantingSessionKey: EncryptionKey = {
+  type: EncryptionType.Aes256CtsHmacSha196,
+  value: hex("2d5c8e1f9a3b7d04e6c2a8f1b5d9e307 c4a1f6e2d8b3907a5e1c3f7d9b2a4c68")
+};
+
+const applicationTagNumbers = {
+  ticket: 1,
+  authenticator: 2,
+  encryptedTicketPart: 3,
+  encryptedAsReplyPart: 25,
+  encryptedTgsReplyPart: 26,
+  encryptedApReplyPart: 27
+};
+
+const encodeFields = (fields: Buffer[]) => {
+  return derUtil.encodeSequence(
+    fields
+      .map((field, tagNumber) => field ? derUtil.encodeContextSpecific(tagNumber, field) : undefined)
+      .filter(field => field)
+  );
+};
+
+const decodeApplication = (buffer: Buffer, tagNumber: number) => {
+  const element = derUtil.decodeElement(buffer);
+  if (!derUtil.isApplication(element, tagNumber)) throw new Error(`invalid_kerberos_message: ${tagNumber}`);
+  return derUtil.decodeElements(derUtil.decodeElement(element.content).content);
+};
+
+const getField = (fields: DerElement[], tagNumber: number) => {
+  const field = derUtil.findContextSpecific(fields, tagNumber);
+  if (!field) throw new Error(`kerberos_field_missing: ${tagNumber}`);
+  return field;
+};
+
+const encodeFlags = () => derUtil.encodeBitString(Buffer.alloc(4));
+
+const isSamePrincipal = (a: Principal, b: Principal) => {
+  return a.realm === b.realm && a.name.components.join("/") === b.name.components.join("/");
+};
+
+// [RFC 4120] 5.3
+export const encodeTicket = (
+  ticketServer: Principal,
+  ticketServerKey: EncryptionKey,
+  ticketClient: Principal,
+  sessionKey: EncryptionKey,
+  endTime: Date
+) => {
+  const encryptedPart = derUtil.encodeApplication(applicationTagNumbers.encryptedTicketPart, encodeFields([
+    encodeFlags(),
+    kerberosUtil.encodeEncryptionKey(sessionKey),
+    derUtil.encodeGeneralString(ticketClient.realm),
+    kerberosUtil.encodePrincipalName(ticketClient.name),
+    encodeFields([derUtil.encodeInteger(0), derUtil.encodeOctetString(Buffer.alloc(0))]),
+    kerberosUtil.encodeKerberosTime(new Date()),
+    undefined,
+    kerberosUtil.encodeKerberosTime(endTime)
+  ]));
+  return derUtil.encodeApplication(applicationTagNumbers.ticket, encodeFields([
+    derUtil.encodeInteger(kerberosUtil.protocolVersion),
+    derUtil.encodeGeneralString(ticketServer.realm),
+    kerberosUtil.encodePrincipalName(ticketServer.name),
+    kerberosUtil.encodeEncryptedData({
+      type: ticketServerKey.type,
+      cipher: kerberosCryptoUtil.encrypt(ticketServerKey, KeyUsage.KdcRepTicket, encryptedPart)
+    })
+  ]));
+};
+
+const decodeEncryptedTicketPart = (ticket: Buffer, ticketServerKey: EncryptionKey) => {
+  const { encryptedPart } = kerberosUtil.decodeTicket(ticket);
+  const fields = decodeApplication(
+    kerberosCryptoUtil.decrypt(ticketServerKey, KeyUsage.KdcRepTicket, encryptedPart.cipher),
+    applicationTagNumbers.encryptedTicketPart
+  );
+  return {
+    key: kerberosUtil.decodeEncryptionKey(getField(fields, 1).content),
+    client: {
+      realm: derUtil.decodeString(getField(fields, 2).content),
+      name: kerberosUtil.decodePrincipalName(getField(fields, 3).content)
+    } as Principal
+  };
+};
+
+const decodeAuthenticator = (buffer: Buffer) => {
+  const fields = decodeApplication(buffer, applicationTagNumbers.authenticator);
+  const checksum = derUtil.findContextSpecific(fields, 3);
+  const subkey = derUtil.findContextSpecific(fields, 6);
+  return {
+    client: {
+      realm: derUtil.decodeString(getField(fields, 1).content),
+      name: kerberosUtil.decodePrincipalName(getField(fields, 2).content)
+    } as Principal,
+    checksum: checksum ? getField(derUtil.decodeElements(checksum.content), 1).content : undefined,
+    subkey: subkey ? kerberosUtil.decodeEncryptionKey(subkey.content) : undefined
+  };
+};
+
+/**
+ * Decrypts the ticket and the authenticator of an AP-REQ the way the service addressed by the ticket does.
+ */
+export const acceptApRequest = (apRequest: Buffer, ticketServerKey: EncryptionKey, usage: KeyUsage) => {
+  const fields = decodeApplication(apRequest, MessageType.ApReq);
+  const ticketField = getField(fields, 3);
+  const ticket = derUtil.encodeElement(ticketField.tag, ticketField.content);
+  const ticketPart = decodeEncryptedTicketPart(ticket, ticketServerKey);
+
+  const { cipher } = kerberosUtil.decodeEncryptedData(getField(fields, 4).content);
+  const authenticator = decodeAuthenticator(kerberosCryptoUtil.decrypt(ticketPart.key, usage, cipher));
+  if (!isSamePrincipal(authenticator.client, ticketPart.client)) throw new Error("authenticator_client_mismatch");
+
+  return { ...ticketPart, authenticator };
+};
+
+// [RFC 4120] 5.5.2
+export const encodeApReplyToken = (sessionKey: EncryptionKey, subkey: EncryptionKey) => {
+  const now = new Date();
+  const replyPart = derUtil.encodeApplication(applicationTagNumbers.encryptedApReplyPart, encodeFields([
+    kerberosUtil.encodeKerberosTime(now),
+    derUtil.encodeInteger((now.getTime() % 1000) * 1000),
+    kerberosUtil.encodeEncryptionKey(subkey),
+    derUtil.encodeInteger(kerberosUtil.generateNonce())
+  ]));
+  const apReply = derUtil.encodeApplication(MessageType.ApRep, encodeFields([
+    derUtil.encodeInteger(kerberosUtil.protocolVersion),
+    derUtil.encodeInteger(MessageType.ApRep),
+    kerberosUtil.encodeEncryptedData({
+      type: sessionKey.type,
+      cipher: kerberosCryptoUtil.encrypt(sessionKey, KeyUsage.ApRepEncryptedPart, replyPart)
+    })
+  ]));
+  return kerberosUtil.encodeGssToken(GssTokenId.ApRep, apReply);
+};
+
+const encodeError = (code: ErrorCode, data?: Buffer) => {
+  return derUtil.encodeApplication(MessageType.Error, encodeFields([
+    derUtil.encodeInteger(kerberosUtil.protocolVersion),
+    derUtil.encodeInteger(MessageType.Error),
+    undefined,
+    undefined,
+    kerberosUtil.encodeKerberosTime(new Date()),
+    derUtil.encodeInteger(0),
+    derUtil.encodeInteger(code),
+    undefined,
+    undefined,
+    derUtil.encodeGeneralString(realm),
+    kerberosUtil.encodePrincipalName(ticketGrantingServer.name),
+    undefined,
+    data ? derUtil.encodeOctetString(data) : undefined
+  ]));
+};
+
+const encodeReply = (
+  type: MessageType,
+  replyClient: Principal,
+  replyServer: Principal,
+  ticket: Buffer,
+  sessionKey: EncryptionKey,
+  replyKey: EncryptionKey,
+  nonce: number
+) => {
+  const isAsReply = type === MessageType.AsRep;
+  const endTime = new Date(Date.now() + 60 * 60 * 1000);
+  const replyPart = derUtil.encodeApplication(
+    isAsReply ? applicationTagNumbers.encryptedAsReplyPart : applicationTagNumbers.encryptedTgsReplyPart,
+    encodeFields([
+      kerberosUtil.encodeEncryptionKey(sessionKey),
+      derUtil.encodeSequence([]),
+      derUtil.encodeInteger(nonce),
+      undefined,
+      encodeFlags(),
+      kerberosUtil.encodeKerberosTime(new Date()),
+      undefined,
+      kerberosUtil.encodeKerberosTime(endTime),
+      undefined,
+      derUtil.encodeGeneralString(replyServer.realm),
+      kerberosUtil.encodePrincipalName(replyServer.name)
+    ])
+  );
+  return derUtil.encodeApplication(type, encodeFields([
+    derUtil.encodeInteger(kerberosUtil.protocolVersion),
+    derUtil.encodeInteger(type),
+    undefined,
+    derUtil.encodeGeneralString(replyClient.realm),
+    kerberosUtil.encodePrincipalName(replyClient.name),
+    ticket,
+    kerberosUtil.encodeEncryptedData({
+      type: replyKey.type,
+      cipher: kerberosCryptoUtil.encrypt(
+        replyKey,
+        isAsReply ? KeyUsage.AsRepEncryptedPart : KeyUsage.TgsRepEncryptedPart,
+        replyPart
+      )
+    })
+  ]));
+};
+
+const decodeRequest = (buffer: Buffer) => {
+  const type = kerberosUtil.getMessageType(buffer);
+  const fields = decodeApplication(buffer, type);
+  const preauthenticationData = derUtil.findContextSpecific(fields, 3);
+  const body = getField(fields, 4);
+  const bodyFields = derUtil.decodeElements(body.content);
+  const clientName = derUtil.findContextSpecific(bodyFields, 1);
+  return {
+    type,
+    preauthenticationData: preauthenticationData ?
+      kerberosUtil.decodeMethodData(derUtil.encodeElement(preauthenticationData.tag, preauthenticationData.content)) :
+      [],
+    body: derUtil.encodeElement(body.tag, body.content),
+    clientName: clientName ? kerberosUtil.decodePrincipalName(clientName.content) : undefined,
+    realm: derUtil.decodeString(getField(bodyFields, 2).content),
+    serverName: kerberosUtil.decodePrincipalName(getField(bodyFields, 3).content),
+    nonce: derUtil.decodeInteger(getField(bodyFields, 7).content)
+  };
+};
+
+type KdcRequest = ReturnType<typeof decodeRequest>;
+
+// [RFC 4120] 5.2.7.5: the client key is derived from the password with the salt announced in ETYPE-INFO2
+const encodePreauthenticationRequired = () => {
+  const encryptionTypeInfo = derUtil.encodeSequence([
+    encodeFields([
+      derUtil.encodeInteger(EncryptionType.Aes256CtsHmacSha196),
+      derUtil.encodeGeneralString(salt)
+    ])
+  ]);
+  return encodeError(ErrorCode.PreauthenticationRequired, derUtil.encodeSequence([
+    encodeFields([
+      undefined,
+      derUtil.encodeInteger(PreauthenticationDataType.EncryptionTypeInfo2),
+      derUtil.encodeOctetString(encryptionTypeInfo)
+    ])
+  ]));
+};
+
+const handleAsRequest = (request: KdcRequest) => {
+  if (!request.clientName || request.clientName.components.join("/") !== user) {
+    return encodeError(ErrorCode.ClientPrincipalUnknown);
+  }
+
+  const encryptedTimestamp = request.preauthenticationData
+    .find(x => x.type === PreauthenticationDataType.EncryptedTimestamp);
+  if (!encryptedTimestamp) return encodePreauthenticationRequired();
+
+  const clientKey = kerberosCryptoUtil.createKeyFromPassword(EncryptionType.Aes256CtsHmacSha196, password, salt);
+  try {
+    const { cipher } = kerberosUtil.decodeEncryptedData(derUtil.decodeElement(encryptedTimestamp.value).content);
+    kerberosCryptoUtil.decrypt(clientKey, KeyUsage.AsReqTimestamp, cipher);
+  } catch {
+    return encodeError(ErrorCode.PreauthenticationFailed);
+  }
+
+  const sessionKey = kerberosCryptoUtil.generateKey(EncryptionType.Aes256CtsHmacSha196);
+  const ticket = encodeTicket(
+    ticketGrantingServer,
+    ticketGrantingServerKey,
+    client,
+    sessionKey,
+    new Date(Date.now() + 60 * 60 * 1000)
+  );
+  return encodeReply(MessageType.AsRep, client, ticketGrantingServer, ticket, sessionKey, clientKey, request.nonce);
+};
+
+const handleTgsRequest = (request: KdcRequest) => {
+  const apRequest = request.preauthenticationData.find(x => x.type === PreauthenticationDataType.TgsReq);
+  if (!apRequest) return encodeError(ErrorCode.PreauthenticationRequired);
+
+  const ticketGrantingTicket = acceptApRequest(apRequest.value, ticketGrantingServerKey, KeyUsage.TgsReqAuthenticator);
+  const checksum = kerberosCryptoUtil.createChecksum(
+    ticketGrantingTicket.key,
+    KeyUsage.TgsReqAuthenticatorChecksum,
+    request.body
+  );
+  if (!ticketGrantingTicket.authenticator.checksum || !checksum.equals(ticketGrantingTicket.authenticator.checksum)) {
+    return encodeError(ErrorCode.Modified);
+  }
+
+  const requestServer: Principal = { realm: request.realm, name: request.serverName };
+  if (!isSamePrincipal(requestServer, server)) return encodeError(ErrorCode.ServerPrincipalUnknown);
+
+  const sessionKey = kerberosCryptoUtil.generateKey(EncryptionType.Aes256CtsHmacSha196);
+  const ticket = encodeTicket(
+    server,
+    serverKey,
+    ticketGrantingTicket.client,
+    sessionKey,
+    new Date(Date.now() + 60 * 60 * 1000)
+  );
+  return encodeReply(
+    MessageType.TgsRep,
+    ticketGrantingTicket.client,
+    server,
+    ticket,
+    sessionKey,
+    ticketGrantingTicket.key,
+    request.nonce
+  );
+};
+
+const handleRequest = (message: Buffer) => {
+  const request = decodeRequest(message);
+  if (request.type === MessageType.AsReq) return handleAsRequest(request);
+  if (request.type === MessageType.TgsReq) return handleTgsRequest(request);
+  return encodeError(ErrorCode.MessageTypeMismatch);
+};
+
+export interface KdcStandIn {
+  address: string;
+  requests: MessageType[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts a KDC stand-in on a local port, which answers AS-REQ and TGS-REQ for the principals above over TCP.
+ */
+export const startKdc = async (): Promise<KdcStandIn> => {
+  const requests: MessageType[] = [];
+  const kdcServer = createServer(socket => {
+    let request = Buffer.alloc(0);
+    socket.on("data", (data: Buffer) => {
+      request = Buffer.concat([request, data]);
+      if (request.length < 4 || request.length < 4 + request.readUInt32BE(0)) return;
+
+      const message = request.slice(4, 4 + request.readUInt32BE(0));
+      requests.push(kerberosUtil.getMessageType(message));
+      let reply: Buffer;
+      try {
+        reply = handleRequest(message);
+      } catch {
+        reply = encodeError(ErrorCode.Generic);
+      }
+
+      const length = Buffer.alloc(4);
+      length.writeUInt32BE(reply.length, 0);
+      socket.end(Buffer.concat([length, reply]));
+    });
+  });
+  await new Promise<void>(resolve => kdcServer.listen(0, "127.0.0.1", () => resolve()));
+
+  return {
+    address: `127.0.0.1:${(kdcServer.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise<void>(resolve => kdcServer.close(() => resolve()))
+  };
+};
@@ -0,0 +1,194 @@
+import assert from "assert";
+import { describe, it } from "node:test";
+import AvId from "../src/protocol/ntlm/AvId";
+import * as ntlm from "../src/protocol/ntlm/util";
+import NegotiateFlag from "../src/protocol/ntlm/NegotiateFlag";
+
+const hex = (value: string) => Buffer.from(value.replace(/\s/g, ""), "hex");
+
+// [MS-NLMP] 4.2.1: common values of the test vectors
+const user = "User";
+const userDomain = "Domain";
+const password = "Password";
+const serverChallenge = hex("0123456789abcdef");
+const randomSessionKey = hex("55555555555555555555555555555555");
+const serverTargetInfo = hex(`
+  02000c0044006f006d00610069006e00
+  01000c005300650072007600650072000000
+  0000
+`);
+
+const createAuthenticationMessage = (fields: Partial<ntlm.AuthenticationMessage>): ntlm.AuthenticationMessage => ({
+  negotiateFlags: NegotiateFlag.UnicodeEncoding,
+  lmResponse: Buffer.alloc(0),
+  ntResponse: Buffer.alloc(0),
+  domain: userDomain,
+  username: user,
+  hostname: "COMPUTER",
+  encryptedRandomSessionKey: Buffer.alloc(0),
+  ...fields
+});
+
+describe("target info", () => {
+  it("encodes AV pairs ending with MsvAvEOL", () => {
+    const targetInfo = ntlm.encodeTargetInfo([
+      { id: AvId.MsvAvNbDomainName, value: Buffer.from("Domain", "ucs2") },
+      { id: AvId.MsvAvNbComputerName, value: Buffer.from("Server", "ucs2") }
+    ]);
+    assert.deepStrictEqual(targetInfo, serverTargetInfo);
+  });
+
+  it("decodes AV pairs up to MsvAvEOL", () => {
+    const pairs = ntlm.decodeTargetInfo(Buffer.concat([serverTargetInfo, hex("07000800ffffffffffffffff")]));
+    assert.deepStrictEqual(pairs.map(x => [x.id, x.value.toString("ucs2")]), [
+      [AvId.MsvAvNbDomainName, "Domain"],
+      [AvId.MsvAvNbComputerName, "Server"]
+    ]);
+  });
+});
+
+describe("decodeChallengeMessage", () => {
+  it("decodes the challenge message of NTLMv2 authentication", () => {
+    // [MS-NLMP] 4.2.4.3
+    const challengeMessage = ntlm.decodeChallengeMessage(Buffer.concat([
+      hex(`
+        4e544c4d53535000 02000000 0c000c00 38000000 33828ae2
+        0123456789abcdef 0000000000000000 24002400 44000000
+        060070170000000f
+      `),
+      Buffer.from("Server", "ucs2"),
+      serverTargetInfo
+    ]));
+
+    assert.strictEqual(challengeMessage.targetName, "Server");
+    assert.strictEqual(challengeMessage.negotiateFlags, 0xe28a8233);
+    assert.deepStrictEqual(challengeMessage.serverChallenge, serverChallenge);
+    assert.deepStrictEqual(challengeMessage.targetInfo.map(x => x.id), [AvId.MsvAvNbDomainName, AvId.MsvAvNbComputerName]);
+  });
+});
+
+describe("createNtHash", () => {
+  it("hashes the password with MD4", () => {
+    // [MS-NLMP] 4.2.2.1.2
+    assert.deepStrictEqual(ntlm.createNtHash(password), hex("a4f49c406510bdcab6824ee7c30fd852"));
+  });
+});
+
+describe("createNtlmV2Hash", () => {
+  it("hashes the upper case user name and the domain", () => {
+    // [MS-NLMP] 4.2.4.1.1
+    assert.deepStrictEqual(
+      ntlm.createNtlmV2Hash(user, userDomain, ntlm.createNtHash(password)),
+      hex("0c868a403bfd7a93a3001ef22ef02e3f")
+    );
+  });
+});
+
+describe("encodeAuthenticationMessage", () => {
+  it("creates the NTLMv1 responses", () => {
+    // [MS-NLMP] 4.2.2.2
+    const negotiationMessage = ntlm.encodeNegotiationMessage("COMPUTER", userDomain, "v1");
+    const challengeMessage = ntlm.encodeChallengeMessage(NegotiateFlag.UnicodeEncoding | NegotiateFlag.NTLMSessionSecurity, serverChallenge);
+    const { buffer, sessionKey } = ntlm.encodeAuthenticationMessage(user, "COMPUTER", userDomain, negotiationMessage, challengeMessage, { password }, "v1");
+    const authenticationMessage = ntlm.decodeAuthenticationMessage(buffer);
+
+    assert.deepStrictEqual(authenticationMessage.ntResponse, hex("67c43011f30298a2ad35ece64f16331c44bdbed927841f94"));
+    assert.deepStrictEqual(authenticationMessage.lmResponse, hex("98def7b87f88aa5dafe2df779688a172def11c7d5ccdef13"));
+    assert.strictEqual(authenticationMessage.username, user);
+    assert.strictEqual(authenticationMessage.domain, "DOMAIN");
+    assert.strictEqual(authenticationMessage.hostname, "COMPUTER");
+    // [MS-NLMP] 4.2.2.1.3
+    assert.deepStrictEqual(sessionKey, hex("d87262b0cde4b1cb7499becccdf10784"));
+  });
+
+  it("creates the same NTLMv1 response from the NT hash", () => {
+    const negotiationMessage = ntlm.encodeNegotiationMessage("COMPUTER", userDomain, "v1");
+    const challengeMessage = ntlm.encodeChallengeMessage(NegotiateFlag.UnicodeEncoding | NegotiateFlag.NTLMSessionSecurity, serverChallenge);
+    const ntHash = ntlm.createNtHash(password);
+    const { buffer } = ntlm.encodeAuthenticationMessage(user, "COMPUTER", userDomain, negotiationMessage, challengeMessage, { ntHash }, "v1");
+    const authenticationMessage = ntlm.decodeAuthenticationMessage(buffer);
+
+    assert.deepStrictEqual(authenticationMessage.ntResponse, hex("67c43011f30298a2ad35ece64f16331c44bdbed927841f94"));
+    // without the password there is no LM hash, so the NT response takes the place of the LM response
+    assert.deepStrictEqual(authenticationMessage.lmResponse, authenticationMessage.ntResponse);
+  });
+
+  it("creates an NTLMv2 response the server verifies", () => {
+    const negotiationMessage = ntlm.encodeNegotiationMessage("COMPUTER", "DOMAIN", "v2");
+    const challengeMessage = ntlm.encodeChallengeMessage(
+      NegotiateFlag.UnicodeEncoding | NegotiateFlag.ExtendedSessionSecurity | NegotiateFlag.Sign | NegotiateFlag.KeyExchange,
+      serverChallenge
+    );
+    const { buffer, sessionKey } = ntlm.encodeAuthenticationMessage(user, "COMPUTER", "DOMAIN", negotiationMessage, challengeMessage, { password }, "v2");
+    const authenticationMessage = ntlm.decodeAuthenticationMessage(buffer);
+
+    assert.deepStrictEqual(ntlm.verifyAuthenticationMessage(authenticationMessage, serverChallenge, { password }), sessionKey);
+    assert.strictEqual(ntlm.verifyAuthenticationMessage(authenticationMessage, serverChallenge, { password: "password" }), undefined);
+  });
+});
+
+describe("anonymous authentication", () => {
+  it("sends a single zero byte LM response and no NT response", () => {
+    // [MS-NLMP] 3.2.5.1.2
+    const negotiationMessage = ntlm.encodeNegotiationMessage("COMPUTER", "", "v2");
+    const challengeMessage = ntlm.encodeChallengeMessage(
+      NegotiateFlag.UnicodeEncoding | NegotiateFlag.ExtendedSessionSecurity | NegotiateFlag.Sign | NegotiateFlag.KeyExchange,
+      serverChallenge
+    );
+    const { buffer, negotiateFlags } = ntlm.encodeAuthenticationMessage("", "COMPUTER", "", negotiationMessage, challengeMessage, {}, "v2");
+    const authenticationMessage = ntlm.decodeAuthenticationMessage(buffer);
+
+    assert.deepStrictEqual(authenticationMessage.lmResponse, hex("00"));
+    assert.deepStrictEqual(authenticationMessage.ntResponse, Buffer.alloc(0));
+    assert.strictEqual(authenticationMessage.username, "");
+    assert.ok((negotiateFlags & NegotiateFlag.Anonymous) !== 0);
+    // without a session key there is nothing to exchange
+    assert.strictEqual(negotiateFlags & NegotiateFlag.KeyExchange, 0);
+    assert.deepStrictEqual(authenticationMessage.encryptedRandomSessionKey, Buffer.alloc(0));
+  });
+});
+
+describe("verifyAuthenticationMessage", () => {
+  it("returns the NTLMv1 session base key", () => {
+    // [MS-NLMP] 4.2.2.1.3
+    const authenticationMessage = createAuthenticationMessage({
+      ntResponse: hex("67c43011f30298a2ad35ece64f16331c44bdbed927841f94")
+    });
+    assert.deepStrictEqual(
+      ntlm.verifyAuthenticationMessage(authenticationMessage, serverChallenge, { password }),
+      hex("d87262b0cde4b1cb7499becccdf10784")
+    );
+  });
+
+  // [MS-NLMP] 4.2.4.2.2: the NTProofStr followed by the temp of the client
+  const ntlmV2Response = Buffer.concat([
+    hex("68cd0ab851e51c96aabc927bebef6a1c"),
+    hex("0101000000000000 0000000000000000 aaaaaaaaaaaaaaaa 00000000"),
+    serverTargetInfo,
+    hex("00000000")
+  ]);
+
+  it("returns the NTLMv2 session base key", () => {
+    // [MS-NLMP] 4.2.4.1.2
+    const authenticationMessage = createAuthenticationMessage({ ntResponse: ntlmV2Response });
+    assert.deepStrictEqual(
+      ntlm.verifyAuthenticationMessage(authenticationMessage, serverChallenge, { ntHash: ntlm.createNtHash(password) }),
+      hex("8de40ccadbc14a82f15cb0ad0de95ca3")
+    );
+  });
+
+  it("decrypts the random session key of a key exchange", () => {
+    // [MS-NLMP] 4.2.4.2.3
+    const authenticationMessage = createAuthenticationMessage({
+      negotiateFlags: NegotiateFlag.UnicodeEncoding | NegotiateFlag.Sign | NegotiateFlag.KeyExchange,
+      ntResponse: ntlmV2Response,
+      encryptedRandomSessionKey: hex("c5dad2544fc9799094ce1ce90bc9d03e")
+    });
+    assert.deepStrictEqual(ntlm.verifyAuthenticationMessage(authenticationMessage, serverChallenge, { password }), randomSessionKey);
+  });
+
+  it("rejects responses to another challenge", () => {
+    const authenticationMessage = createAuthenticationMessage({ ntResponse: ntlmV2Response });
+    assert.strictEqual(ntlm.verifyAuthenticationMessage(authenticationMessage, hex("0000000000000000"), { password }), undefined);
+  });
+});
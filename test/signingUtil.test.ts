@@ -0,0 +1,80 @@
+import assert from "assert";
+import crypto from "crypto";
+import { describe, it } from "node:test";
+import Request from "../src/protocol/smb2/Request";
+import PacketType from "../src/protocol/smb2/PacketType";
+import SigningAlgorithm from "../src/protocol/smb2/SigningAlgorithm";
+import * as signingUtil from "../src/protocol/smb2/signingUtil";
+
+const hex = (value: string) => Buffer.from(value.replace(/\s/g, ""), "hex");
+
+describe("createAesCmac", () => {
+  // [RFC 4493] 4: test vectors for AES-128
+  const key = hex("2b7e151628aed2a6abf7158809cf4f3c");
+  const message = hex(`
+    6bc1bee22e409f96e93d7e117393172a
+    ae2d8a571e03ac9c9eb76fac45af8e51
+    30c81c46a35ce411e5fbc1191a0a52ef
+    f69f2445df4f9b17ad2b417be66c3710
+  `);
+
+  it("authenticates an empty message", () => {
+    assert.deepStrictEqual(signingUtil.createAesCmac(key, Buffer.alloc(0)), hex("bb1d6929e95937287fa37d129b756746"));
+  });
+
+  it("authenticates a single complete block", () => {
+    assert.deepStrictEqual(signingUtil.createAesCmac(key, message.slice(0, 16)), hex("070a16b46b4d4144f79bdd9dd04a287c"));
+  });
+
+  it("pads an incomplete last block", () => {
+    assert.deepStrictEqual(signingUtil.createAesCmac(key, message.slice(0, 40)), hex("dfa66747de9ae63030ca32611497c827"));
+  });
+
+  it("authenticates several complete blocks", () => {
+    assert.deepStrictEqual(signingUtil.createAesCmac(key, message), hex("51f0bebf7e3b9d92fc49741779363cfe"));
+  });
+});
+
+describe("deriveKey", () => {
+  // keys of the SMB 3.0 encryption example published with [MS-SMB2]
+  const sessionKey = hex("b4546771b515f766a86735532dd6c4f0");
+
+  it("derives the client to server cipher key of SMB 3.0", () => {
+    const key = signingUtil.deriveKey(sessionKey, Buffer.from("SMB2AESCCM\0", "ascii"), Buffer.from("ServerIn \0", "ascii"));
+    assert.deepStrictEqual(key, hex("261b72350558f2e9dcf613070383edbf"));
+  });
+
+  it("derives the server to client cipher key of SMB 3.0", () => {
+    const key = signingUtil.deriveKey(sessionKey, Buffer.from("SMB2AESCCM\0", "ascii"), Buffer.from("ServerOut\0", "ascii"));
+    assert.deepStrictEqual(key, hex("8fe2b57ec34d2db5b1a9727f526bbdb5"));
+  });
+
+  it("derives 256 bit keys", () => {
+    // [SP800-108] 5.1: the length in bits is part of the input, so a 256 bit key does not start with the 128 bit one
+    const key = signingUtil.deriveKey(sessionKey, Buffer.from("SMBC2SCipherKey\0", "ascii"), Buffer.alloc(64), 256);
+    assert.deepStrictEqual(key, hex("79808ebcf4c6b52953130005dbdfbefe28d91e7c36ee1882b759948f29506a05"));
+  });
+});
+
+describe("sign", () => {
+  const signingKey = hex("000102030405060708090a0b0c0d0e0f");
+
+  it("signs with the first 16 bytes of the HMAC-SHA256 of the message without its signature", () => {
+    const message = new Request({ type: PacketType.Echo, messageId: 5n }, {}).serialize().slice(4);
+    const expectedSignature = crypto.createHmac("sha256", signingKey).update(message).digest().slice(0, 16);
+
+    signingUtil.sign(message, signingKey);
+    assert.deepStrictEqual(message.slice(48, 64), expectedSignature);
+  });
+
+  for (const signingAlgorithm of [SigningAlgorithm.HmacSha256, SigningAlgorithm.AesCmac, SigningAlgorithm.AesGmac]) {
+    it(`signs messages that verify with ${SigningAlgorithm[signingAlgorithm]}`, () => {
+      const message = new Request({ type: PacketType.Echo, messageId: 5n }, {}).serialize().slice(4);
+      signingUtil.sign(message, signingKey, signingAlgorithm);
+
+      assert.ok(signingUtil.verify(message, signingKey, signingAlgorithm));
+      message[message.length - 1] ^= 1;
+      assert.ok(!signingUtil.verify(message, signingKey, signingAlgorithm));
+    });
+  }
+});